@@ -2,10 +2,12 @@
 // Claude Firefox MCP - Background Service Worker (MV3)
 // Handles service worker lifecycle with reconnection
 
-const WS_URL = 'ws://localhost:9876';
+const WS_URL = 'ws://127.0.0.1:9876';
 let ws = null;
 let reconnectTimer = null;
 let keepAliveInterval = null;
+let authenticated = false;
+let clientNonce = null;
 
 // Service worker lifecycle - reconnect on wake
 self.addEventListener('activate', () => {
@@ -41,10 +43,8 @@ function connect() {
     ws = new WebSocket(WS_URL);
 
     ws.onopen = () => {
-      console.log('[MCP] Connected to native host');
+      console.log('[MCP] Connected to native host, authenticating...');
       clearTimeout(reconnectTimer);
-      startKeepAlive();
-      updateBadge('connected');
     };
 
     ws.onmessage = async (event) => {
@@ -52,14 +52,22 @@ function connect() {
         const message = JSON.parse(event.data);
         if (message.type === 'pong') return; // Ignore keepalive response
         console.log('[MCP] Received:', message.method || message.id);
+        if (!authenticated) {
+          await handleAuthMessage(message);
+          return;
+        }
         await handleMessage(message);
       } catch (e) {
         console.error('[MCP] Failed to handle message:', e);
       }
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
+      if (event.code === 4001 || event.code === 4002) {
+        console.error('[MCP] Native host refused pairing:', event.reason);
+      }
       console.log('[MCP] Disconnected');
+      authenticated = false;
       ws = null;
       stopKeepAlive();
       updateBadge('disconnected');
@@ -101,6 +109,79 @@ function send(message) {
   }
 }
 
+// Pairing handshake - see host/auth.ts for the protocol
+async function hmacHex(secret, message) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const sig = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+  return Array.from(sig, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function randomHex(bytes) {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(buf, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function handleAuthMessage(message) {
+  const { pairingSecret } = await browser.storage.local.get('pairingSecret');
+
+  if (message.method === 'auth/challenge') {
+    if (!pairingSecret) {
+      console.error('[MCP] Not paired - add the pairing secret in the extension preferences');
+      ws.close();
+      return;
+    }
+    clientNonce = randomHex(16);
+    send({
+      jsonrpc: '2.0',
+      method: 'auth/response',
+      params: {
+        proof: await hmacHex(pairingSecret, 'extension:' + message.params.nonce),
+        nonce: clientNonce
+      }
+    });
+  } else if (message.method === 'auth/accepted') {
+    if (message.params?.proof !== await hmacHex(pairingSecret, 'server:' + clientNonce)) {
+      console.error('[MCP] Native host failed to prove the pairing secret - disconnecting');
+      ws.close();
+      return;
+    }
+    console.log('[MCP] Authenticated with native host');
+    authenticated = true;
+    startKeepAlive();
+    updateBadge('connected');
+    await sendHello();
+  }
+}
+
+// Announce this browser instance so the host can route calls between profiles
+async function sendHello() {
+  let { instanceId, profileName } = await browser.storage.local.get(['instanceId', 'profileName']);
+  if (!instanceId) {
+    instanceId = crypto.randomUUID();
+    await browser.storage.local.set({ instanceId });
+  }
+
+  const info = await browser.runtime.getBrowserInfo();
+  const platform = await browser.runtime.getPlatformInfo();
+  send({
+    jsonrpc: '2.0',
+    method: 'browser/hello',
+    params: {
+      id: instanceId,
+      profile: profileName || 'default',
+      capabilities: {
+        browser: `${info.name} ${info.version}`,
+        platform: platform.os,
+        manifestVersion: browser.runtime.getManifest().manifest_version,
+        tools: Object.keys(TOOL_HANDLERS)
+      }
+    }
+  });
+}
+
 // Handle MCP tool calls
 async function handleMessage(message) {
   if (message.method === 'tools/call') {
@@ -121,27 +202,28 @@ async function handleMessage(message) {
   }
 }
 
+// Tool implementations, by name; reported to the host in browser/hello
+const TOOL_HANDLERS = {
+  screenshot: takeScreenshot,
+  navigate: navigate,
+  read_page: readPage,
+  click: click,
+  type: typeText,
+  scroll: scroll,
+  execute_js: executeJs,
+  find: findElements,
+  form_input: formInput,
+  tabs_list: tabsList,
+  tabs_create: tabsCreate,
+  tabs_close: tabsClose,
+  get_page_text: getPageText
+};
+
 // Tool dispatch
 async function executeToolCall(params) {
   const { name, arguments: args } = params;
 
-  const tools = {
-    screenshot: takeScreenshot,
-    navigate: navigate,
-    read_page: readPage,
-    click: click,
-    type: typeText,
-    scroll: scroll,
-    execute_js: executeJs,
-    find: findElements,
-    form_input: formInput,
-    tabs_list: tabsList,
-    tabs_create: tabsCreate,
-    tabs_close: tabsClose,
-    get_page_text: getPageText
-  };
-
-  const handler = tools[name];
+  const handler = TOOL_HANDLERS[name];
   if (!handler) throw new Error(`Unknown tool: ${name}`);
 
   return await handler(args || {});
@@ -508,6 +590,14 @@ browser.action.onClicked.addListener(() => {
   connect();
 });
 
+// Reconnect when the pairing secret is changed from the preferences page
+browser.storage.onChanged.addListener((changes, area) => {
+  if (area === 'local' && (changes.pairingSecret || changes.profileName)) {
+    if (ws) ws.close();
+    else connect();
+  }
+});
+
 // Auto-connect on startup
 connect();
 
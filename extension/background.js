@@ -1,56 +1,153 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Claude Firefox MCP - Background Script
-// Connects to native host via WebSocket
+// Connects to the MCP server over a WebSocket, or through the native messaging
+// relay (host/native-host.ts) when the "native" transport is chosen in the preferences
 
-const WS_URL = 'ws://localhost:9876';
-let ws = null;
+const WS_URL = 'ws://127.0.0.1:9876';
+const NATIVE_HOST = 'claude_firefox_mcp';
+let link = null; // { send(message), close() } of the active transport
 let reconnectTimer = null;
 let connectionStatus = 'disconnected';
+let authenticated = false;
+let clientNonce = null;
 
-// Connect to native host
-function connect() {
-  if (ws && ws.readyState === WebSocket.OPEN) return;
+// Connect to the MCP server with the transport chosen in the preferences
+async function connect() {
+  if (link) return;
 
-  console.log('[MCP] Connecting to native host...');
+  const { transport = 'websocket' } = await browser.storage.local.get('transport');
+  console.log(`[MCP] Connecting to native host (${transport})...`);
   connectionStatus = 'connecting';
+  clearTimeout(reconnectTimer);
 
   try {
-    ws = new WebSocket(WS_URL);
+    link = transport === 'native' ? connectNative() : connectWebSocket();
+  } catch (e) {
+    console.error('[MCP] Failed to connect:', e);
+    link = null;
+    scheduleReconnect();
+  }
+}
 
-    ws.onopen = () => {
-      console.log('[MCP] Connected to native host');
-      connectionStatus = 'connected';
-      clearTimeout(reconnectTimer);
-      updateIcon();
-    };
+async function handleIncoming(message) {
+  try {
+    console.log('[MCP] Received:', message);
+    if (!authenticated) {
+      await handleAuthMessage(message);
+      return;
+    }
+    await handleMessage(message);
+  } catch (e) {
+    console.error('[MCP] Failed to handle message:', e);
+    emitEvent('error', { message: `Failed to handle a message from the server: ${e.message}` });
+  }
+}
+
+function linkOpened() {
+  console.log('[MCP] Connected to native host, authenticating...');
+  connectionStatus = 'authenticating';
+  updateIcon();
+}
+
+// The server went away; the next auth/challenge starts over
+function linkLost() {
+  console.log('[MCP] Disconnected from native host');
+  connectionStatus = 'disconnected';
+  authenticated = false;
+  resetDialogPolicy();
+  updateIcon();
+}
+
+function linkClosed() {
+  linkLost();
+  link = null;
+  scheduleReconnect();
+}
+
+function connectWebSocket() {
+  const ws = new WebSocket(WS_URL);
+
+  ws.onopen = linkOpened;
+
+  ws.onmessage = (event) => {
+    let message;
+    try {
+      message = JSON.parse(event.data);
+    } catch (e) {
+      console.error('[MCP] Failed to parse message:', e);
+      return;
+    }
+    handleIncoming(message);
+  };
+
+  ws.onclose = (event) => {
+    if (event.code === 4001 || event.code === 4002) {
+      console.error('[MCP] Native host refused pairing:', event.reason);
+    }
+    linkClosed();
+  };
 
-    ws.onmessage = async (event) => {
-      try {
-        const message = JSON.parse(event.data);
-        console.log('[MCP] Received:', message);
-        await handleMessage(message);
-      } catch (e) {
-        console.error('[MCP] Failed to handle message:', e);
+  ws.onerror = (e) => {
+    console.error('[MCP] WebSocket error:', e);
+    connectionStatus = 'error';
+    updateIcon();
+  };
+
+  return {
+    send: (message) => {
+      if (ws.readyState !== WebSocket.OPEN) throw new Error('WebSocket not open');
+      ws.send(JSON.stringify(message));
+    },
+    close: () => ws.close()
+  };
+}
+
+// Native messaging: Firefox starts the relay, which reports whether it reached the
+// server. Messages over 1MB arrive as transport/chunk pieces.
+function connectNative() {
+  const port = browser.runtime.connectNative(NATIVE_HOST);
+  const chunks = new Map();
+
+  port.onMessage.addListener((message) => {
+    switch (message.method) {
+      case 'transport/connected':
+        linkOpened();
+        return;
+      case 'transport/disconnected':
+        linkLost();
+        return;
+      case 'transport/close':
+        console.error('[MCP] Native host refused pairing:', message.params.reason);
+        return;
+      case 'transport/chunk': {
+        const { id, index, count, data } = message.params;
+        const parts = chunks.get(id) || [];
+        parts[index] = data;
+        chunks.set(id, parts);
+        if (parts.filter(part => part !== undefined).length === count) {
+          chunks.delete(id);
+          handleIncoming(JSON.parse(parts.join('')));
+        }
+        return;
       }
-    };
+      default:
+        handleIncoming(message);
+    }
+  });
 
-    ws.onclose = () => {
-      console.log('[MCP] Disconnected from native host');
-      connectionStatus = 'disconnected';
-      ws = null;
-      updateIcon();
-      scheduleReconnect();
-    };
+  port.onDisconnect.addListener((p) => {
+    if (p.error) console.error('[MCP] Native messaging host failed:', p.error.message);
+    linkClosed();
+  });
 
-    ws.onerror = (e) => {
-      console.error('[MCP] WebSocket error:', e);
-      connectionStatus = 'error';
-      updateIcon();
-    };
-  } catch (e) {
-    console.error('[MCP] Failed to connect:', e);
-    scheduleReconnect();
-  }
+  return {
+    send: (message) => port.postMessage(message),
+    close: () => {
+      port.disconnect();
+      // disconnect() does not fire our own onDisconnect
+      linkClosed();
+    }
+  };
 }
 
 function scheduleReconnect() {
@@ -64,376 +161,474 @@ function updateIcon() {
 }
 
 function send(message) {
-  if (ws && ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify(message));
-  } else {
+  if (!link) {
     console.error('[MCP] Cannot send - not connected');
+    return;
+  }
+  try {
+    link.send(message);
+  } catch (e) {
+    console.error('[MCP] Cannot send -', e.message);
+  }
+}
+
+// Pairing handshake - see host/auth.ts for the protocol
+async function hmacHex(secret, message) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const sig = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+  return Array.from(sig, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function randomHex(bytes) {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(buf, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function handleAuthMessage(message) {
+  if (message.method === 'auth/challenge') {
+    const { pairingSecret } = await browser.storage.local.get('pairingSecret');
+    if (!pairingSecret) {
+      console.error('[MCP] Not paired - add the pairing secret in the extension preferences');
+      connectionStatus = 'unpaired';
+      link.close();
+      return;
+    }
+
+    clientNonce = randomHex(16);
+    send({
+      jsonrpc: '2.0',
+      method: 'auth/response',
+      params: {
+        proof: await hmacHex(pairingSecret, 'extension:' + message.params.nonce),
+        nonce: clientNonce
+      }
+    });
+  } else if (message.method === 'auth/accepted') {
+    const { pairingSecret } = await browser.storage.local.get('pairingSecret');
+    const expected = await hmacHex(pairingSecret, 'server:' + clientNonce);
+    if (message.params?.proof !== expected) {
+      console.error('[MCP] Native host failed to prove the pairing secret - disconnecting');
+      link.close();
+      return;
+    }
+
+    console.log('[MCP] Authenticated with native host');
+    authenticated = true;
+    connectionStatus = 'connected';
+    updateIcon();
+    await sendHello();
   }
 }
 
+// Announce this browser instance so the host can route calls between profiles
+async function sendHello() {
+  let { instanceId, profileName } = await browser.storage.local.get(['instanceId', 'profileName']);
+  if (!instanceId) {
+    instanceId = crypto.randomUUID();
+    await browser.storage.local.set({ instanceId });
+  }
+
+  const info = await browser.runtime.getBrowserInfo();
+  const platform = await browser.runtime.getPlatformInfo();
+  send({
+    jsonrpc: '2.0',
+    method: 'browser/hello',
+    params: {
+      id: instanceId,
+      profile: profileName || 'default',
+      capabilities: {
+        browser: `${info.name} ${info.version}`,
+        platform: platform.os,
+        manifestVersion: browser.runtime.getManifest().manifest_version,
+        tools: Object.keys(TOOL_HANDLERS)
+      }
+    }
+  });
+}
+
+// In-flight tool calls by request id, so the host can cancel them
+const inFlight = new Map();
+
 // Handle incoming MCP tool calls
+
 async function handleMessage(message) {
+  if (message.method === 'notifications/cancelled') {
+    const controller = inFlight.get(message.params.requestId);
+    if (controller) {
+      console.log('[MCP] Cancelling request', message.params.requestId);
+      controller.abort();
+    }
+    return;
+  }
+
   if (message.method === 'tools/call') {
+    const controller = new AbortController();
+    inFlight.set(message.id, controller);
+
+    // Progress notifications are only sent when the host asked for them
+    const progress = message.params._meta?.progress
+      ? (value, total, text) => send({
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: { requestId: message.id, progress: value, total, message: text }
+        })
+      : () => {};
+
     try {
-      const result = await executeToolCall(message.params);
+      const result = await executeToolCall(message.params, { signal: controller.signal, progress });
+      if (controller.signal.aborted) return;
       send({
         jsonrpc: '2.0',
         id: message.id,
         result
       });
     } catch (error) {
+      if (controller.signal.aborted) return;
       send({
         jsonrpc: '2.0',
         id: message.id,
         error: { code: -32000, message: error.message }
       });
+    } finally {
+      inFlight.delete(message.id);
     }
   }
 }
 
-// Tool implementations
-async function executeToolCall(params) {
+// Tool implementations, by name. The host learns which tools this build has
+// from browser/hello; ctx carries { signal, progress } for tools that run long
+// enough to cancel or report on.
+const TOOL_HANDLERS = {
+  screenshot: takeScreenshot,
+  navigate: navigate,
+  read_page: readPage,
+  click: click,
+  double_click: (args, ctx) => click({ ...args, clickCount: 2 }, ctx),
+  hover: hover,
+  drag: drag,
+  type: typeText,
+  key_press: keyPress,
+  input_locate: inputLocate,
+  scroll: scroll,
+  execute_js: executeJs,
+  find: findElements,
+  frames_list: framesList,
+  form_input: formInput,
+  upload_file: uploadFile,
+  tabs_list: tabsList,
+  tabs_create: tabsCreate,
+  tabs_close: tabsClose,
+  tabs_activate: tabsActivate,
+  tabs_move: tabsMove,
+  tabs_duplicate: tabsDuplicate,
+  tabs_reload: tabsReload,
+  windows_list: windowsList,
+  windows_create: windowsCreate,
+  windows_close: windowsClose,
+  windows_resize: windowsResize,
+  get_page_text: getPageText,
+  get_page_content: getPageContent,
+  downloads_list: downloadsList,
+  downloads_wait: downloadsWait,
+  downloads_get: downloadsGet,
+  network_start: networkStartTool,
+  network_stop: networkStopTool,
+  network_get: networkGetTool,
+  console_read: consoleRead,
+  wait_for: waitForTool,
+  cookies_get: cookiesGet,
+  cookies_set: cookiesSet,
+  cookies_delete: cookiesDelete,
+  storage_get: storageGet,
+  storage_set: storageSet,
+  storage_clear: storageClear,
+  state_export: stateExport,
+  state_import: stateImport,
+  tab_context: tabContext,
+  policy_confirm: confirmAction,
+  recording_get: recordingGet,
+  dialog_handle: dialogHandle
+};
+
+async function executeToolCall(params, ctx) {
   const { name, arguments: args } = params;
-
-  switch (name) {
-    case 'screenshot':
-      return await takeScreenshot(args);
-    case 'navigate':
-      return await navigate(args);
-    case 'read_page':
-      return await readPage(args);
-    case 'click':
-      return await click(args);
-    case 'type':
-      return await typeText(args);
-    case 'scroll':
-      return await scroll(args);
-    case 'execute_js':
-      return await executeJs(args);
-    case 'find':
-      return await findElements(args);
-    case 'form_input':
-      return await formInput(args);
-    case 'tabs_list':
-      return await tabsList();
-    case 'tabs_create':
-      return await tabsCreate(args);
-    case 'tabs_close':
-      return await tabsClose(args);
-    case 'get_page_text':
-      return await getPageText(args);
-    default:
-      throw new Error(`Unknown tool: ${name}`);
-  }
+  const handler = TOOL_HANDLERS[name];
+  if (!handler) throw new Error(`Unknown tool: ${name}`);
+  const started = Date.now();
+  return withDialogNotes(await handler(args || {}, ctx), started);
 }
 
-// Get active tab or specific tab
+// Get active tab or specific tab, within the session window if there is one (windows.js)
 async function getTab(tabId) {
   if (tabId) {
-    return await browser.tabs.get(tabId);
+    const tab = await browser.tabs.get(tabId);
+    checkSessionWindow(tab.windowId, `Tab ${tabId}`);
+    return tab;
+  }
+  const tabs = await browser.tabs.query(sessionTabQuery({ active: true, currentWindow: true }));
+  if (!tabs[0]) {
+    await requireSessionWindow();
+    throw new Error('No active tab');
   }
-  const tabs = await browser.tabs.query({ active: true, currentWindow: true });
-  if (!tabs[0]) throw new Error('No active tab');
   return tabs[0];
 }
 
-// Screenshot
-async function takeScreenshot(args = {}) {
+// Same files, in the same order, as content_scripts in manifest.json
+const CONTENT_SCRIPTS = [
+  '/content/console.js', '/content/dialog.js', '/content/accessibility.js', '/content/locator.js', '/content/find.js', '/content/extract.js',
+  '/content/input.js', '/content/wait.js', '/content/recorder.js', '/content/bridge.js'
+];
+
+// Run a DOM handler in the content script (content/bridge.js) of one of the
+// tab's frames, the top frame by default. Tabs opened before the extension
+// loaded have no bridge yet, so inject it once. Fails early when a dialog
+// blocks the page (dialogs.js).
+async function sendToContent(tabId, type, args = {}, frameId = 0) {
+  const message = { type, args };
+  const response = await whileNoDialog(tabId, async () => {
+    try {
+      return await browser.tabs.sendMessage(tabId, message, { frameId });
+    } catch {
+      for (const file of CONTENT_SCRIPTS) {
+        await browser.tabs.executeScript(tabId, { file, frameId, runAt: 'document_end' });
+      }
+      return await browser.tabs.sendMessage(tabId, message, { frameId });
+    }
+  });
+
+  if (!response) throw new Error('No response from page');
+  if (!response.success) throw new Error(response.error);
+  return response.result;
+}
+
+// The tab a call acts on, for the host's policy checks and session log. With a
+// target (ref/coordinate, or the focused element) also reports whether acting
+// on it would submit a form and whether it holds sensitive input. With a
+// frameId the URL is the frame's, so origin rules apply to what the call touches.
+async function tabContext(args = {}) {
   const tab = await getTab(args.tabId);
-  const dataUrl = await browser.tabs.captureTab(tab.id, { format: 'png' });
+  const { frameId = 0 } = args;
+  const url = frameId ? (await browser.webNavigation.getFrame({ tabId: tab.id, frameId }))?.url : tab.url;
+  if (!url) throw new Error(`No frame ${frameId} in tab ${tab.id} - see frames_list`);
+  const context = { tabId: tab.id, url, submitsForm: false, sensitive: false };
+  if (args.tool) {
+    try {
+      Object.assign(context, await sendToContent(tab.id, 'TARGET_INFO', {
+        tool: args.tool,
+        ref: args.ref,
+        locator: args.locator,
+        selector: args.selector,
+        coordinate: args.coordinate,
+        keys: args.keys,
+        text: args.text
+      }, frameId));
+    } catch {
+      // Pages without content scripts (about:, addons.mozilla.org) have no forms to check
+    }
+  }
   return {
-    content: [{
-      type: 'image',
-      data: dataUrl.replace(/^data:image\/png;base64,/, ''),
-      mimeType: 'image/png'
-    }]
+    content: [{ type: 'text', text: JSON.stringify(context) }]
   };
 }
 
 // Navigate
-async function navigate(args) {
-  const { url, tabId } = args;
+async function navigate(args, ctx) {
+  const { url, tabId, waitFor } = args;
   const tab = await getTab(tabId);
 
-  if (url === 'back') {
-    await browser.tabs.goBack(tab.id);
-  } else if (url === 'forward') {
-    await browser.tabs.goForward(tab.id);
-  } else {
-    let targetUrl = url;
-    if (!url.includes('://')) {
-      targetUrl = 'https://' + url;
+  ctx.progress(0, 2, `Navigating to ${url}`);
+
+  // Stop the page load if the host cancels the call
+  const stop = () => browser.tabs.executeScript(tab.id, { code: 'window.stop()' }).catch(() => {});
+  ctx.signal.addEventListener('abort', stop);
+  let loaded = false;
+
+  try {
+    if (url === 'back') {
+      await browser.tabs.goBack(tab.id);
+    } else if (url === 'forward') {
+      await browser.tabs.goForward(tab.id);
+    } else {
+      let targetUrl = url;
+      if (!url.includes('://')) {
+        targetUrl = 'https://' + url;
+      }
+      await browser.tabs.update(tab.id, { url: targetUrl });
     }
-    await browser.tabs.update(tab.id, { url: targetUrl });
-  }
 
-  // Wait for page load
-  await waitForLoad(tab.id);
+    // Wait for page load
+    loaded = await waitForLoad(tab.id, 15000, ctx);
+  } finally {
+    ctx.signal.removeEventListener('abort', stop);
+  }
 
   const updatedTab = await browser.tabs.get(tab.id);
-  return {
+  ctx.progress(2, 2, loaded ? 'Page loaded' : 'Page still loading');
+  return await withWait({
     content: [{
       type: 'text',
-      text: `Navigated to ${updatedTab.url}`
+      text: `Navigated to ${updatedTab.url}${loaded ? '' : ' (page still loading after 15s)'}`
     }]
-  };
+  }, tab.id, waitFor, ctx);
 }
 
-function waitForLoad(tabId, timeout = 15000) {
+// Resolves true once the tab has loaded, false on timeout or cancellation
+function waitForLoad(tabId, timeout = 15000, ctx = null) {
   return new Promise((resolve) => {
-    const startTime = Date.now();
+    let timer = null;
+
+    const done = (loaded) => {
+      browser.tabs.onUpdated.removeListener(listener);
+      ctx?.signal.removeEventListener('abort', aborted);
+      clearTimeout(timer);
+      resolve(loaded);
+    };
+    const aborted = () => done(false);
 
     const listener = (id, info) => {
-      if (id === tabId && info.status === 'complete') {
-        browser.tabs.onUpdated.removeListener(listener);
-        resolve();
+      if (id !== tabId) return;
+      if (info.status === 'loading') {
+        ctx?.progress(1, 2, 'Loading');
+      } else if (info.status === 'complete') {
+        done(true);
       }
     };
 
     browser.tabs.onUpdated.addListener(listener);
+    ctx?.signal.addEventListener('abort', aborted);
 
-    setTimeout(() => {
-      browser.tabs.onUpdated.removeListener(listener);
-      resolve();
-    }, timeout);
+    timer = setTimeout(() => done(false), timeout);
   });
 }
 
-// Read page - build accessibility tree
+// Read page - build accessibility tree (refs stay valid for later calls)
 async function readPage(args = {}) {
   const tab = await getTab(args.tabId);
-  const depth = args.depth || 15;
-  const filter = args.filter || 'all';
-
-  const results = await browser.tabs.executeScript(tab.id, {
-    code: `(function() {
-      let refCounter = 0;
-
-      function getRole(el) {
-        const role = el.getAttribute('role');
-        if (role) return role;
-
-        const tag = el.tagName.toLowerCase();
-        const roleMap = {
-          'a': 'link', 'button': 'button', 'input': 'textbox',
-          'select': 'combobox', 'textarea': 'textbox', 'img': 'image',
-          'h1': 'heading', 'h2': 'heading', 'h3': 'heading',
-          'h4': 'heading', 'h5': 'heading', 'h6': 'heading',
-          'nav': 'navigation', 'main': 'main', 'article': 'article',
-          'section': 'region', 'form': 'form', 'table': 'table',
-          'ul': 'list', 'ol': 'list', 'li': 'listitem', 'p': 'paragraph'
-        };
-        return roleMap[tag] || 'generic';
-      }
-
-      function isInteractive(el) {
-        const tag = el.tagName.toLowerCase();
-        const interactive = ['a', 'button', 'input', 'select', 'textarea'];
-        return interactive.includes(tag) ||
-               el.getAttribute('onclick') ||
-               el.getAttribute('role') === 'button' ||
-               el.getAttribute('tabindex') !== null;
-      }
-
-      function isVisible(el) {
-        if (!el.offsetParent && el.tagName !== 'BODY') return false;
-        const style = window.getComputedStyle(el);
-        return style.display !== 'none' &&
-               style.visibility !== 'hidden' &&
-               parseFloat(style.opacity) > 0;
-      }
+  const text = await sendToContent(tab.id, 'READ_PAGE', {
+    depth: args.depth || 15,
+    filter: args.filter || 'all',
+    format: args.format || 'json'
+  });
 
-      function buildTree(el, currentDepth, maxDepth, filterInteractive) {
-        if (currentDepth > maxDepth) return null;
-        if (!el || el.nodeType !== 1) return null;
-        if (!isVisible(el)) return null;
-
-        const interactive = isInteractive(el);
-
-        if (filterInteractive && !interactive) {
-          const children = [];
-          for (const child of el.children) {
-            const c = buildTree(child, currentDepth, maxDepth, filterInteractive);
-            if (c) {
-              if (Array.isArray(c)) children.push(...c);
-              else children.push(c);
-            }
-          }
-          return children.length > 0 ? children : null;
-        }
+  return {
+    content: [{
+      type: 'text',
+      text: text || '{"error": "Unable to read page"}'
+    }]
+  };
+}
 
-        const ref = 'ref_' + (refCounter++);
-        const rect = el.getBoundingClientRect();
-
-        const node = {
-          ref: ref,
-          role: getRole(el),
-          tag: el.tagName.toLowerCase()
-        };
-
-        // Add name
-        const name = el.getAttribute('aria-label') ||
-                     el.getAttribute('alt') ||
-                     el.getAttribute('title') ||
-                     el.getAttribute('placeholder') ||
-                     (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' ? el.value : null) ||
-                     (el.childNodes.length === 1 && el.childNodes[0].nodeType === 3
-                       ? el.textContent.trim().slice(0, 80) : null);
-        if (name) node.name = name;
-
-        // Add bounds
-        if (rect.width > 0 && rect.height > 0) {
-          node.bounds = [
-            Math.round(rect.left),
-            Math.round(rect.top),
-            Math.round(rect.right),
-            Math.round(rect.bottom)
-          ];
-        }
+// Click (also double_click, with clickCount 2)
+async function click(args, ctx) {
+  const tab = await getTab(args.tabId);
+  const { coordinate, ref, locator, button = 'left', modifiers, clickCount, waitFor, frameId = 0 } = args;
 
-        // Add href for links
-        if (el.href) node.href = el.href;
+  if (!coordinate && !ref && !locator) {
+    throw new Error('coordinate, ref or locator is required for click');
+  }
 
-        // Add type for inputs
-        if (el.type) node.inputType = el.type;
+  const text = await sendToContent(tab.id, 'CLICK', { coordinate, ref, locator, button, modifiers, clickCount }, frameId);
 
-        // Process children
-        const children = [];
-        for (const child of el.children) {
-          const c = buildTree(child, currentDepth + 1, maxDepth, filterInteractive);
-          if (c) {
-            if (Array.isArray(c)) children.push(...c);
-            else children.push(c);
-          }
-        }
-        if (children.length > 0) node.children = children;
+  // Without explicit conditions, give navigation/updates a moment to start
+  if (!waitFor) await new Promise(r => setTimeout(r, 100));
 
-        return node;
-      }
-
-      const tree = buildTree(document.body, 0, ${depth}, ${filter === 'interactive'});
-      return JSON.stringify(tree, null, 2);
-    })()`
-  });
+  return await withWait({
+    content: [{ type: 'text', text }]
+  }, tab.id, waitFor, ctx);
+}
 
+// Hover
+async function hover(args) {
+  const tab = await getTab(args.tabId);
+  const { coordinate, ref, locator, frameId = 0 } = args;
+  const text = await sendToContent(tab.id, 'HOVER', { coordinate, ref, locator }, frameId);
   return {
-    content: [{
-      type: 'text',
-      text: results[0] || '{"error": "Unable to read page"}'
-    }]
+    content: [{ type: 'text', text }]
   };
 }
 
-// Click
-async function click(args) {
+// Drag from one element/point to another
+async function drag(args) {
   const tab = await getTab(args.tabId);
-  const { coordinate, button = 'left' } = args;
+  const { ref, coordinate, targetRef, targetCoordinate, steps, frameId = 0 } = args;
 
-  if (!coordinate) {
-    throw new Error('coordinate is required for click');
+  if ((!ref && !coordinate) || (!targetRef && !targetCoordinate)) {
+    throw new Error('drag needs a start (ref or coordinate) and an end (targetRef or targetCoordinate)');
   }
 
-  await browser.tabs.executeScript(tab.id, {
-    code: `(function() {
-      const x = ${coordinate[0]};
-      const y = ${coordinate[1]};
-      const button = '${button}';
-
-      const el = document.elementFromPoint(x, y);
-      if (!el) return 'No element at coordinates';
-
-      const eventType = button === 'right' ? 'contextmenu' : 'click';
-      const event = new MouseEvent(eventType, {
-        bubbles: true,
-        cancelable: true,
-        view: window,
-        clientX: x,
-        clientY: y,
-        button: button === 'right' ? 2 : 0
-      });
+  const text = await sendToContent(tab.id, 'DRAG', { ref, coordinate, targetRef, targetCoordinate, steps }, frameId);
+  return {
+    content: [{ type: 'text', text }]
+  };
+}
 
-      el.dispatchEvent(event);
+// Type text, one keystroke at a time
+async function typeText(args, ctx) {
+  const tab = await getTab(args.tabId);
+  const { text, coordinate, ref, locator, clear, delay, waitFor, frameId = 0 } = args;
 
-      // Also try native click for interactive elements
-      if (button === 'left' && typeof el.click === 'function') {
-        el.click();
-      }
+  await sendToContent(tab.id, 'TYPE', { text, coordinate, ref, locator, clear, delay }, frameId);
 
-      return 'Clicked ' + el.tagName;
-    })()`
-  });
+  return await withWait({
+    content: [{ type: 'text', text: `Typed: "${text.slice(0, 50)}${text.length > 50 ? '...' : ''}"` }]
+  }, tab.id, waitFor, ctx);
+}
 
-  // Small delay for any navigation/updates
-  await new Promise(r => setTimeout(r, 100));
+// Key press (combinations and chords)
+async function keyPress(args) {
+  const tab = await getTab(args.tabId);
+  const { keys, ref, locator, coordinate, repeat, frameId = 0 } = args;
 
+  if (!keys) throw new Error('keys is required for key_press');
+
+  const text = await sendToContent(tab.id, 'KEY_PRESS', { keys, ref, locator, coordinate, repeat }, frameId);
   return {
-    content: [{ type: 'text', text: `Clicked at [${coordinate[0]}, ${coordinate[1]}]` }]
+    content: [{ type: 'text', text }]
   };
 }
 
-// Type text
-async function typeText(args) {
+// Screen coordinates of a target for an OS-level input backend in the host.
+// Brings the tab and its window to the front so OS input lands on it.
+async function inputLocate(args) {
   const tab = await getTab(args.tabId);
-  const { text, coordinate } = args;
-
-  await browser.tabs.executeScript(tab.id, {
-    code: `(function() {
-      let el = document.activeElement;
-
-      ${coordinate ? `
-      const clickEl = document.elementFromPoint(${coordinate[0]}, ${coordinate[1]});
-      if (clickEl) {
-        clickEl.focus();
-        clickEl.click();
-        el = clickEl;
-      }
-      ` : ''}
-
-      if (el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable)) {
-        if (el.value !== undefined) {
-          el.value = ${JSON.stringify(text)};
-          el.dispatchEvent(new Event('input', { bubbles: true }));
-          el.dispatchEvent(new Event('change', { bubbles: true }));
-        } else if (el.isContentEditable) {
-          el.textContent = ${JSON.stringify(text)};
-          el.dispatchEvent(new Event('input', { bubbles: true }));
-        }
-        return 'Typed into ' + el.tagName;
-      }
-      return 'No focusable element';
-    })()`
-  });
+  await browser.windows.update(tab.windowId, { focused: true });
+  if (!tab.active) await browser.tabs.update(tab.id, { active: true });
+
+  const locate = (target) => sendToContent(tab.id, 'LOCATE', { ...target, focus: args.focus }, args.frameId ?? 0);
+  const result = { start: null };
+  if (args.ref || args.locator || args.selector || args.coordinate) {
+    result.start = await locate({ ref: args.ref, locator: args.locator, selector: args.selector, coordinate: args.coordinate });
+  }
+  if (args.targetRef || args.targetCoordinate) {
+    result.end = await locate({ ref: args.targetRef, coordinate: args.targetCoordinate });
+  }
 
   return {
-    content: [{ type: 'text', text: `Typed: "${text.slice(0, 50)}${text.length > 50 ? '...' : ''}"` }]
+    content: [{ type: 'text', text: JSON.stringify(result) }]
   };
 }
 
 // Scroll
 async function scroll(args) {
   const tab = await getTab(args.tabId);
-  const { direction, amount = 300, coordinate } = args;
+  const { direction, amount = 300, coordinate, ref, frameId = 0 } = args;
 
-  const dx = direction === 'left' ? -amount : direction === 'right' ? amount : 0;
-  const dy = direction === 'up' ? -amount : direction === 'down' ? amount : 0;
-
-  await browser.tabs.executeScript(tab.id, {
-    code: coordinate
-      ? `(document.elementFromPoint(${coordinate[0]}, ${coordinate[1]}) || window).scrollBy(${dx}, ${dy})`
-      : `window.scrollBy(${dx}, ${dy})`
-  });
+  const text = await sendToContent(tab.id, 'SCROLL', { direction, amount, coordinate, ref }, frameId);
 
   return {
-    content: [{ type: 'text', text: `Scrolled ${direction} by ${amount}px` }]
+    content: [{ type: 'text', text }]
   };
 }
 
 // Execute JavaScript
 async function executeJs(args) {
   const tab = await getTab(args.tabId);
-  const { code } = args;
+  const { code, frameId = 0 } = args;
 
-  const results = await browser.tabs.executeScript(tab.id, { code });
+  const results = await browser.tabs.executeScript(tab.id, { code, frameId });
 
   let resultText;
   try {
@@ -448,113 +643,103 @@ async function executeJs(args) {
 }
 
 // Find elements
+// Search every frame of the tab (or just args.frameId). Each frame ranks its own
+// matches (content/find.js); merging keeps that order within a frame and puts
+// exact, visible, in-viewport matches first across frames. Each match says which
+// frame it is in, for follow-up calls with frameId.
 async function findElements(args) {
   const tab = await getTab(args.tabId);
-  const { query } = args;
+  const { query, frameId, limit = 20 } = args;
 
-  const results = await browser.tabs.executeScript(tab.id, {
-    code: `(function() {
-      const query = ${JSON.stringify(query)}.toLowerCase();
-      const results = [];
-
-      // Try CSS selector first
-      try {
-        const els = document.querySelectorAll(${JSON.stringify(query)});
-        for (const el of els) {
-          const rect = el.getBoundingClientRect();
-          if (rect.width > 0 && rect.height > 0) {
-            results.push({
-              tag: el.tagName.toLowerCase(),
-              text: (el.textContent || '').trim().slice(0, 80),
-              bounds: [Math.round(rect.left), Math.round(rect.top), Math.round(rect.right), Math.round(rect.bottom)]
-            });
-          }
-          if (results.length >= 20) break;
-        }
-        if (results.length > 0) return JSON.stringify(results, null, 2);
-      } catch {}
-
-      // Text search
-      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_ELEMENT);
-      let node;
-
-      while ((node = walker.nextNode()) && results.length < 20) {
-        const text = (node.textContent || '').trim().toLowerCase();
-        const label = (node.getAttribute('aria-label') || '').toLowerCase();
-        const placeholder = (node.getAttribute('placeholder') || '').toLowerCase();
-
-        if (text.includes(query) || label.includes(query) || placeholder.includes(query)) {
-          const rect = node.getBoundingClientRect();
-          if (rect.width > 0 && rect.height > 0) {
-            results.push({
-              tag: node.tagName.toLowerCase(),
-              text: (node.textContent || '').trim().slice(0, 80),
-              bounds: [Math.round(rect.left), Math.round(rect.top), Math.round(rect.right), Math.round(rect.bottom)]
-            });
-          }
-        }
-      }
+  const frameIds = frameId !== undefined
+    ? [frameId]
+    : (await browser.webNavigation.getAllFrames({ tabId: tab.id })).map(frame => frame.frameId).sort((a, b) => a - b);
 
-      return JSON.stringify(results, null, 2);
-    })()`
-  });
+  const results = [];
+  for (const id of frameIds) {
+    let matches;
+    try {
+      matches = await sendToContent(tab.id, 'FIND', { query, limit }, id);
+    } catch (e) {
+      // Query errors (bad XPath, bad regex) are the same in every frame
+      if (frameId !== undefined || id === 0) throw e;
+      continue; // Frames scripts cannot run in (sandboxed, about:) have nothing to find
+    }
+    results.push(...matches.map(match => ({ frameId: id, ...match })));
+  }
+  results.sort((a, b) => (b.exact - a.exact) || (b.visible - a.visible) || (b.inViewport - a.inViewport));
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(results.slice(0, limit), null, 2) }]
+  };
+}
 
+// Frames of a tab from webNavigation, for the frameId of find, form_input and execute_js
+async function framesList(args = {}) {
+  const tab = await getTab(args.tabId);
+  const frames = await browser.webNavigation.getAllFrames({ tabId: tab.id });
+  const list = frames
+    .map(({ frameId, parentFrameId, url }) => ({ frameId, parentFrameId, url }))
+    .sort((a, b) => a.frameId - b.frameId);
   return {
-    content: [{ type: 'text', text: results[0] || '[]' }]
+    content: [{ type: 'text', text: JSON.stringify(list, null, 2) }]
   };
 }
 
-// Form input
 async function formInput(args) {
   const tab = await getTab(args.tabId);
-  const { selector, value } = args;
-
-  await browser.tabs.executeScript(tab.id, {
-    code: `(function() {
-      const el = document.querySelector(${JSON.stringify(selector)});
-      if (!el) return 'Element not found';
-
-      if (el.type === 'checkbox' || el.type === 'radio') {
-        el.checked = ${!!value};
-      } else if (el.tagName === 'SELECT') {
-        el.value = ${JSON.stringify(value)};
-      } else {
-        el.value = ${JSON.stringify(value)};
-      }
+  const { selector, ref, locator, value, frameId = 0 } = args;
 
-      el.dispatchEvent(new Event('input', { bubbles: true }));
-      el.dispatchEvent(new Event('change', { bubbles: true }));
-      return 'Set value';
-    })()`
-  });
+  if (!selector && !ref && !locator) {
+    throw new Error('selector, ref or locator is required for form_input');
+  }
+
+  const text = await sendToContent(tab.id, 'FORM_INPUT', { selector, ref, locator, value }, frameId);
 
   return {
-    content: [{ type: 'text', text: `Set ${selector} to ${value}` }]
+    content: [{ type: 'text', text }]
   };
 }
 
-// Tabs list
-async function tabsList() {
-  const tabs = await browser.tabs.query({ currentWindow: true });
-  const tabInfo = tabs.map(t => ({
-    id: t.id,
-    title: t.title,
-    url: t.url,
-    active: t.active
-  }));
+// Tabs list, with the dialog a tab is blocked on (dialogs.js). The current
+// window's tabs by default; the session window's only, if there is one.
+async function tabsList(args = {}) {
+  const { windowId, allWindows = false } = args;
+  if (windowId !== undefined) checkSessionWindow(windowId);
+  const query = windowId !== undefined ? { windowId } : allWindows ? {} : { currentWindow: true };
+  const tabs = await browser.tabs.query(sessionTabQuery(query));
+  const tabInfo = tabs.map(t => {
+    const dialog = openDialogs.get(t.id);
+    return {
+      id: t.id,
+      title: t.title,
+      url: t.url,
+      active: t.active,
+      ...(allWindows ? { windowId: t.windowId } : {}),
+      ...(dialog ? { dialog: { type: dialog.type, message: dialog.message, frameId: dialog.frameId } } : {})
+    };
+  });
 
   return {
     content: [{ type: 'text', text: JSON.stringify(tabInfo, null, 2) }]
   };
 }
 
-// Create tab
+// Create tab, in the session window if there is one; active: false opens it
+// in the background
 async function tabsCreate(args = {}) {
-  const { url } = args;
-  const tab = await browser.tabs.create({ url: url || 'about:blank', active: true });
+  const { url, active = true } = args;
+  const windowId = args.windowId !== undefined || sessionWindowId !== null
+    ? await targetWindowId(args.windowId)
+    : undefined;
+  const tab = await browser.tabs.create({
+    url: url || 'about:blank',
+    active,
+    ...(windowId !== undefined ? { windowId } : {})
+  });
 
   return {
-    content: [{ type: 'text', text: `Created tab ${tab.id}` }]
+    content: [{ type: 'text', text: `Created tab ${tab.id}${active ? '' : ' in the background'}` }]
   };
 }
 
@@ -581,12 +766,134 @@ async function getPageText(args = {}) {
   };
 }
 
-// Initialize
-browser.browserAction.onClicked.addListener(() => {
+// The page rendered as Markdown, its main article, or its tables (content/extract.js).
+// The host pages through the result (host/content.ts).
+async function getPageContent(args = {}) {
+  const tab = await getTab(args.tabId);
+  const { format = 'markdown', frameId = 0 } = args;
+  const page = await sendToContent(tab.id, 'PAGE_CONTENT', { format }, frameId);
+  return {
+    content: [{ type: 'text', text: JSON.stringify(page) }]
+  };
+}
+
+// Network capture (see network.js)
+async function networkStartTool(args = {}) {
+  const tab = await getTab(args.tabId);
+  networkStart(tab.id, {
+    urlPattern: args.urlPattern,
+    types: args.types,
+    includeBodies: !!args.includeBodies,
+    maxEntries: args.maxEntries
+  });
+
+  return {
+    content: [{ type: 'text', text: `Recording network activity for tab ${tab.id}` }]
+  };
+}
+
+async function networkStopTool(args = {}) {
+  const tab = await getTab(args.tabId);
+  const capture = networkStop(tab.id);
+  if (!capture) throw new Error(`No network capture for tab ${tab.id}`);
+
+  return {
+    content: [{ type: 'text', text: `Stopped recording tab ${tab.id}; ${capture.entries.size} requests captured` }]
+  };
+}
+
+// Raw entries as JSON; the host formats them as a summary or HAR
+async function networkGetTool(args = {}) {
+  const tab = await getTab(args.tabId);
+  const result = networkEntries(tab.id, args);
+  result.page = { url: tab.url, title: tab.title };
+  result.browser = { name: 'Firefox', version: (await browser.runtime.getBrowserInfo()).version };
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(result) }]
+  };
+}
+
+// Console capture: content/console.js batches entries here, one ring buffer per tab
+const CONSOLE_BUFFER_SIZE = 1000;
+const CONSOLE_LEVELS = ['debug', 'log', 'info', 'warn', 'error'];
+
+// tabId -> { nextSeq, entries: [{ seq, level, message, url, time, frameId, source?, location? }] }
+const consoleBuffers = new Map();
+
+browser.runtime.onMessage.addListener((message, sender) => {
+  if (message.type !== 'CONSOLE_ENTRIES' || !sender.tab) return;
+
+  let buffer = consoleBuffers.get(sender.tab.id);
+  if (!buffer) {
+    buffer = { nextSeq: 1, entries: [] };
+    consoleBuffers.set(sender.tab.id, buffer);
+  }
+  for (const entry of message.entries) {
+    buffer.entries.push({ seq: buffer.nextSeq++, frameId: sender.frameId, ...entry });
+  }
+  if (buffer.entries.length > CONSOLE_BUFFER_SIZE) {
+    buffer.entries.splice(0, buffer.entries.length - CONSOLE_BUFFER_SIZE);
+  }
+});
+
+browser.tabs.onRemoved.addListener((tabId) => consoleBuffers.delete(tabId));
+
+// Read console entries after a cursor; `since` is the cursor returned by the previous read
+async function consoleRead(args = {}) {
+  const { levels, since = 0, limit = 100, frameId, clear = false } = args;
+  const tab = await getTab(args.tabId);
+  const buffer = consoleBuffers.get(tab.id) || { nextSeq: 1, entries: [] };
+
+  const unknown = (levels || []).filter(level => !CONSOLE_LEVELS.includes(level));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown console level ${unknown.join(', ')}. Use: ${CONSOLE_LEVELS.join(', ')}`);
+  }
+
+  const matching = buffer.entries.filter(entry =>
+    entry.seq > since &&
+    (!levels || levels.length === 0 || levels.includes(entry.level)) &&
+    (frameId === undefined || entry.frameId === frameId)
+  );
+  const entries = matching.slice(0, limit);
+  // Older entries than the buffer keeps were overwritten since that cursor
+  const dropped = buffer.entries.length > 0 && since > 0 && buffer.entries[0].seq > since + 1
+    ? buffer.entries[0].seq - since - 1
+    : 0;
+  const cursor = entries.length > 0 ? entries[entries.length - 1].seq : Math.max(since, buffer.nextSeq - 1);
+
+  if (clear) buffer.entries = buffer.entries.filter(entry => entry.seq > cursor);
+
+  const lines = entries.map(entry => {
+    const frame = entry.frameId ? ` [frame ${entry.frameId}]` : '';
+    const source = entry.source ? ` (${entry.source})` : '';
+    return `#${entry.seq} ${new Date(entry.time).toISOString()} ${entry.level.toUpperCase()}${source}${frame} ${entry.message}`;
+  });
+  const more = matching.length > entries.length ? `, ${matching.length - entries.length} more after cursor` : '';
+  const summary = `${entries.length} console entries${more}${dropped ? `, ${dropped} dropped from the buffer` : ''}. ` +
+    `Next cursor: ${cursor}${clear ? ' (cleared up to cursor)' : ''}`;
+
+  return {
+    content: [{ type: 'text', text: [...lines, summary].join('\n') }]
+  };
+}
+
+// Initialize. Once connected, the toolbar button starts and stops recording (recorder.js).
+browser.browserAction.onClicked.addListener((tab) => {
   if (connectionStatus !== 'connected') {
     connect();
+    console.log('[MCP] Status:', connectionStatus);
+    return;
+  }
+  toggleRecording(tab);
+});
+
+// Reconnect when the pairing secret or transport is changed from the preferences page
+browser.storage.onChanged.addListener((changes, area) => {
+  if (area === 'local' && (changes.pairingSecret || changes.profileName || changes.transport)) {
+    if (link) link.close();
+    else connect();
   }
-  console.log('[MCP] Status:', connectionStatus);
 });
 
 // Auto-connect on startup
@@ -0,0 +1,424 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Accessibility computations for the content script
+//
+// Roles follow HTML-AAM implicit semantics, names follow the Accessible Name
+// and Description Computation (accname 1.2) closely enough for agents to
+// recognise controls the way a screen reader would. Exposed to bridge.js as
+// globalThis.__claudeMcpAccessibility.
+
+if (!globalThis.__claudeMcpAccessibility) {
+  globalThis.__claudeMcpAccessibility = (() => {
+    // Roles whose name is computed from their content
+    const NAME_FROM_CONTENT = new Set([
+      'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link',
+      'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row',
+      'rowheader', 'sectionhead', 'switch', 'tab', 'tooltip', 'treeitem'
+    ]);
+
+    // Roles an agent can act on
+    const WIDGET_ROLES = new Set([
+      'button', 'checkbox', 'combobox', 'gridcell', 'link', 'listbox', 'menuitem',
+      'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'scrollbar', 'searchbox',
+      'slider', 'spinbutton', 'switch', 'tab', 'textbox', 'treeitem'
+    ]);
+
+    // Roles that carry no semantics of their own
+    const PRESENTATIONAL = new Set(['generic', 'none', 'presentation']);
+
+    const SIMPLE_ROLES = {
+      article: 'article', aside: 'complementary', blockquote: 'blockquote', button: 'button',
+      caption: 'caption', code: 'code', datalist: 'listbox', dd: 'definition', del: 'deletion',
+      details: 'group', dfn: 'term', dialog: 'dialog', dt: 'term', em: 'emphasis',
+      fieldset: 'group', figure: 'figure', hr: 'separator', iframe: 'iframe', ins: 'insertion',
+      li: 'listitem', main: 'main', math: 'math', menu: 'list', meter: 'meter', nav: 'navigation',
+      ol: 'list', optgroup: 'group', option: 'option', output: 'status', p: 'paragraph',
+      progress: 'progressbar', search: 'search', strong: 'strong', summary: 'button',
+      table: 'table', tbody: 'rowgroup', textarea: 'textbox', tfoot: 'rowgroup',
+      thead: 'rowgroup', time: 'time', tr: 'row', ul: 'list'
+    };
+
+    const INPUT_ROLES = {
+      button: 'button', checkbox: 'checkbox', color: 'button', image: 'button',
+      number: 'spinbutton', radio: 'radio', range: 'slider', reset: 'button',
+      search: 'searchbox', submit: 'button'
+    };
+
+    function tagOf(el) {
+      return el.localName;
+    }
+
+    // Elements from same-origin frames must use their own window's computed style
+    function styleOf(el, pseudo) {
+      return (el.ownerDocument.defaultView || globalThis).getComputedStyle(el, pseudo);
+    }
+
+    // matches() that tolerates selectors older Firefox versions don't know
+    function matchesSafe(el, selector) {
+      try {
+        return el.matches(selector);
+      } catch {
+        return false;
+      }
+    }
+
+    function isFocusable(el) {
+      if (el.disabled) return false;
+      if (el.tabIndex >= 0 && el.getAttribute('tabindex') !== null) return true;
+      if (el.isContentEditable) return true;
+      const tag = tagOf(el);
+      if ((tag === 'a' || tag === 'area') && el.hasAttribute('href')) return true;
+      return ['button', 'input', 'select', 'textarea', 'summary', 'iframe'].includes(tag) &&
+             el.type !== 'hidden';
+    }
+
+    // Nearest ancestor across shadow boundaries
+    function closestComposed(el, selector) {
+      let node = el;
+      while (node) {
+        if (node.nodeType === 1 && node.matches(selector)) return node;
+        node = node.parentElement || node.getRootNode()?.host || null;
+      }
+      return null;
+    }
+
+    // Sectioning content makes header/footer lose their landmark role
+    function inSectioningContent(el) {
+      const scope = el.parentElement &&
+        closestComposed(el.parentElement, 'article, aside, main, nav, section, [role=article], [role=complementary], [role=main], [role=navigation], [role=region]');
+      return !!scope;
+    }
+
+    function implicitRole(el) {
+      const tag = tagOf(el);
+
+      if (SIMPLE_ROLES[tag]) {
+        if (tag === 'summary' && !el.parentElement?.matches('details')) return 'generic';
+        return SIMPLE_ROLES[tag];
+      }
+
+      switch (tag) {
+        case 'a':
+        case 'area':
+          return el.hasAttribute('href') ? 'link' : 'generic';
+        case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+          return 'heading';
+        case 'header':
+          return inSectioningContent(el) ? 'generic' : 'banner';
+        case 'footer':
+          return inSectioningContent(el) ? 'generic' : 'contentinfo';
+        case 'section':
+          return hasExplicitName(el) ? 'region' : 'generic';
+        case 'form':
+          return hasExplicitName(el) ? 'form' : 'generic';
+        case 'img':
+          return el.getAttribute('alt') === '' && !el.hasAttribute('title') ? 'presentation' : 'img';
+        case 'svg':
+          return 'graphics-document';
+        case 'select':
+          return el.multiple || el.size > 1 ? 'listbox' : 'combobox';
+        case 'td': {
+          const table = el.closest('table');
+          return table?.getAttribute('role') === 'grid' ? 'gridcell' : 'cell';
+        }
+        case 'th': {
+          if (el.scope === 'row' || el.scope === 'rowgroup') return 'rowheader';
+          if (el.scope === 'col' || el.scope === 'colgroup') return 'columnheader';
+          // Without scope, a header cell at the start of a body row is a row header
+          const row = el.parentElement;
+          return row && row.parentElement?.localName === 'tbody' && row.cells[0] === el &&
+                 row.cells.length > 1 && row.cells[1].localName === 'td'
+            ? 'rowheader' : 'columnheader';
+        }
+        case 'input': {
+          const type = (el.type || 'text').toLowerCase();
+          if (type === 'hidden') return 'none';
+          if (INPUT_ROLES[type]) return INPUT_ROLES[type];
+          return el.hasAttribute('list') ? 'combobox' : 'textbox';
+        }
+        default:
+          return el.isContentEditable && !el.parentElement?.isContentEditable ? 'textbox' : 'generic';
+      }
+    }
+
+    function getRole(el) {
+      const explicit = (el.getAttribute('role') || '').trim().split(/\s+/)[0];
+      if (explicit) {
+        // Focusable elements can't be made presentational (ARIA presentational role conflict)
+        if ((explicit === 'none' || explicit === 'presentation') && isFocusable(el)) {
+          return implicitRole(el);
+        }
+        return explicit;
+      }
+      return implicitRole(el);
+    }
+
+    function hasExplicitName(el) {
+      return !!(el.getAttribute('aria-label')?.trim() || el.getAttribute('aria-labelledby')?.trim() ||
+                el.getAttribute('title')?.trim());
+    }
+
+    // Excluded from the accessibility tree (the whole subtree)
+    function isHidden(el) {
+      if (el.getAttribute('aria-hidden') === 'true') return true;
+      const style = styleOf(el);
+      if (style.display === 'none') return true;
+      if (typeof el.checkVisibility === 'function' && style.display !== 'contents') {
+        return !el.checkVisibility();
+      }
+      return false;
+    }
+
+    // Hidden itself, but descendants may be visible again (visibility: visible)
+    function isInvisible(el) {
+      return styleOf(el).visibility === 'hidden';
+    }
+
+    function normalize(text) {
+      return (text || '').replace(/\s+/g, ' ').trim();
+    }
+
+    // Composed-tree children: shadow roots and slot assignments, as rendered
+    function composedChildren(node) {
+      if (node.nodeType === 1 && node.shadowRoot) return [...node.shadowRoot.childNodes];
+      if (node.nodeType === 1 && node.localName === 'slot') {
+        const assigned = node.assignedNodes({ flatten: true });
+        return assigned.length > 0 ? assigned : [...node.childNodes];
+      }
+      return [...node.childNodes];
+    }
+
+    function cssContent(el, pseudo) {
+      const content = styleOf(el, pseudo).content;
+      if (!content || content === 'none' || content === 'normal') return '';
+      const match = content.match(/^"(.*)"$/);
+      return match ? match[1] : '';
+    }
+
+    // Value of an embedded control when it is part of another element's name
+    function embeddedValue(el, role) {
+      if (role === 'textbox' || role === 'searchbox') return el.value ?? el.textContent;
+      if (role === 'combobox' || role === 'listbox') {
+        if (el.localName === 'select') return [...el.selectedOptions].map((o) => o.text).join(' ');
+        return el.value ?? '';
+      }
+      if (role === 'slider' || role === 'spinbutton' || role === 'progressbar') {
+        return el.getAttribute('aria-valuetext') || el.getAttribute('aria-valuenow') || el.value || '';
+      }
+      return null;
+    }
+
+    // Name from native host-language features (labels, alt, legend, caption...)
+    function nativeName(el, context) {
+      const tag = tagOf(el);
+
+      if (['input', 'select', 'textarea', 'meter', 'output', 'progress'].includes(tag)) {
+        const type = (el.type || '').toLowerCase();
+        if (tag === 'input' && ['button', 'submit', 'reset'].includes(type)) {
+          return el.value || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : '');
+        }
+        if (tag === 'input' && type === 'image') {
+          return el.alt || el.value || 'Submit';
+        }
+        if (el.labels && el.labels.length > 0) {
+          return [...el.labels]
+            .map((label) => textAlternative(label, { ...context, inLabel: el }))
+            .join(' ');
+        }
+        return '';
+      }
+
+      if (tag === 'img' || tag === 'area') return el.getAttribute('alt') || '';
+      if (tag === 'fieldset') {
+        const legend = [...el.children].find((c) => c.localName === 'legend');
+        return legend ? textAlternative(legend, context) : '';
+      }
+      if (tag === 'figure') {
+        const caption = [...el.children].find((c) => c.localName === 'figcaption');
+        return caption ? textAlternative(caption, context) : '';
+      }
+      if (tag === 'table') return el.caption ? textAlternative(el.caption, context) : '';
+      if (tag === 'svg') {
+        const title = [...el.children].find((c) => c.localName === 'title');
+        return title ? normalize(title.textContent) : '';
+      }
+      if (tag === 'iframe') return el.getAttribute('title') || '';
+      return '';
+    }
+
+    function nameFromContent(el, context) {
+      const parts = [cssContent(el, '::before')];
+      for (const child of composedChildren(el)) {
+        if (child.nodeType === 3) {
+          parts.push(child.textContent);
+        } else if (child.nodeType === 1) {
+          const text = textAlternative(child, { ...context, recursing: true });
+          // Block-level children are separated by whitespace
+          const display = styleOf(child).display;
+          parts.push(display.startsWith('inline') ? text : ` ${text} `);
+        }
+      }
+      parts.push(cssContent(el, '::after'));
+      return parts.join('');
+    }
+
+    // accname 1.2, steps 2A-2I
+    function textAlternative(el, context = {}) {
+      const visited = context.visited || new Set();
+      if (visited.has(el)) return '';
+      visited.add(el);
+      context = { ...context, visited };
+
+      // 2A: hidden nodes contribute nothing unless referenced directly
+      if (!context.referenced && (isHidden(el) || (context.recursing && isInvisible(el)))) return '';
+
+      // 2B: aria-labelledby, not followed recursively
+      const labelledBy = el.getAttribute('aria-labelledby');
+      if (labelledBy && !context.inLabelledBy) {
+        const root = el.getRootNode();
+        const text = labelledBy.trim().split(/\s+/)
+          .map((id) => root.getElementById ? root.getElementById(id) : document.getElementById(id))
+          .filter(Boolean)
+          .map((ref) => textAlternative(ref, { visited, inLabelledBy: true, referenced: true }))
+          .join(' ');
+        if (normalize(text)) return normalize(text);
+      }
+
+      const role = getRole(el);
+
+      // 2C: embedded control inside a label or another name computation
+      if ((context.recursing || context.inLabel) && el !== context.inLabel) {
+        const value = embeddedValue(el, role);
+        if (value !== null) return normalize(value);
+      }
+
+      // 2D: aria-label
+      const ariaLabel = el.getAttribute('aria-label');
+      if (ariaLabel && ariaLabel.trim()) return normalize(ariaLabel);
+
+      // 2E: native label features, unless presentational
+      if (!PRESENTATIONAL.has(role) || tagOf(el) === 'img') {
+        const native = normalize(nativeName(el, context));
+        if (native) return native;
+      }
+
+      // 2F: name from content
+      if (NAME_FROM_CONTENT.has(role) || context.recursing || context.inLabelledBy || context.inLabel) {
+        const content = normalize(nameFromContent(el, context));
+        if (content) return content;
+      }
+
+      // 2I: tooltip attribute, then placeholder as a last resort for text fields
+      const title = el.getAttribute('title');
+      if (title && title.trim()) return normalize(title);
+      if (!context.recursing && el.placeholder) return normalize(el.placeholder);
+      return '';
+    }
+
+    function getName(el) {
+      return textAlternative(el).slice(0, 200);
+    }
+
+    function ariaBool(el, attr) {
+      const value = el.getAttribute(attr);
+      if (value === null || value === 'undefined') return undefined;
+      if (value === 'mixed') return 'mixed';
+      return value === 'true';
+    }
+
+    // ARIA states and properties, with native equivalents taking part
+    function getStates(el, role) {
+      const states = {};
+      const tag = tagOf(el);
+
+      // checked
+      if (tag === 'input' && (el.type === 'checkbox' || el.type === 'radio')) {
+        states.checked = el.indeterminate ? 'mixed' : el.checked;
+      } else if (['checkbox', 'radio', 'switch', 'menuitemcheckbox', 'menuitemradio'].includes(role)) {
+        states.checked = ariaBool(el, 'aria-checked') ?? false;
+      }
+
+      // expanded
+      const expanded = ariaBool(el, 'aria-expanded');
+      if (expanded !== undefined) {
+        states.expanded = expanded;
+      } else if (tag === 'summary' && el.parentElement?.localName === 'details') {
+        states.expanded = el.parentElement.open;
+      } else if (tag === 'select' && role === 'combobox') {
+        states.expanded = false;
+      }
+
+      // disabled (native disabled also comes from a disabled fieldset)
+      if (el.disabled || ariaBool(el, 'aria-disabled') === true || matchesSafe(el, ':disabled')) {
+        states.disabled = true;
+      }
+
+      // selected
+      if (tag === 'option') {
+        states.selected = el.selected;
+      } else {
+        const selected = ariaBool(el, 'aria-selected');
+        if (selected !== undefined) states.selected = selected;
+      }
+
+      const pressed = ariaBool(el, 'aria-pressed');
+      if (pressed !== undefined) states.pressed = pressed;
+
+      if (el.required || ariaBool(el, 'aria-required') === true) states.required = true;
+      if (el.readOnly || ariaBool(el, 'aria-readonly') === true) states.readonly = true;
+
+      const invalid = el.getAttribute('aria-invalid');
+      if (invalid && invalid !== 'false') states.invalid = true;
+
+      if (el.getAttribute('aria-haspopup') && el.getAttribute('aria-haspopup') !== 'false') {
+        states.haspopup = el.getAttribute('aria-haspopup');
+      }
+      if (ariaBool(el, 'aria-multiselectable') === true || (tag === 'select' && el.multiple)) {
+        states.multiselectable = true;
+      }
+      if (el.getAttribute('aria-current') && el.getAttribute('aria-current') !== 'false') {
+        states.current = el.getAttribute('aria-current');
+      }
+      if (ariaBool(el, 'aria-busy') === true) states.busy = true;
+      if (ariaBool(el, 'aria-modal') === true || (tag === 'dialog' && matchesSafe(el, ':modal'))) {
+        states.modal = true;
+      }
+      if (document.activeElement === el || el.getRootNode().activeElement === el) {
+        states.focused = true;
+      }
+
+      // heading level
+      if (role === 'heading') {
+        const level = parseInt(el.getAttribute('aria-level') || '', 10);
+        states.level = level || (/^h[1-6]$/.test(tag) ? Number(tag[1]) : 2);
+      }
+
+      // current value of controls
+      if (['textbox', 'searchbox', 'combobox', 'spinbutton', 'slider'].includes(role) ||
+          ['progressbar', 'meter', 'scrollbar'].includes(role)) {
+        const value = el.getAttribute('aria-valuetext') ?? el.getAttribute('aria-valuenow') ??
+          (tag === 'select' ? [...el.selectedOptions].map((o) => o.text).join(', ') : null) ??
+          (el.value !== undefined ? String(el.value) : el.isContentEditable ? el.textContent : null);
+        if (value) states.value = el.type === 'password' ? '••••' : value.slice(0, 200);
+      }
+
+      return states;
+    }
+
+    function isInteractive(el, role) {
+      return WIDGET_ROLES.has(role) || isFocusable(el) || el.hasAttribute('onclick');
+    }
+
+    return {
+      NAME_FROM_CONTENT,
+      PRESENTATIONAL,
+      composedChildren,
+      getRole,
+      getName,
+      getStates,
+      isHidden,
+      isInvisible,
+      isInteractive,
+      normalize
+    };
+  })();
+}
@@ -5,40 +5,518 @@
 // This content script provides a bridge for the background script
 // to execute code in the page context when needed
 
-// Listen for messages from background script
-browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  if (message.type === 'EXECUTE_IN_PAGE') {
-    try {
-      // Execute the code in page context
-      const result = eval(message.code);
-      sendResponse({ success: true, result });
-    } catch (error) {
-      sendResponse({ success: false, error: error.message });
-    }
-    return true; // Async response
-  }
-
-  if (message.type === 'GET_ELEMENT_AT') {
-    const { x, y } = message;
-    const el = document.elementFromPoint(x, y);
-    if (el) {
-      sendResponse({
-        success: true,
-        element: {
-          tag: el.tagName.toLowerCase(),
-          id: el.id,
-          className: el.className,
-          text: el.textContent?.slice(0, 100)
+// The background script re-injects this file into tabs that were open before the
+// extension loaded; keep the first copy's state (and its refs) in that case
+(() => {
+  if (globalThis.__claudeMcpBridge) return;
+  globalThis.__claudeMcpBridge = true;
+
+  // Element references handed out to the agent (ref_N -> WeakRef<Element>).
+  // They live as long as this document, so refs from one read_page stay usable
+  // by later click/type/form_input/scroll calls.
+  const refs = {
+    nextId: 1,
+    byId: new Map(),
+    byElement: new WeakMap()
+  };
+
+  function refFor(el) {
+    let ref = refs.byElement.get(el);
+    if (!ref) {
+      ref = 'ref_' + (refs.nextId++);
+      refs.byElement.set(el, ref);
+      refs.byId.set(ref, new WeakRef(el));
+    }
+    return ref;
+  }
+
+  function resolveRef(ref) {
+    const weak = refs.byId.get(ref);
+    if (!weak) {
+      throw new Error(`Unknown element ref ${ref} - call read_page to get current refs`);
+    }
+    const el = weak.deref();
+    if (!el || !el.isConnected) {
+      refs.byId.delete(ref);
+      throw new Error(`Element ${ref} is detached from the document - call read_page to get fresh refs`);
+    }
+    return el;
+  }
+
+  // Drop entries whose elements have been garbage collected
+  function pruneRefs() {
+    for (const [ref, weak] of refs.byId) {
+      if (!weak.deref()) refs.byId.delete(ref);
+    }
+  }
+
+  // Find the element a tool call targets: ref, then locator, then selector, then coordinate
+  function resolveTarget({ ref, locator, selector, coordinate }) {
+    if (ref) return resolveRef(ref);
+
+    if (locator) return globalThis.__claudeMcpLocator.resolveLocator(locator);
+
+    if (selector) {
+      const [el] = globalThis.__claudeMcpLocator.querySelectorAll(selector);
+      if (!el) throw new Error(`No element matches selector ${selector}`);
+      return el;
+    }
+
+    if (coordinate) {
+      const el = document.elementFromPoint(coordinate[0], coordinate[1]);
+      if (!el) throw new Error(`No element at [${coordinate[0]}, ${coordinate[1]}]`);
+      return el;
+    }
+
+    return null;
+  }
+
+  function describe(el) {
+    const ref = refFor(el);
+    return `${el.tagName} (${ref})`;
+  }
+
+  // Scroll an element into view if needed and return its center point
+  function centerOf(el) {
+    let rect = el.getBoundingClientRect();
+    const inView = rect.top >= 0 && rect.left >= 0 &&
+                   rect.bottom <= globalThis.innerHeight && rect.right <= globalThis.innerWidth;
+    if (!inView) {
+      el.scrollIntoView({ block: 'center', inline: 'center' });
+      rect = el.getBoundingClientRect();
+    }
+    return [Math.round(rect.left + rect.width / 2), Math.round(rect.top + rect.height / 2)];
+  }
+
+  // Read page - build accessibility tree
+  // Walks the composed tree (open shadow roots, slots, same-origin frames).
+  // Nodes without semantics of their own are skipped and their children lifted.
+  function readPage({ depth = 15, filter = 'all', format = 'json' }) {
+    pruneRefs();
+    const a11y = globalThis.__claudeMcpAccessibility;
+    const interactiveOnly = filter === 'interactive';
+    const SKIPPED_TAGS = ['script', 'style', 'noscript', 'template', 'head', 'link', 'meta'];
+
+    function walkChildren(parent, level, includeText) {
+      const nodes = [];
+      for (const child of a11y.composedChildren(parent)) {
+        for (const node of walk(child, level)) {
+          if (includeText || node.role !== 'text') nodes.push(node);
+        }
+      }
+      return nodes;
+    }
+
+    function walk(domNode, level) {
+      if (domNode.nodeType === 3) {
+        if (interactiveOnly) return [];
+        const text = a11y.normalize(domNode.textContent);
+        return text ? [{ role: 'text', name: text.slice(0, 200) }] : [];
+      }
+      if (domNode.nodeType !== 1) return [];
+
+      const el = domNode;
+      if (SKIPPED_TAGS.includes(el.localName) || a11y.isHidden(el)) return [];
+
+      const role = a11y.getRole(el);
+      const invisible = a11y.isInvisible(el);
+      const interactive = !invisible && a11y.isInteractive(el, role);
+      const name = invisible ? '' : a11y.getName(el);
+      const isFrame = el.localName === 'iframe' || el.localName === 'frame';
+
+      const ignored = invisible ||
+        (interactiveOnly ? !interactive && !isFrame : a11y.PRESENTATIONAL.has(role) && !interactive && !name);
+      if (ignored) return walkChildren(el, level, true);
+      if (level > depth) return [];
+
+      const node = { ref: refFor(el), role, tag: el.localName };
+      if (name) node.name = name;
+      Object.assign(node, a11y.getStates(el, role));
+
+      const rect = el.getBoundingClientRect();
+      if (rect.width > 0 && rect.height > 0) {
+        node.bounds = [
+          Math.round(rect.left),
+          Math.round(rect.top),
+          Math.round(rect.right),
+          Math.round(rect.bottom)
+        ];
+      }
+
+      // Add href for links
+      if (role === 'link' && el.href) node.href = el.href;
+
+      // Add type for inputs
+      if (el.localName === 'input') node.inputType = el.type;
+
+      let children;
+      if (isFrame) {
+        // contentDocument is null for cross-origin frames
+        let frameDoc = null;
+        try {
+          frameDoc = el.contentDocument;
+        } catch {
+          frameDoc = null;
+        }
+        if (frameDoc?.body) {
+          children = walkChildren(frameDoc.body, level + 1, true);
+        } else {
+          node.frame = 'cross-origin';
         }
-      });
+      } else {
+        // Text inside a control is already its name
+        children = walkChildren(el, level + 1, !(name && a11y.NAME_FROM_CONTENT.has(role)));
+      }
+      if (children && children.length > 0) node.children = children;
+
+      return [node];
+    }
+
+    const root = {
+      ref: refFor(document.body),
+      role: 'document',
+      name: document.title,
+      url: location.href
+    };
+    const children = walkChildren(document.body, 1, true);
+    if (children.length > 0) root.children = children;
+
+    return format === 'text' ? serializeTree(root) : JSON.stringify(root, null, 2);
+  }
+
+  // Compact one-line-per-node serialization of a read_page tree
+  function serializeTree(root) {
+    const SKIP = new Set(['ref', 'role', 'name', 'bounds', 'children', 'tag', 'inputType']);
+    const lines = [];
+
+    function visit(node, indent) {
+      let line = `${'  '.repeat(indent)}- ${node.role}`;
+      if (node.name) line += ` ${JSON.stringify(node.name)}`;
+      if (node.ref) line += ` [ref=${node.ref}]`;
+      for (const [key, value] of Object.entries(node)) {
+        if (SKIP.has(key)) continue;
+        if (value === true) line += ` [${key}]`;
+        else line += ` [${key}=${typeof value === 'string' ? JSON.stringify(value) : value}]`;
+      }
+      lines.push(line);
+      for (const child of node.children || []) visit(child, indent + 1);
+    }
+
+    visit(root, 0);
+    return lines.join('\n');
+  }
+
+  // Resolve a pointer target to an element and the viewport point to act on
+  function pointerTarget({ ref, locator, selector, coordinate }) {
+    if (ref || locator || selector) {
+      const el = resolveTarget({ ref, locator, selector });
+      return { el, point: centerOf(el) };
+    }
+    if (!coordinate) throw new Error('ref, locator or coordinate is required');
+    const el = resolveTarget({ coordinate });
+    return { el, point: [coordinate[0], coordinate[1]] };
+  }
+
+  // Click (clickCount 2 for double_click)
+  function click({ ref, locator, coordinate, button = 'left', modifiers = [], clickCount = 1 }) {
+    const { el, point } = pointerTarget({ ref, locator, coordinate });
+    globalThis.__claudeMcpInput.click(el, point[0], point[1], { button, clickCount, modifiers });
+    const what = clickCount === 2 ? 'Double-clicked' : button === 'left' ? 'Clicked' : `${button}-clicked`;
+    return `${what} ${describe(el)} at [${point[0]}, ${point[1]}]`;
+  }
+
+  function hover({ ref, locator, coordinate }) {
+    const { el, point } = pointerTarget({ ref, locator, coordinate });
+    globalThis.__claudeMcpInput.hover(el, point[0], point[1]);
+    return `Hovering ${describe(el)} at [${point[0]}, ${point[1]}]`;
+  }
+
+  async function drag({ ref, coordinate, targetRef, targetCoordinate, steps }) {
+    const source = pointerTarget({ ref, coordinate });
+    const target = pointerTarget({ ref: targetRef, coordinate: targetCoordinate });
+    const kind = await globalThis.__claudeMcpInput.drag(source.el, source.point, target.el, target.point, { steps });
+    return `Dragged ${describe(source.el)} to ${describe(target.el)} (${kind} drag)`;
+  }
+
+  // Focus the target (if any) the way a click would, and return the element that has focus
+  function focusTarget({ ref, locator, coordinate }) {
+    const target = resolveTarget({ ref, locator, coordinate });
+    if (target) {
+      const [x, y] = centerOf(target);
+      globalThis.__claudeMcpInput.click(target, x, y);
+      if (document.activeElement !== target) target.focus();
+    }
+    return target || document.activeElement || document.body;
+  }
+
+  // Type text one keystroke at a time
+  async function type({ text, ref, locator, coordinate, clear = false, delay = 0 }) {
+    const el = focusTarget({ ref, locator, coordinate });
+    const editable = el.isContentEditable || el.localName === 'textarea' ||
+                     (el.localName === 'input' && el.value !== undefined);
+    if (!editable) throw new Error(`${describe(el)} is not an editable element`);
+
+    // Append to existing content rather than wherever focusing left the caret
+    if ((ref || locator || coordinate) && !clear && el.value !== undefined) {
+      try {
+        el.setSelectionRange(el.value.length, el.value.length);
+      } catch {
+        // Input types without a selection API
+      }
+    }
+
+    await globalThis.__claudeMcpInput.typeText(el, text, { clear, delay });
+    return 'Typed into ' + describe(el);
+  }
+
+  async function keyPress({ keys, ref, locator, coordinate, repeat = 1 }) {
+    const el = focusTarget({ ref, locator, coordinate });
+    await globalThis.__claudeMcpInput.keyPress(el, keys, { repeat });
+    return `Pressed ${keys}${repeat > 1 ? ` x${repeat}` : ''} on ${describe(el)}`;
+  }
+
+  // What acting on a target would do, for the host's policy and session log.
+  // submitsForm: a click, Enter press or typed newline would submit a form.
+  // sensitive: the element takes a password or similar secret.
+  // Only looks: nothing is focused or clicked.
+  function targetInfo({ tool, ref, locator, selector, coordinate, keys = '', text = '' }) {
+    const target = resolveTarget({ ref, locator, selector, coordinate });
+    // key_press and type act on the target, or on the focused element without one
+    const el = target || (tool === 'click' || tool === 'double_click' ? null : document.activeElement);
+    const sensitive = !!el && (el.type === 'password' ||
+      /^(cc-|one-time-code|current-password|new-password)/.test(el.getAttribute?.('autocomplete') || ''));
+
+    let submitsForm = false;
+    if (tool === 'click' || tool === 'double_click') {
+      const control = el?.closest('button, input[type="submit"], input[type="image"]');
+      submitsForm = !!control?.form && (control.localName === 'input' || control.type === 'submit');
     } else {
-      sendResponse({ success: false, error: 'No element at coordinates' });
+      const pressesEnter = tool === 'key_press' ? /(^|[\s+])(enter|return)(?=$|\s)/i.test(keys) : text.includes('\n');
+      submitsForm = pressesEnter && !!el?.form &&
+        (el.localName === 'input' || (el.localName === 'button' && el.type === 'submit'));
     }
-    return true;
+    return { submitsForm, sensitive };
   }
-});
 
-// Notify background that content script is ready
-browser.runtime.sendMessage({ type: 'CONTENT_SCRIPT_READY' }).catch(() => {
-  // Background might not be listening, that's ok
-});
+  // Screen position of a target, for hosts driving an OS-level input backend
+  function locate({ ref, locator, selector, coordinate, focus = false }) {
+    const { el, point } = pointerTarget({ ref, locator, selector, coordinate });
+    if (focus && typeof el.focus === 'function') el.focus();
+    const scale = globalThis.devicePixelRatio || 1;
+    return {
+      element: describe(el),
+      client: point,
+      screen: [
+        Math.round((globalThis.mozInnerScreenX + point[0]) * scale),
+        Math.round((globalThis.mozInnerScreenY + point[1]) * scale)
+      ],
+      devicePixelRatio: scale
+    };
+  }
+
+  // Viewport and document size for screenshots; with a target, its box in page coordinates
+  function geometry({ ref, selector }) {
+    const root = document.documentElement;
+    const result = {
+      scrollX: globalThis.scrollX,
+      scrollY: globalThis.scrollY,
+      viewportWidth: globalThis.innerWidth,
+      viewportHeight: globalThis.innerHeight,
+      pageWidth: Math.max(root.scrollWidth, document.body ? document.body.scrollWidth : 0),
+      pageHeight: Math.max(root.scrollHeight, document.body ? document.body.scrollHeight : 0),
+      devicePixelRatio: globalThis.devicePixelRatio || 1
+    };
+
+    const el = resolveTarget({ ref, selector });
+    if (el) {
+      const rect = el.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) throw new Error(`${describe(el)} has no visible box`);
+      result.element = describe(el);
+      result.elementRect = {
+        x: rect.left + globalThis.scrollX,
+        y: rect.top + globalThis.scrollY,
+        width: rect.width,
+        height: rect.height
+      };
+    }
+    return result;
+  }
+
+  // localStorage/sessionStorage of this document's origin
+  function storage({ area = 'local', action, keys, items }) {
+    const store = area === 'session' ? globalThis.sessionStorage : globalThis.localStorage;
+    const origin = location.origin;
+
+    if (action === 'get') {
+      const names = keys || Array.from({ length: store.length }, (_, i) => store.key(i));
+      const result = {};
+      for (const name of names) {
+        const value = store.getItem(name);
+        if (value !== null) result[name] = value;
+      }
+      return { origin, items: result };
+    }
+
+    if (action === 'set') {
+      for (const [name, value] of Object.entries(items || {})) {
+        store.setItem(name, typeof value === 'string' ? value : JSON.stringify(value));
+      }
+      return { origin };
+    }
+
+    if (action === 'clear') {
+      const removed = keys ? keys.filter(name => store.getItem(name) !== null).length : store.length;
+      if (keys) keys.forEach(name => store.removeItem(name));
+      else store.clear();
+      return { origin, removed };
+    }
+
+    throw new Error(`Unknown storage action ${action}`);
+  }
+
+  // Scroll the page, an element, or bring a ref into view
+  function scroll({ direction, amount = 300, coordinate, ref }) {
+    const target = resolveTarget({ ref, coordinate });
+
+    if (!direction) {
+      if (!target) throw new Error('direction is required unless ref is given');
+      target.scrollIntoView({ block: 'center', inline: 'center' });
+      return `Scrolled ${describe(target)} into view`;
+    }
+
+    const dx = direction === 'left' ? -amount : direction === 'right' ? amount : 0;
+    const dy = direction === 'up' ? -amount : direction === 'down' ? amount : 0;
+    (target || globalThis).scrollBy(dx, dy);
+    return `Scrolled ${direction} by ${amount}px`;
+  }
+
+  // Ranked matches for a find query (content/find.js), each with a ref for
+  // follow-up calls. Bounds are in this frame's viewport.
+  function find({ query, limit = 20 }) {
+    const a11y = globalThis.__claudeMcpAccessibility;
+    return globalThis.__claudeMcpFind.find(query, limit).map(({ el, exact, kind, visible, inViewport, rect }) => ({
+      ref: refFor(el),
+      role: a11y.getRole(el),
+      name: a11y.normalize(a11y.getName(el)).slice(0, 80),
+      tag: el.localName,
+      text: a11y.normalize(el.textContent || '').slice(0, 80),
+      selector: globalThis.__claudeMcpLocator.cssFor(el),
+      match: kind,
+      exact,
+      visible,
+      inViewport,
+      bounds: [Math.round(rect.left), Math.round(rect.top), Math.round(rect.right), Math.round(rect.bottom)]
+    }));
+  }
+
+  // Files from the host ({ name, type, data: base64 }) into a file input or onto a
+  // drop zone. A label or wrapper around a file input gives the files to that input.
+  function uploadFiles({ files, ref, locator, selector, coordinate }) {
+    let el = resolveTarget({ ref, locator, selector, coordinate });
+    if (!el) {
+      const inputs = globalThis.__claudeMcpLocator.querySelectorAll('input[type="file"]');
+      if (inputs.length !== 1) {
+        throw new Error(`The page has ${inputs.length} file inputs - pass ref, locator or selector to pick one`);
+      }
+      el = inputs[0];
+    }
+    if (!(el.localName === 'input' && el.type === 'file')) {
+      el = el.control?.type === 'file' ? el.control : el.querySelector('input[type="file"]') || el;
+    }
+
+    const decoded = files.map(({ name, type, data }) => {
+      const bytes = Uint8Array.from(atob(data), ch => ch.charCodeAt(0));
+      return new File([bytes], name, { type });
+    });
+    const [x, y] = centerOf(el);
+    const how = globalThis.__claudeMcpInput.dropFiles(el, decoded, x, y);
+    const names = decoded.map(file => `${file.name} (${file.size} bytes)`).join(', ');
+    return how === 'input' ? `Set ${describe(el)} to ${names}` : `Dropped ${names} on ${describe(el)}`;
+  }
+
+  // Form input
+  function formInput({ selector, ref, locator, value }) {
+    const el = resolveTarget({ ref, locator, selector });
+    if (!el) throw new Error('selector, ref or locator is required');
+
+    if (el.type === 'checkbox' || el.type === 'radio') {
+      // Clicking keeps framework state in sync where setting .checked would not
+      if (el.checked !== !!value) el.click();
+    } else {
+      globalThis.__claudeMcpInput.setNativeValue(el, value);
+    }
+
+    el.dispatchEvent(new Event('input', { bubbles: true }));
+    el.dispatchEvent(new Event('change', { bubbles: true }));
+    return `Set ${describe(el)} to ${value}`;
+  }
+
+  const handlers = {
+    READ_PAGE: readPage,
+    CLICK: click,
+    HOVER: hover,
+    DRAG: drag,
+    TYPE: type,
+    KEY_PRESS: keyPress,
+    LOCATE: locate,
+    TARGET_INFO: targetInfo,
+    FIND: find,
+    UPLOAD_FILES: uploadFiles,
+    PAGE_CONTENT: ({ format = 'markdown' }) => globalThis.__claudeMcpExtract.extract(format),
+    SCROLL: scroll,
+    FORM_INPUT: formInput,
+    WAIT_FOR: (args) => globalThis.__claudeMcpWait.waitForPage(args),
+    GEOMETRY: geometry,
+    STORAGE: storage
+  };
+
+  // Listen for messages from background script
+  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (message.type === 'EXECUTE_IN_PAGE') {
+      try {
+        // Execute the code in page context
+        const result = eval(message.code);
+        sendResponse({ success: true, result });
+      } catch (error) {
+        sendResponse({ success: false, error: error.message });
+      }
+      return true; // Async response
+    }
+
+    if (message.type === 'GET_ELEMENT_AT') {
+      const { x, y } = message;
+      const el = document.elementFromPoint(x, y);
+      if (el) {
+        sendResponse({
+          success: true,
+          element: {
+            tag: el.tagName.toLowerCase(),
+            id: el.id,
+            className: el.className,
+            text: el.textContent?.slice(0, 100),
+            ref: refFor(el)
+          }
+        });
+      } else {
+        sendResponse({ success: false, error: 'No element at coordinates' });
+      }
+      return true;
+    }
+
+    const handler = handlers[message.type];
+    if (handler) {
+      Promise.resolve()
+        .then(() => handler(message.args || {}))
+        .then(
+          (result) => sendResponse({ success: true, result }),
+          (error) => sendResponse({ success: false, error: error.message })
+        );
+      return true;
+    }
+  });
+
+  // Notify background that content script is ready
+  browser.runtime.sendMessage({ type: 'CONTENT_SCRIPT_READY' }).catch(() => {
+    // Background might not be listening, that's ok
+  });
+})();
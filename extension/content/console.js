@@ -0,0 +1,124 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Console and error capture for the content script
+//
+// Wraps the page's console methods (through wrappedJSObject/exportFunction, so the
+// page keeps its normal console output) and listens for uncaught errors and
+// unhandled promise rejections. Entries are batched to the background script,
+// which keeps a ring buffer per tab for console_read. Runs at document_start so
+// early page logs are not missed.
+
+(() => {
+  if (globalThis.__claudeMcpConsole) return;
+  globalThis.__claudeMcpConsole = true;
+
+  const LEVELS = ['debug', 'log', 'info', 'warn', 'error'];
+  const MAX_MESSAGE_LENGTH = 2000;
+  const MAX_PENDING = 500;
+  const FLUSH_DELAY_MS = 100;
+
+  let pending = [];
+  let flushTimer = null;
+
+  function flush() {
+    flushTimer = null;
+    if (pending.length === 0) return;
+    const entries = pending;
+    pending = [];
+    browser.runtime.sendMessage({ type: 'CONSOLE_ENTRIES', entries }).catch(() => {
+      // Background might not be listening, that's ok
+    });
+  }
+
+  function record(level, message, extra = {}) {
+    if (pending.length >= MAX_PENDING) pending.shift();
+    pending.push({
+      level,
+      message: message.length > MAX_MESSAGE_LENGTH ? message.slice(0, MAX_MESSAGE_LENGTH) + '...' : message,
+      url: location.href,
+      time: Date.now(),
+      ...extra
+    });
+    if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+  }
+
+  // Page values arrive as Xray wrappers; read them through the page's own view
+  function formatValue(value) {
+    try {
+      if (value === undefined) return 'undefined';
+      if (value === null || typeof value !== 'object' && typeof value !== 'function') return String(value);
+      const raw = value.wrappedJSObject || value;
+      if (typeof raw.stack === 'string' && typeof raw.message === 'string') {
+        return raw.stack ? `${raw.name}: ${raw.message}\n${raw.stack}` : `${raw.name}: ${raw.message}`;
+      }
+      if (typeof value === 'function') return `function ${raw.name || '(anonymous)'}`;
+      if (raw.nodeType === 1) return `<${raw.tagName.toLowerCase()}${raw.id ? '#' + raw.id : ''}>`;
+      // deno-lint-ignore no-window -- the page's own objects are only reachable through the window's Xray
+      return window.wrappedJSObject.JSON.stringify(raw) ?? String(raw);
+    } catch {
+      try {
+        return String(value);
+      } catch {
+        return '[unserializable]';
+      }
+    }
+  }
+
+  // console.log('%s items', 3) style substitutions
+  function formatArgs(args) {
+    const values = Array.from(args);
+    if (typeof values[0] === 'string' && /%[sdifoOc]/.test(values[0])) {
+      let rest = values.slice(1);
+      const head = values[0].replace(/%([sdifoOc])/g, (match, type) => {
+        if (rest.length === 0) return match;
+        const value = rest[0];
+        rest = rest.slice(1);
+        if (type === 'c') return '';
+        if (type === 'd' || type === 'i') return String(parseInt(value, 10));
+        if (type === 'f') return String(parseFloat(value));
+        return formatValue(value);
+      });
+      return [head, ...rest.map(formatValue)].join(' ');
+    }
+    return values.map(formatValue).join(' ');
+  }
+
+  // deno-lint-ignore no-window -- the page's own objects are only reachable through the window's Xray
+  const pageConsole = window.wrappedJSObject && window.wrappedJSObject.console;
+  if (pageConsole && typeof exportFunction === 'function') {
+    for (const level of LEVELS) {
+      const original = pageConsole[level];
+      if (typeof original !== 'function') continue;
+      exportFunction(function (...args) {
+        try {
+          record(level, formatArgs(args));
+        } catch {
+          // Never break the page's logging
+        }
+        return original.apply(this, args);
+      }, pageConsole, { defineAs: level });
+    }
+  }
+
+  globalThis.addEventListener('error', (event) => {
+    // Resource load failures don't bubble to window; these are script errors
+    const where = event.filename ? ` (${event.filename}:${event.lineno}:${event.colno})` : '';
+    const stack = event.error ? formatValue(event.error) : '';
+    record('error', stack || `${event.message}${where}`, {
+      source: 'uncaught',
+      location: event.filename ? { url: event.filename, line: event.lineno, column: event.colno } : undefined
+    });
+  });
+
+  globalThis.addEventListener('unhandledrejection', (event) => {
+    let reason;
+    try {
+      reason = formatValue(event.reason);
+    } catch {
+      reason = 'unknown reason';
+    }
+    record('error', `Unhandled promise rejection: ${reason}`, { source: 'unhandledrejection' });
+  });
+
+  // Don't lose the last batch when the page goes away
+  globalThis.addEventListener('pagehide', flush);
+})();
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Page dialog interception for the content script
+//
+// Replaces the page's alert(), confirm() and prompt() (through
+// wrappedJSObject/exportFunction, like content/console.js) so that a dialog no
+// longer blocks the tab. The answer comes from the background script
+// (dialogs.js): one armed with dialog_handle for the tab's next dialog, or else
+// the session default. "accept" and "dismiss" answer in the page without
+// showing anything; "ask" shows Firefox's dialog as before, for the person at
+// the browser. Either way the dialog is reported to the background script.
+//
+// Under "accept" the page's beforeunload handlers are skipped, so leaving the
+// page does not ask "leave this page?". Otherwise Firefox asks as usual (and
+// only if the user has interacted with the page). Runs at document_start, so
+// the page never gets hold of the native functions and our beforeunload
+// listener runs before the page's.
+
+(() => {
+  if (globalThis.__claudeMcpDialog) return;
+  globalThis.__claudeMcpDialog = true;
+
+  const DIALOG_TYPES = ['alert', 'confirm', 'prompt'];
+  const MAX_MESSAGE_LENGTH = 2000;
+
+  // { default, armed: { action, promptText? } | null } from the background
+  // script; until it answers, dialogs open as they always did
+  let policy = null;
+
+  function messageText(value) {
+    try {
+      const text = value === undefined ? '' : String(value);
+      return text.length > MAX_MESSAGE_LENGTH ? text.slice(0, MAX_MESSAGE_LENGTH) + '...' : text;
+    } catch {
+      return '';
+    }
+  }
+
+  function report(type, dialog) {
+    browser.runtime.sendMessage({ type, dialog: { ...dialog, url: location.href } }).catch(() => {
+      // Background might not be listening, that's ok
+    });
+  }
+
+  // The answer for the next dialog, or null to let Firefox show it
+  function takeAnswer() {
+    if (policy?.armed) {
+      const answer = { ...policy.armed, by: 'dialog_handle' };
+      policy = { ...policy, armed: null };
+      return answer;
+    }
+    if (policy && policy.default !== 'ask') return { action: policy.default, by: 'default' };
+    return null;
+  }
+
+  // What the page's call returns for an answer
+  function pageValue(type, answer, defaultValue) {
+    if (type === 'confirm') return answer.action === 'accept';
+    if (type === 'prompt') return answer.action === 'accept' ? answer.promptText ?? defaultValue : null;
+    return undefined;
+  }
+
+  function intercept(type, original, page, args) {
+    const dialog = { type, message: messageText(args[0]) };
+    if (type === 'prompt') dialog.defaultValue = messageText(args[1]);
+
+    const answer = takeAnswer();
+    if (answer) {
+      const value = pageValue(type, answer, dialog.defaultValue);
+      report('DIALOG_OPENED', {
+        ...dialog,
+        handled: answer.action === 'accept' ? 'accepted' : 'dismissed',
+        by: answer.by,
+        ...(typeof value === 'string' ? { promptText: value } : {})
+      });
+      return value;
+    }
+
+    report('DIALOG_OPENED', { ...dialog, handled: 'open' });
+    const result = original.apply(page, args);
+    // What the user typed into a prompt is left out; it may be a password
+    report('DIALOG_CLOSED', {
+      ...dialog,
+      handled: result === false || result === null ? 'dismissed' : 'accepted',
+      by: 'user'
+    });
+    return result;
+  }
+
+  // deno-lint-ignore no-window -- the page's own objects are only reachable through the window's Xray
+  const page = window.wrappedJSObject;
+  if (page && typeof exportFunction === 'function') {
+    for (const type of DIALOG_TYPES) {
+      const original = page[type];
+      if (typeof original !== 'function') continue;
+      exportFunction(function (...args) {
+        return intercept(type, original, page, args);
+      }, page, { defineAs: type });
+    }
+  }
+
+  globalThis.addEventListener('beforeunload', (event) => {
+    if (policy?.default === 'accept') event.stopImmediatePropagation();
+  });
+
+  browser.runtime.onMessage.addListener((message) => {
+    if (message.type === 'DIALOG_POLICY') policy = message.policy;
+  });
+
+  browser.runtime.sendMessage({ type: 'DIALOG_QUERY' })
+    .then((answer) => {
+      if (!policy) policy = answer;
+    })
+    .catch(() => {
+      // Background might not be listening, that's ok
+    });
+})();
@@ -0,0 +1,238 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Page content extraction for the content script
+//
+// Renders the page for get_page_content:
+//   markdown     the visible page as Markdown: headings, paragraphs, links,
+//                lists, emphasis, code, quotes, images with alt text and tables
+//   readability  the same, for the main article only: the block with the most
+//                paragraph text (weighed against its link density), without
+//                navigation, sidebars, footers and forms
+//   tables       each visible data table as { caption, headers, rows }, with
+//                rows keyed by header
+// Pagination happens in the host (host/content.ts). Exposed to bridge.js as
+// globalThis.__claudeMcpExtract.
+
+if (!globalThis.__claudeMcpExtract) {
+  globalThis.__claudeMcpExtract = (() => {
+    const a11y = globalThis.__claudeMcpAccessibility;
+    const locators = globalThis.__claudeMcpLocator;
+
+    const SKIPPED_TAGS = new Set([
+      'script', 'style', 'noscript', 'template', 'head', 'svg', 'canvas', 'iframe', 'frame', 'object', 'embed',
+      'select', 'option', 'datalist', 'input', 'textarea', 'button'
+    ]);
+    const BLOCK_TAGS = new Set([
+      'address', 'article', 'aside', 'body', 'details', 'dialog', 'div', 'dl', 'dt', 'dd', 'fieldset', 'figcaption',
+      'figure', 'footer', 'form', 'header', 'main', 'nav', 'p', 'section', 'summary'
+    ]);
+    // Page furniture readability mode leaves out
+    const BOILERPLATE = 'nav, aside, footer, form, dialog, [role="navigation"], [role="complementary"], ' +
+      '[role="contentinfo"], [role="search"], [role="banner"], [role="dialog"]';
+    const UNLIKELY = /banner|breadcrumb|comment|cookie|footer|menu|modal|nav|popup|promo|related|share|sidebar|social|sponsor|subscribe/i;
+    const MIN_PARAGRAPH_LENGTH = 25;
+
+    function block(text) {
+      const trimmed = text.trim();
+      return trimmed ? `\n\n${trimmed}\n\n` : '';
+    }
+
+    function inline(text) {
+      return text.replace(/\s+/g, ' ').trim();
+    }
+
+    function wrap(marker, text) {
+      const trimmed = inline(text);
+      return trimmed ? `${marker}${trimmed}${marker}` : '';
+    }
+
+    // Renders one node; skip(el) leaves out an element and everything in it
+    function renderer(skip) {
+      function children(el) {
+        return a11y.composedChildren(el).map(child => render(child)).join('');
+      }
+
+      function list(el, ordered) {
+        const items = [...el.children].filter(item => item.localName === 'li' && !a11y.isHidden(item) && !skip(item));
+        const start = Number(el.getAttribute('start')) || 1;
+        return block(items.map((item, i) => {
+          const marker = ordered ? `${start + i}. ` : '- ';
+          const body = children(item).replace(/\n{3,}/g, '\n\n').trim();
+          return marker + body.split('\n').join('\n' + ' '.repeat(marker.length));
+        }).join('\n'));
+      }
+
+      function table(el) {
+        const rows = [...el.rows].filter(row => !a11y.isHidden(row));
+        if (rows.length === 0) return '';
+        const cells = rows.map(row => [...row.cells].map(cell => inline(children(cell)).replace(/\|/g, '\\|')));
+        const width = Math.max(...cells.map(row => row.length));
+        const line = (row) => `| ${Array.from({ length: width }, (_, i) => row[i] ?? '').join(' | ')} |`;
+        return block([line(cells[0]), line(Array(width).fill('---')), ...cells.slice(1).map(line)].join('\n'));
+      }
+
+      function render(node) {
+        if (node.nodeType === 3) return node.textContent.replace(/\s+/g, ' ');
+        if (node.nodeType !== 1) return '';
+        const el = node;
+        const tag = el.localName;
+        if (SKIPPED_TAGS.has(tag) || a11y.isHidden(el) || skip(el)) return '';
+
+        if (/^h[1-6]$/.test(tag)) {
+          const text = inline(children(el));
+          return text ? block(`${'#'.repeat(Number(tag[1]))} ${text}`) : '';
+        }
+        switch (tag) {
+          case 'br':
+            return '\n';
+          case 'hr':
+            return block('---');
+          case 'a': {
+            const text = inline(children(el));
+            const href = el.href;
+            if (!text || !href || href.startsWith('javascript:')) return text;
+            return `[${text}](${href})`;
+          }
+          case 'strong':
+          case 'b':
+            return wrap('**', children(el));
+          case 'em':
+          case 'i':
+            return wrap('_', children(el));
+          case 'code':
+            return wrap('`', el.textContent);
+          case 'pre':
+            return block('```\n' + el.textContent.replace(/\n+$/, '') + '\n```');
+          case 'blockquote':
+            return block(children(el).trim().split('\n').map(line => `> ${line}`.trimEnd()).join('\n'));
+          case 'ul':
+          case 'menu':
+            return list(el, false);
+          case 'ol':
+            return list(el, true);
+          case 'img': {
+            const alt = inline(el.alt || '');
+            return alt ? `![${alt}](${el.currentSrc || el.src})` : '';
+          }
+          case 'table':
+            return el.getAttribute('role') === 'presentation' ? block(children(el)) : table(el);
+          case 'tr':
+            return block(children(el));
+          case 'td':
+          case 'th':
+            return children(el) + ' ';
+          default:
+            return BLOCK_TAGS.has(tag) ? block(children(el)) : children(el);
+        }
+      }
+
+      return render;
+    }
+
+    function tidy(markdown) {
+      return markdown.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    }
+
+    function linkDensity(el) {
+      const length = a11y.normalize(el.textContent).length;
+      if (length === 0) return 1;
+      const linked = [...el.querySelectorAll('a')].reduce((sum, a) => sum + a11y.normalize(a.textContent).length, 0);
+      return linked / length;
+    }
+
+    // The element holding the main article: paragraphs score for their parent
+    // and (half) their grandparent, scaled down by how much of the text is links
+    function mainContent() {
+      const scores = new Map();
+      for (const paragraph of locators.allElements()) {
+        if (!['p', 'pre', 'td'].includes(paragraph.localName)) continue;
+        const text = a11y.normalize(paragraph.textContent);
+        if (text.length < MIN_PARAGRAPH_LENGTH || a11y.isHidden(paragraph)) continue;
+        const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+        const parent = paragraph.parentElement;
+        if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+        const grandparent = parent?.parentElement;
+        if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+      }
+
+      let best = null;
+      let bestScore = 0;
+      for (const [el, score] of scores) {
+        const hint = `${el.className} ${el.id}`;
+        let weighted = score * (1 - linkDensity(el));
+        if (el.matches('article, main, [role="main"]')) weighted *= 1.25;
+        if (UNLIKELY.test(hint)) weighted *= 0.5;
+        if (weighted > bestScore) {
+          best = el;
+          bestScore = weighted;
+        }
+      }
+      return best ?? document.querySelector('article, main, [role="main"]') ?? document.body;
+    }
+
+    function markdown() {
+      return tidy(renderer(() => false)(document.body));
+    }
+
+    function readability() {
+      const root = mainContent();
+      const skip = (el) => el !== root &&
+        (el.matches(BOILERPLATE) || (UNLIKELY.test(`${el.className} ${el.id}`) && linkDensity(el) > 0.3));
+      const text = tidy(renderer(skip)(root));
+      // Articles often keep their title outside the text block
+      const title = a11y.normalize(document.querySelector('h1')?.textContent || document.title);
+      return title && !/^# /.test(text) ? `# ${title}\n\n${text}` : text;
+    }
+
+    function cellText(cell) {
+      return a11y.normalize(cell.innerText ?? cell.textContent);
+    }
+
+    // Cells of a row, with colspan cells repeated so columns line up
+    function rowCells(row) {
+      return [...row.cells].flatMap(cell => Array(Math.max(1, cell.colSpan)).fill(cellText(cell)));
+    }
+
+    function tableData(table) {
+      const rows = [...table.rows].filter(row => !a11y.isHidden(row));
+      const headerRow = table.tHead?.rows[0] ??
+        (rows[0] && [...rows[0].cells].every(cell => cell.localName === 'th') ? rows[0] : null);
+      const body = rows.filter(row => row !== headerRow && row.parentElement !== table.tHead);
+      const width = Math.max(0, ...rows.map(row => rowCells(row).length));
+
+      // Missing and repeated header names still need distinct keys
+      const seen = new Map();
+      const headers = Array.from({ length: width }, (_, i) => {
+        const name = (headerRow && rowCells(headerRow)[i]) || `column ${i + 1}`;
+        const count = (seen.get(name) || 0) + 1;
+        seen.set(name, count);
+        return count > 1 ? `${name} ${count}` : name;
+      });
+
+      return {
+        caption: table.caption ? cellText(table.caption) : undefined,
+        headers,
+        rows: body.map(row => {
+          const cells = rowCells(row);
+          return Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']));
+        })
+      };
+    }
+
+    function tables() {
+      return locators.allElements()
+        .filter(el => el.localName === 'table' && el.getAttribute('role') !== 'presentation' && !a11y.isHidden(el))
+        .map(tableData)
+        .filter(table => table.rows.length > 0);
+    }
+
+    function extract(format) {
+      const page = { url: location.href, title: document.title, format };
+      if (format === 'tables') return { ...page, tables: tables() };
+      if (format === 'readability') return { ...page, text: readability() };
+      if (format === 'markdown') return { ...page, text: markdown() };
+      throw new Error(`Unknown format "${format}". Use markdown, readability or tables`);
+    }
+
+    return { extract };
+  })();
+}
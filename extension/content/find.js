@@ -0,0 +1,235 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Element search for the find tool
+//
+// Query forms:
+//   role=button name="Save"    accessible role, and optionally accessible name
+//   text=Save, text=/^sav/i    visible text, plain (case-insensitive) or a regular expression
+//   label=Email                form controls by their label, or by the text nearest them
+//   xpath=//form//button       XPath; queries starting with / or ( are XPath too
+//   css=form .submit           CSS selector (may pierce shadow roots, see locator.js)
+//   anything else              a CSS selector if it parses and matches, otherwise text
+//
+// Text matches keep only the smallest element that matches, not every ancestor
+// whose text also contains it. Results are ranked exact before partial, visible
+// before hidden, in the viewport before outside it, then label before nearest
+// label, then document order. Exposed to bridge.js as globalThis.__claudeMcpFind.
+
+if (!globalThis.__claudeMcpFind) {
+  globalThis.__claudeMcpFind = (() => {
+    const a11y = globalThis.__claudeMcpAccessibility;
+    const locators = globalThis.__claudeMcpLocator;
+
+    const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'title', 'meta', 'link']);
+    const CONTROLS = 'input:not([type="hidden"]), select, textarea, [contenteditable=""], [contenteditable="true"], ' +
+      '[role="textbox"], [role="searchbox"], [role="combobox"]';
+    // Text longer than this does not read as a field's label
+    const MAX_LABEL_LENGTH = 80;
+    // How far a field may be from the text taken as its label, in CSS pixels
+    const MAX_LABEL_DISTANCE = 150;
+    // Label matches outrank nearest-label matches of the same strength
+    const KIND_ORDER = ['label', 'nearest label'];
+
+    function parseQuery(query) {
+      const trimmed = query.trim();
+      const prefixed = trimmed.match(/^(role|text|label|xpath|css)=([\s\S]*)$/);
+      if (prefixed) {
+        const [, mode, value] = prefixed;
+        if (mode === 'role') return parseRole(value);
+        if (mode === 'text') return { mode, ...parseText(value) };
+        return { mode, value: value.trim() };
+      }
+      if (/^\(*\//.test(trimmed)) return { mode: 'xpath', value: trimmed, fallback: true };
+      return { mode: 'auto', value: trimmed };
+    }
+
+    // role=button, role=button name="Save", role=button name=Save as draft
+    function parseRole(value) {
+      const match = value.trim().match(/^(\S+)(?:\s+name=(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|(.+)))?$/);
+      if (!match) throw new Error(`Invalid role query: role=${value}. Use role=button name="Save"`);
+      const [, role, doubleQuoted, singleQuoted, bare] = match;
+      const name = doubleQuoted !== undefined ? doubleQuoted.replace(/\\(.)/g, '$1') : singleQuoted ?? bare;
+      return { mode: 'role', role: role.toLowerCase(), name: name === undefined ? undefined : a11y.normalize(name) };
+    }
+
+    function parseText(value) {
+      const regex = value.match(/^\/([\s\S]+)\/([a-z]*)$/);
+      if (!regex) return { value: a11y.normalize(value) };
+      try {
+        return { regex: new RegExp(regex[1], regex[2]) };
+      } catch (e) {
+        throw new Error(`Invalid regular expression in text query: ${e.message}`);
+      }
+    }
+
+    // How a string compares with the query: true exact, false partial, null no match
+    function compare(text, query) {
+      const haystack = text.toLowerCase();
+      const needle = query.toLowerCase();
+      if (haystack === needle) return true;
+      return haystack.includes(needle) ? false : null;
+    }
+
+    function compareRegex(text, regex) {
+      regex.lastIndex = 0;
+      const match = regex.exec(text);
+      if (!match) return null;
+      return match[0].length === text.length;
+    }
+
+    function searchable(el) {
+      return !SKIPPED_TAGS.has(el.localName) && el !== document.documentElement && el !== document.body;
+    }
+
+    // Smallest elements whose text (or aria-label, placeholder) matches
+    function byText(test) {
+      const matches = new Map(); // element -> exact
+      for (const el of locators.allElements()) {
+        if (!searchable(el)) continue;
+        let exact = test(a11y.normalize(el.textContent || ''));
+        for (const attribute of ['aria-label', 'placeholder']) {
+          const value = el.getAttribute(attribute);
+          if (value && exact !== true) exact = test(a11y.normalize(value)) ?? exact;
+        }
+        if (exact !== null) matches.set(el, exact);
+      }
+      const hasMatchInside = new Set();
+      for (const el of matches.keys()) {
+        for (let parent = el.parentElement; parent && !hasMatchInside.has(parent); parent = parent.parentElement) {
+          hasMatchInside.add(parent);
+        }
+      }
+      return [...matches.keys()]
+        .filter(el => !hasMatchInside.has(el))
+        .map(el => ({ el, exact: matches.get(el), kind: 'text' }));
+    }
+
+    function byRole(role, name) {
+      const results = [];
+      for (const el of locators.allElements()) {
+        if (!searchable(el) || a11y.getRole(el) !== role) continue;
+        const exact = name === undefined ? true : compare(a11y.normalize(a11y.getName(el)), name);
+        if (exact !== null) results.push({ el, exact, kind: 'role' });
+      }
+      return results;
+    }
+
+    function gap(a, b) {
+      const dx = Math.max(0, a.left - b.right, b.left - a.right);
+      const dy = Math.max(0, a.top - b.bottom, b.top - a.bottom);
+      return Math.hypot(dx, dy);
+    }
+
+    // Controls labelled by the text, then controls next to text that reads like a
+    // label but is not tied to them (a table cell, a span before the input)
+    function byLabel(label) {
+      const controls = locators.allElements().filter(el => el.matches(CONTROLS) && !a11y.isHidden(el));
+      const results = [];
+      const found = new Set();
+      for (const el of controls) {
+        const exact = compare(a11y.normalize(a11y.getName(el)), label);
+        if (exact !== null) {
+          results.push({ el, exact, kind: 'label' });
+          found.add(el);
+        }
+      }
+
+      const labels = byText(text => text.length <= MAX_LABEL_LENGTH ? compare(text, label) : null)
+        .filter(({ el }) => !el.matches(CONTROLS) && !a11y.isHidden(el));
+      for (const { el: labelEl, exact } of labels) {
+        const labelRect = labelEl.getBoundingClientRect();
+        let nearest = null;
+        let nearestDistance = MAX_LABEL_DISTANCE;
+        for (const control of controls) {
+          const distance = gap(labelRect, control.getBoundingClientRect());
+          if (distance <= nearestDistance) {
+            nearest = control;
+            nearestDistance = distance;
+          }
+        }
+        if (nearest && !found.has(nearest)) {
+          results.push({ el: nearest, exact, kind: 'nearest label' });
+          found.add(nearest);
+        }
+      }
+      return results;
+    }
+
+    function byXPath(expression) {
+      let snapshot;
+      try {
+        snapshot = document.evaluate(expression, document, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+      } catch (e) {
+        throw new Error(`Invalid XPath: ${expression} (${e.message})`);
+      }
+      const results = [];
+      for (let i = 0; i < snapshot.snapshotLength; i++) {
+        const node = snapshot.snapshotItem(i);
+        if (node.nodeType === 1) results.push({ el: node, exact: true, kind: 'xpath' });
+      }
+      return results;
+    }
+
+    function bySelector(selector) {
+      return locators.querySelectorAll(selector).map(el => ({ el, exact: true, kind: 'css' }));
+    }
+
+    function matchQuery(query) {
+      const parsed = parseQuery(query);
+      switch (parsed.mode) {
+        case 'role':
+          return byRole(parsed.role, parsed.name);
+        case 'text':
+          return parsed.regex
+            ? byText(text => compareRegex(text, parsed.regex))
+            : byText(text => compare(text, parsed.value));
+        case 'label':
+          return byLabel(a11y.normalize(parsed.value));
+        case 'css':
+          return bySelector(parsed.value);
+        case 'xpath':
+          try {
+            return byXPath(parsed.value);
+          } catch (e) {
+            if (!parsed.fallback) throw e;
+            return byText(text => compare(text, a11y.normalize(parsed.value)));
+          }
+        default: {
+          let matches = [];
+          try {
+            matches = bySelector(parsed.value);
+          } catch {
+            // Not a selector; search the text instead
+          }
+          return matches.length > 0 ? matches : byText(text => compare(text, a11y.normalize(parsed.value)));
+        }
+      }
+    }
+
+    function isVisible(rect, el) {
+      return rect.width > 0 && rect.height > 0 && !a11y.isHidden(el);
+    }
+
+    function isInViewport(rect) {
+      return rect.bottom > 0 && rect.right > 0 && rect.top < globalThis.innerHeight && rect.left < globalThis.innerWidth;
+    }
+
+    // Matches for the query, best first: [{ el, exact, kind, visible, inViewport, rect }]
+    function find(query, limit) {
+      const matches = matchQuery(query).map((match, index) => {
+        const rect = match.el.getBoundingClientRect();
+        const visible = isVisible(rect, match.el);
+        return { ...match, index, rect, visible, inViewport: visible && isInViewport(rect) };
+      });
+      const kindRank = (kind) => {
+        const rank = KIND_ORDER.indexOf(kind);
+        return rank === -1 ? 0 : rank;
+      };
+      matches.sort((a, b) =>
+        (b.exact - a.exact) || (b.visible - a.visible) || (b.inViewport - a.inViewport) ||
+        (kindRank(a.kind) - kindRank(b.kind)) || (a.index - b.index));
+      return matches.slice(0, limit);
+    }
+
+    return { find };
+  })();
+}
@@ -0,0 +1,476 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Input synthesis for the content script
+//
+// Replays the event sequences a real user produces (pointer -> mouse -> click,
+// keydown -> keypress -> beforeinput -> input -> keyup) and edits fields through
+// the native value setters or execCommand, so framework-controlled inputs
+// (React, Vue) see the change. Events are still untrusted; hosts that need
+// isTrusted or CSS :hover can switch to an OS-level backend (see host/input.ts).
+// Exposed to bridge.js as globalThis.__claudeMcpInput.
+
+if (!globalThis.__claudeMcpInput) {
+  globalThis.__claudeMcpInput = (() => {
+    const MODIFIER_KEYS = {
+      ctrl: { key: 'Control', code: 'ControlLeft', flag: 'ctrlKey' },
+      control: { key: 'Control', code: 'ControlLeft', flag: 'ctrlKey' },
+      shift: { key: 'Shift', code: 'ShiftLeft', flag: 'shiftKey' },
+      alt: { key: 'Alt', code: 'AltLeft', flag: 'altKey' },
+      option: { key: 'Alt', code: 'AltLeft', flag: 'altKey' },
+      meta: { key: 'Meta', code: 'MetaLeft', flag: 'metaKey' },
+      cmd: { key: 'Meta', code: 'MetaLeft', flag: 'metaKey' },
+      command: { key: 'Meta', code: 'MetaLeft', flag: 'metaKey' },
+      super: { key: 'Meta', code: 'MetaLeft', flag: 'metaKey' }
+    };
+
+    // Named keys: key value, code and legacy keyCode
+    const NAMED_KEYS = {
+      enter: ['Enter', 'Enter', 13], return: ['Enter', 'Enter', 13],
+      tab: ['Tab', 'Tab', 9], escape: ['Escape', 'Escape', 27], esc: ['Escape', 'Escape', 27],
+      backspace: ['Backspace', 'Backspace', 8], delete: ['Delete', 'Delete', 46],
+      space: [' ', 'Space', 32], arrowup: ['ArrowUp', 'ArrowUp', 38], up: ['ArrowUp', 'ArrowUp', 38],
+      arrowdown: ['ArrowDown', 'ArrowDown', 40], down: ['ArrowDown', 'ArrowDown', 40],
+      arrowleft: ['ArrowLeft', 'ArrowLeft', 37], left: ['ArrowLeft', 'ArrowLeft', 37],
+      arrowright: ['ArrowRight', 'ArrowRight', 39], right: ['ArrowRight', 'ArrowRight', 39],
+      home: ['Home', 'Home', 36], end: ['End', 'End', 35],
+      pageup: ['PageUp', 'PageUp', 33], pagedown: ['PageDown', 'PageDown', 34],
+      insert: ['Insert', 'Insert', 45]
+    };
+    for (let i = 1; i <= 12; i++) NAMED_KEYS['f' + i] = ['F' + i, 'F' + i, 111 + i];
+
+    const SHIFTED_PUNCTUATION = '~!@#$%^&*()_+{}|:"<>?';
+
+    let hovered = null;
+
+    function sleep(ms) {
+      return ms > 0 ? new Promise((r) => setTimeout(r, ms)) : Promise.resolve();
+    }
+
+    function modifierFlags(modifiers = []) {
+      const flags = { ctrlKey: false, shiftKey: false, altKey: false, metaKey: false };
+      for (const name of modifiers) {
+        const modifier = MODIFIER_KEYS[String(name).toLowerCase()];
+        if (!modifier) throw new Error(`Unknown modifier: ${name}`);
+        flags[modifier.flag] = true;
+      }
+      return flags;
+    }
+
+    // Describe a single printable character as a key
+    function charKey(ch) {
+      const upper = ch.toUpperCase();
+      if (/^[a-z]$/i.test(ch)) {
+        return { key: ch, code: 'Key' + upper, keyCode: upper.charCodeAt(0), shift: ch !== ch.toLowerCase() };
+      }
+      if (/^[0-9]$/.test(ch)) return { key: ch, code: 'Digit' + ch, keyCode: ch.charCodeAt(0), shift: false };
+      if (ch === ' ') return { key: ' ', code: 'Space', keyCode: 32, shift: false };
+      if (ch === '\n') return { key: 'Enter', code: 'Enter', keyCode: 13, shift: false };
+      return { key: ch, code: '', keyCode: 0, shift: SHIFTED_PUNCTUATION.includes(ch) };
+    }
+
+    // Parse "ctrl+shift+k" into modifiers and the main key
+    function parseCombo(combo) {
+      const parts = combo.split('+').map((p) => p.trim()).filter(Boolean);
+      if (combo.endsWith('++')) parts.push('+');
+      const main = parts.pop();
+      if (!main) throw new Error(`Invalid key combination: ${combo}`);
+
+      const named = NAMED_KEYS[main.toLowerCase()];
+      const modifierOnly = MODIFIER_KEYS[main.toLowerCase()];
+      let key;
+      if (modifierOnly) {
+        key = { key: modifierOnly.key, code: modifierOnly.code, keyCode: 0 };
+      } else if (named) {
+        key = { key: named[0], code: named[1], keyCode: named[2] };
+      } else if ([...main].length === 1) {
+        key = charKey(main);
+      } else {
+        throw new Error(`Unknown key: ${main}`);
+      }
+
+      return { modifiers: parts, key };
+    }
+
+    function isTextField(el) {
+      if (!el) return false;
+      if (el.isContentEditable) return true;
+      if (el.localName === 'textarea') return true;
+      return el.localName === 'input' &&
+        ['text', 'search', 'email', 'url', 'tel', 'password', 'number', ''].includes(el.type);
+    }
+
+    // Set .value through the prototype setter so framework value trackers notice
+    function setNativeValue(el, value) {
+      if (!['input', 'textarea', 'select'].includes(el.localName)) {
+        el.value = value;
+        return;
+      }
+      const proto = el.localName === 'textarea' ? HTMLTextAreaElement.prototype :
+        el.localName === 'select' ? HTMLSelectElement.prototype : HTMLInputElement.prototype;
+      const setter = Object.getOwnPropertyDescriptor(proto, 'value')?.set;
+      if (setter) setter.call(el, value);
+      else el.value = value;
+    }
+
+    // beforeinput for manual edits; false if the page cancelled the edit
+    function fireInput(el, inputType, data) {
+      const init = { bubbles: true, cancelable: true, composed: true, inputType, data };
+      return el.dispatchEvent(new InputEvent('beforeinput', init));
+    }
+
+    // Insert text at the caret; prefers execCommand, which keeps undo history and
+    // produces the browser's own beforeinput/input events
+    function insertText(el, text) {
+      const doc = el.ownerDocument;
+      try {
+        if (doc.execCommand('insertText', false, text)) return;
+      } catch {
+        // Fall through to manual editing
+      }
+
+      if (!fireInput(el, 'insertText', text)) return;
+      if (el.isContentEditable) {
+        const selection = doc.getSelection();
+        if (selection.rangeCount) {
+          const range = selection.getRangeAt(0);
+          range.deleteContents();
+          range.insertNode(doc.createTextNode(text));
+          range.collapse(false);
+        } else {
+          el.append(text);
+        }
+      } else {
+        const start = el.selectionStart ?? el.value.length;
+        const end = el.selectionEnd ?? el.value.length;
+        setNativeValue(el, el.value.slice(0, start) + text + el.value.slice(end));
+        try {
+          el.setSelectionRange(start + text.length, start + text.length);
+        } catch {
+          // Some input types (email, number) don't expose a selection
+        }
+      }
+      el.dispatchEvent(new InputEvent('input', { bubbles: true, composed: true, inputType: 'insertText', data: text }));
+    }
+
+    function deleteText(el, forward) {
+      const doc = el.ownerDocument;
+      try {
+        if (doc.execCommand(forward ? 'forwardDelete' : 'delete', false)) return;
+      } catch {
+        // Fall through to manual editing
+      }
+      if (el.isContentEditable || el.value === undefined) return;
+
+      const inputType = forward ? 'deleteContentForward' : 'deleteContentBackward';
+      if (!fireInput(el, inputType, null)) return;
+      let start = el.selectionStart ?? el.value.length;
+      let end = el.selectionEnd ?? el.value.length;
+      if (start === end) {
+        if (forward) end = Math.min(end + 1, el.value.length);
+        else start = Math.max(start - 1, 0);
+      }
+      setNativeValue(el, el.value.slice(0, start) + el.value.slice(end));
+      try {
+        el.setSelectionRange(start, start);
+      } catch {
+        // No selection API on this input type
+      }
+      el.dispatchEvent(new InputEvent('input', { bubbles: true, composed: true, inputType }));
+    }
+
+    function selectAll(el) {
+      if (el && typeof el.select === 'function') el.select();
+      else el?.ownerDocument.execCommand('selectAll', false);
+    }
+
+    function focusables(doc) {
+      return [...doc.querySelectorAll('a[href], button, input, select, textarea, [tabindex], [contenteditable]')]
+        .filter((el) => !el.disabled && el.tabIndex >= 0 && el.getClientRects().length > 0);
+    }
+
+    // Emulate the default action of keys that untrusted events don't trigger
+    function defaultKeyAction(el, key, flags) {
+      const doc = el.ownerDocument;
+      const editable = isTextField(el);
+
+      if ((flags.ctrlKey || flags.metaKey) && key.key.toLowerCase() === 'a') {
+        selectAll(editable ? el : null);
+        return;
+      }
+      if (flags.ctrlKey || flags.metaKey || flags.altKey) return; // Shortcuts are the page's business
+
+      switch (key.key) {
+        case 'Backspace':
+          if (editable) deleteText(el, false);
+          return;
+        case 'Delete':
+          if (editable) deleteText(el, true);
+          return;
+        case 'Enter':
+          if (el.localName === 'textarea' || el.isContentEditable) {
+            insertText(el, '\n');
+          } else if (el.form && el.localName === 'input') {
+            el.form.requestSubmit ? el.form.requestSubmit() : el.form.submit();
+          } else if (el.localName === 'a' || el.localName === 'button') {
+            el.click();
+          }
+          return;
+        case 'Tab': {
+          const list = focusables(doc);
+          const next = list[(list.indexOf(el) + (flags.shiftKey ? -1 : 1) + list.length) % list.length];
+          next?.focus();
+          return;
+        }
+        case 'ArrowLeft':
+        case 'ArrowRight':
+        case 'Home':
+        case 'End':
+          if (editable && !el.isContentEditable && el.selectionStart !== null) {
+            const pos = key.key === 'Home' ? 0 : key.key === 'End' ? el.value.length
+              : Math.max(0, Math.min(el.value.length, el.selectionStart + (key.key === 'ArrowLeft' ? -1 : 1)));
+            el.setSelectionRange(pos, pos);
+          }
+          return;
+        case ' ':
+          if (editable) insertText(el, ' ');
+          else if (['button', 'summary'].includes(el.localName) || ['checkbox', 'radio'].includes(el.type)) el.click();
+          return;
+        default:
+          if ([...key.key].length === 1 && editable) insertText(el, key.key);
+      }
+    }
+
+    function keyEvent(target, type, key, flags) {
+      const printable = [...key.key].length === 1;
+      return target.dispatchEvent(new KeyboardEvent(type, {
+        key: key.key,
+        code: key.code,
+        keyCode: type === 'keypress' ? (printable ? key.key.charCodeAt(0) : key.keyCode) : key.keyCode,
+        charCode: type === 'keypress' && printable ? key.key.charCodeAt(0) : 0,
+        which: key.keyCode,
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+        view: target.ownerDocument.defaultView,
+        ...flags
+      }));
+    }
+
+    // One key stroke with modifiers held: keydown(s) -> keypress -> default -> keyup(s)
+    function pressKey(target, key, modifiers) {
+      const flags = modifierFlags(modifiers);
+      if (key.shift) flags.shiftKey = true;
+
+      const held = { ctrlKey: false, shiftKey: false, altKey: false, metaKey: false };
+      for (const name of modifiers) {
+        const modifier = MODIFIER_KEYS[name.toLowerCase()];
+        held[modifier.flag] = true;
+        keyEvent(target, 'keydown', { key: modifier.key, code: modifier.code, keyCode: 0 }, { ...held });
+      }
+
+      const proceed = keyEvent(target, 'keydown', key, flags);
+      const printable = [...key.key].length === 1 || key.key === 'Enter';
+      if (proceed) {
+        let pressProceed = true;
+        if (printable && !flags.ctrlKey && !flags.metaKey && !flags.altKey) {
+          pressProceed = keyEvent(target, 'keypress', key, flags);
+        }
+        // Focus may move during the sequence, as it would for a real user
+        const active = deepActiveElement(target.ownerDocument) || target;
+        if (pressProceed) defaultKeyAction(active, key, flags);
+      }
+      keyEvent(deepActiveElement(target.ownerDocument) || target, 'keyup', key, flags);
+
+      for (const name of [...modifiers].reverse()) {
+        const modifier = MODIFIER_KEYS[name.toLowerCase()];
+        held[modifier.flag] = false;
+        keyEvent(target, 'keyup', { key: modifier.key, code: modifier.code, keyCode: 0 }, { ...held });
+      }
+    }
+
+    // Focused element, looking into open shadow roots
+    function deepActiveElement(doc) {
+      let active = doc.activeElement;
+      while (active?.shadowRoot?.activeElement) active = active.shadowRoot.activeElement;
+      return active === doc.body ? doc.body : active;
+    }
+
+    // "ctrl+k ctrl+c" is a chord: combinations pressed one after another
+    async function keyPress(target, keys, { repeat = 1, delay = 0 } = {}) {
+      const combos = keys.trim().split(/\s+/).map(parseCombo);
+      for (let i = 0; i < repeat; i++) {
+        for (const { modifiers, key } of combos) {
+          pressKey(deepActiveElement(target.ownerDocument) || target, key, modifiers);
+          await sleep(delay);
+        }
+      }
+    }
+
+    async function typeText(el, text, { delay = 0, clear = false } = {}) {
+      if (clear) {
+        selectAll(el);
+        deleteText(el, false);
+      }
+      for (const ch of text) {
+        pressKey(deepActiveElement(el.ownerDocument) || el, charKey(ch), []);
+        await sleep(delay);
+      }
+      // Text fields fire change when edited and then committed
+      if (el.value !== undefined) el.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+
+    function pointerInit(el, x, y, button, flags, buttons) {
+      return {
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+        view: el.ownerDocument.defaultView,
+        clientX: x,
+        clientY: y,
+        screenX: x + (globalThis.mozInnerScreenX || 0),
+        screenY: y + (globalThis.mozInnerScreenY || 0),
+        button,
+        buttons,
+        pointerId: 1,
+        pointerType: 'mouse',
+        isPrimary: true,
+        ...flags
+      };
+    }
+
+    function dispatchPointer(el, type, init) {
+      const Ctor = type.startsWith('pointer') ? PointerEvent : MouseEvent;
+      const bubbles = !type.endsWith('enter') && !type.endsWith('leave');
+      return el.dispatchEvent(new Ctor(type, { ...init, bubbles }));
+    }
+
+    // Move the (virtual) pointer onto an element, with over/enter/move events
+    function hover(el, x, y, flags = {}) {
+      const init = pointerInit(el, x, y, 0, flags, 0);
+      if (hovered && hovered !== el && hovered.isConnected) {
+        const outInit = { ...init, relatedTarget: el };
+        dispatchPointer(hovered, 'pointerout', outInit);
+        dispatchPointer(hovered, 'pointerleave', outInit);
+        dispatchPointer(hovered, 'mouseout', outInit);
+        dispatchPointer(hovered, 'mouseleave', outInit);
+      }
+      if (hovered !== el) {
+        const overInit = { ...init, relatedTarget: hovered };
+        dispatchPointer(el, 'pointerover', overInit);
+        dispatchPointer(el, 'pointerenter', overInit);
+        dispatchPointer(el, 'mouseover', overInit);
+        dispatchPointer(el, 'mouseenter', overInit);
+        hovered = el;
+      }
+      dispatchPointer(el, 'pointermove', init);
+      dispatchPointer(el, 'mousemove', init);
+    }
+
+    function click(el, x, y, { button = 'left', clickCount = 1, modifiers = [] } = {}) {
+      const flags = modifierFlags(modifiers);
+      const buttonIndex = button === 'right' ? 2 : button === 'middle' ? 1 : 0;
+      const buttonsMask = button === 'right' ? 2 : button === 'middle' ? 4 : 1;
+
+      hover(el, x, y, flags);
+
+      for (let detail = 1; detail <= clickCount; detail++) {
+        const down = { ...pointerInit(el, x, y, buttonIndex, flags, buttonsMask), detail };
+        const up = { ...pointerInit(el, x, y, buttonIndex, flags, 0), detail };
+
+        dispatchPointer(el, 'pointerdown', down);
+        const mousedownProceed = dispatchPointer(el, 'mousedown', down);
+        // mousedown's default action moves focus
+        if (mousedownProceed && detail === 1) {
+          const focusTarget = el.closest('a[href], button, input, select, textarea, [tabindex], [contenteditable]');
+          focusTarget?.focus({ preventScroll: true });
+        }
+        dispatchPointer(el, 'pointerup', up);
+        dispatchPointer(el, 'mouseup', up);
+
+        if (button === 'left') {
+          // A dispatched click still runs activation behaviour (links, checkboxes, submit)
+          dispatchPointer(el, 'click', up);
+        } else if (button === 'middle') {
+          dispatchPointer(el, 'auxclick', up);
+        }
+      }
+
+      if (button === 'right') {
+        dispatchPointer(el, 'contextmenu', pointerInit(el, x, y, 2, flags, 0));
+      } else if (button === 'left' && clickCount === 2) {
+        dispatchPointer(el, 'dblclick', { ...pointerInit(el, x, y, 0, flags, 0), detail: 2 });
+      }
+    }
+
+    // Press on one point, move in steps, release on another; HTML5 drag events
+    // are added when the source is draggable
+    async function drag(source, from, target, to, { steps = 10, delay = 10 } = {}) {
+      hover(source, from[0], from[1]);
+      dispatchPointer(source, 'pointerdown', pointerInit(source, from[0], from[1], 0, {}, 1));
+      dispatchPointer(source, 'mousedown', pointerInit(source, from[0], from[1], 0, {}, 1));
+
+      const html5 = source.draggable || source.closest?.('[draggable="true"]');
+      let dataTransfer = null;
+      let dragStarted = false;
+      if (html5) {
+        dataTransfer = new DataTransfer();
+        dragStarted = source.dispatchEvent(new DragEvent('dragstart', {
+          ...pointerInit(source, from[0], from[1], 0, {}, 1), dataTransfer
+        }));
+      }
+
+      let over = null;
+      for (let i = 1; i <= steps; i++) {
+        const x = Math.round(from[0] + (to[0] - from[0]) * i / steps);
+        const y = Math.round(from[1] + (to[1] - from[1]) * i / steps);
+        const el = source.ownerDocument.elementFromPoint(x, y) || target;
+        const init = pointerInit(el, x, y, 0, {}, 1);
+
+        if (dragStarted) {
+          source.dispatchEvent(new DragEvent('drag', { ...init, dataTransfer }));
+          if (el !== over) {
+            if (over) over.dispatchEvent(new DragEvent('dragleave', { ...init, dataTransfer }));
+            el.dispatchEvent(new DragEvent('dragenter', { ...init, dataTransfer }));
+            over = el;
+          }
+          el.dispatchEvent(new DragEvent('dragover', { ...init, dataTransfer }));
+        } else {
+          dispatchPointer(el, 'pointermove', init);
+          dispatchPointer(el, 'mousemove', init);
+        }
+        await sleep(delay);
+      }
+
+      const dropInit = pointerInit(target, to[0], to[1], 0, {}, 0);
+      if (dragStarted) {
+        target.dispatchEvent(new DragEvent('drop', { ...dropInit, dataTransfer }));
+        source.dispatchEvent(new DragEvent('dragend', { ...dropInit, dataTransfer }));
+      }
+      dispatchPointer(target, 'pointerup', dropInit);
+      dispatchPointer(target, 'mouseup', dropInit);
+      hovered = target;
+      return dragStarted ? 'html5' : 'pointer';
+    }
+
+    // Give a file input these files, or drop them on any other element (a drop
+    // zone) with the drag events a real file drop fires
+    function dropFiles(el, files, x, y) {
+      const dataTransfer = new DataTransfer();
+      for (const file of files) dataTransfer.items.add(file);
+
+      if (el.localName === 'input' && el.type === 'file') {
+        el.files = dataTransfer.files;
+        el.dispatchEvent(new Event('input', { bubbles: true }));
+        el.dispatchEvent(new Event('change', { bubbles: true }));
+        return 'input';
+      }
+
+      const init = pointerInit(el, x, y, 0, {}, 1);
+      el.dispatchEvent(new DragEvent('dragenter', { ...init, dataTransfer }));
+      el.dispatchEvent(new DragEvent('dragover', { ...init, dataTransfer }));
+      el.dispatchEvent(new DragEvent('drop', { ...pointerInit(el, x, y, 0, {}, 0), dataTransfer }));
+      return 'drop';
+    }
+
+    return { click, drag, dropFiles, hover, keyPress, setNativeValue, typeText };
+  })();
+}
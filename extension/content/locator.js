@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Stable element locators for the content script
+//
+// A locator names an element in ways that survive a reload, unlike refs:
+//   { role, name }  accessible role and name, as read_page shows them
+//   { text }        the element's own visible text
+//   { css }         a CSS selector, which may pierce shadow roots (see querySelectorAll)
+// The recorder fills in the most stable of role+name and text that identifies
+// the element uniquely, plus a CSS selector as the fallback. Resolving tries the
+// strategies in that order. Exposed to bridge.js, wait.js and recorder.js as
+// globalThis.__claudeMcpLocator.
+
+if (!globalThis.__claudeMcpLocator) {
+  globalThis.__claudeMcpLocator = (() => {
+    const a11y = globalThis.__claudeMcpAccessibility;
+    const MAX_TEXT = 80;
+
+    // root and the open shadow roots below it, at any depth
+    function shadowRootsUnder(root) {
+      const roots = [root];
+      for (const el of root.querySelectorAll('*')) {
+        if (el.shadowRoot) roots.push(...shadowRootsUnder(el.shadowRoot));
+      }
+      return roots;
+    }
+
+    // Like document.querySelectorAll, but also matching inside open shadow roots.
+    // `>>>` steps into the shadow roots of what the selector before it matched:
+    // `payment-form >>> input[name="card"]`. Light DOM matches come first.
+    function querySelectorAll(selector) {
+      const parts = selector.split('>>>').map(part => part.trim());
+      if (parts.some(part => !part)) throw new Error(`Invalid selector: ${selector}`);
+
+      let roots = [document];
+      let matches = [];
+      for (const [i, part] of parts.entries()) {
+        const found = new Set();
+        for (const root of roots.flatMap(shadowRootsUnder)) {
+          try {
+            for (const el of root.querySelectorAll(part)) found.add(el);
+          } catch {
+            throw new Error(`Invalid selector: ${selector}`);
+          }
+        }
+        matches = [...found];
+        if (i < parts.length - 1) roots = matches.map(el => el.shadowRoot).filter(Boolean);
+      }
+      return matches;
+    }
+
+    // Every element of the document, including those in open shadow roots
+    function allElements() {
+      return shadowRootsUnder(document).flatMap(root => [...root.querySelectorAll('*')]);
+    }
+
+    function visibleElements() {
+      return allElements().filter(el => !a11y.isHidden(el));
+    }
+
+    function byRoleAndName(role, name) {
+      return visibleElements().filter(el => a11y.getRole(el) === role && a11y.normalize(a11y.getName(el)) === name);
+    }
+
+    function ownText(el) {
+      return a11y.normalize(el.innerText ?? el.textContent ?? '');
+    }
+
+    // Deepest elements whose text is exactly this (not every ancestor that also contains it)
+    function byText(text) {
+      const matches = visibleElements().filter(el => ownText(el) === text);
+      return matches.filter(el => !matches.some(other => other !== el && el.contains(other)));
+    }
+
+    // Ids that look generated (React, Angular, numeric suffixes) change between page loads
+    function stableId(id) {
+      return id && !/\d{3,}|^[:_]|[:]r\d|^ember|^ng-/.test(id);
+    }
+
+    function cssFor(el) {
+      const root = el.getRootNode();
+      const parts = [];
+      let node = el;
+      while (node && node.nodeType === 1 && node !== document.documentElement) {
+        if (stableId(node.id) && root.querySelectorAll(`#${CSS.escape(node.id)}`).length === 1) {
+          parts.unshift(`#${CSS.escape(node.id)}`);
+          break;
+        }
+        let part = node.localName;
+        const name = node.getAttribute('name');
+        if (name && ['input', 'select', 'textarea', 'button'].includes(part)) {
+          part += `[name="${CSS.escape(name)}"]`;
+        } else {
+          const siblings = [...(node.parentElement?.children || [])].filter(s => s.localName === node.localName);
+          if (siblings.length > 1) part += `:nth-of-type(${siblings.indexOf(node) + 1})`;
+        }
+        parts.unshift(part);
+        node = node.parentElement;
+      }
+      // Inside a shadow root the path continues from its host
+      const css = parts.join(' > ');
+      return root instanceof ShadowRoot ? `${cssFor(root.host)} >>> ${css}` : css;
+    }
+
+    function locatorFor(el) {
+      const locator = {};
+      const role = a11y.getRole(el);
+      const name = a11y.normalize(a11y.getName(el));
+      const text = ownText(el);
+
+      if (role && !a11y.PRESENTATIONAL.has(role) && name && name.length <= MAX_TEXT &&
+          byRoleAndName(role, name).length === 1) {
+        locator.role = role;
+        locator.name = name;
+      } else if (text && text.length <= MAX_TEXT) {
+        const matches = byText(text);
+        if (matches.length === 1 && matches[0] === el) locator.text = text;
+      }
+      locator.css = cssFor(el);
+      return locator;
+    }
+
+    function resolveLocator(locator) {
+      if (locator.role) {
+        const [el] = byRoleAndName(locator.role, a11y.normalize(locator.name || ''));
+        if (el) return el;
+      }
+      if (locator.text) {
+        const [el] = byText(a11y.normalize(locator.text));
+        if (el) return el;
+      }
+      if (locator.css) {
+        const [el] = querySelectorAll(locator.css);
+        if (el) return el;
+      }
+      throw new Error(`No element matches locator ${JSON.stringify(locator)}`);
+    }
+
+    return { locatorFor, resolveLocator, cssFor, querySelectorAll, allElements };
+  })();
+}
@@ -0,0 +1,127 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Interaction recorder for the content script
+//
+// While the browser action's recording mode is on for this tab, turns the user's
+// clicks, typing, selects and Enter presses into tool calls (click, type,
+// form_input, key_press) that target elements by locator (content/locator.js).
+// Steps go to the background script (recorder.js), which adds navigations and
+// hands the finished recording to the host. Only trusted events are recorded, so
+// the agent's own synthetic input never ends up in a recording. Tool calls act
+// on the top frame, so only the top frame records.
+
+(() => {
+  // deno-lint-ignore no-window -- the frame's own window, to record in the top frame only
+  if (globalThis.__claudeMcpRecorder || window !== window.top) return;
+  globalThis.__claudeMcpRecorder = true;
+
+  const locators = globalThis.__claudeMcpLocator;
+  const REDACTED = '[redacted]';
+  const TEXT_INPUT_TYPES = new Set(['', 'text', 'search', 'email', 'url', 'tel', 'number', 'password']);
+  const CLICKABLE = 'a, button, input, select, textarea, summary, label, [role], [onclick], [tabindex]';
+
+  let recording = false;
+  // Text fields typed into since their last recorded value
+  const edited = new Set();
+
+  function isTextField(el) {
+    if (el.localName === 'textarea') return true;
+    if (el.localName === 'input') return TEXT_INPUT_TYPES.has(el.type);
+    return el.isContentEditable;
+  }
+
+  function isSensitive(el) {
+    return el.type === 'password' ||
+      /^(cc-|one-time-code|current-password|new-password)/.test(el.getAttribute?.('autocomplete') || '');
+  }
+
+  function step(tool, args, redacted = []) {
+    return { tool, arguments: args, ...(redacted.length > 0 && { redacted }) };
+  }
+
+  function record(recorded) {
+    browser.runtime.sendMessage({ type: 'RECORDED_STEP', step: recorded }).catch(() => {
+      // Background might not be listening, that's ok
+    });
+  }
+
+  // What was typed into a field since it was last recorded, as a type step
+  function fieldStep(el) {
+    if (!edited.delete(el)) return null;
+    const text = el.isContentEditable ? el.innerText : el.value;
+    const sensitive = isSensitive(el);
+    return step('type', { locator: locators.locatorFor(el), text: sensitive ? REDACTED : text, clear: true },
+      sensitive ? ['arguments.text'] : []);
+  }
+
+  // A typed value is recorded once the user leaves the field (or submits with Enter)
+  function flushField(el) {
+    const typed = fieldStep(el);
+    if (typed) record(typed);
+  }
+
+  function flushAll() {
+    for (const el of [...edited]) flushField(el);
+  }
+
+  // The element a click was meant for, not the icon or span inside it
+  function clickTarget(target) {
+    const el = target.closest?.(CLICKABLE) || target;
+    return el === document.body || el === document.documentElement ? target : el;
+  }
+
+  document.addEventListener('click', (event) => {
+    if (!recording || !event.isTrusted || !(event.target instanceof Element)) return;
+    const el = clickTarget(event.target);
+    // Selects are recorded by their change, text fields by what is typed in them
+    if (el.localName === 'select' || el.localName === 'option' || isTextField(el)) return;
+    flushAll();
+    record(step('click', { locator: locators.locatorFor(el) }));
+  }, true);
+
+  document.addEventListener('input', (event) => {
+    if (!recording || !event.isTrusted) return;
+    const el = event.target;
+    if (isTextField(el)) edited.add(el);
+  }, true);
+
+  document.addEventListener('change', (event) => {
+    if (!recording || !event.isTrusted) return;
+    const el = event.target;
+    if (el.localName === 'select') {
+      record(step('form_input', { locator: locators.locatorFor(el), value: el.value }));
+    } else if (isTextField(el)) {
+      flushField(el);
+    }
+  }, true);
+
+  document.addEventListener('blur', (event) => {
+    if (recording && event.target instanceof Element) flushField(event.target);
+  }, true);
+
+  document.addEventListener('keydown', (event) => {
+    if (!recording || !event.isTrusted || event.key !== 'Enter' || event.isComposing) return;
+    const el = event.target;
+    // Enter in a single-line field usually submits; in a textarea it is just text
+    if (!(el instanceof Element) || el.localName !== 'input' || !isTextField(el)) return;
+    flushField(el);
+    record(step('key_press', { locator: locators.locatorFor(el), keys: 'Enter' }));
+  }, true);
+
+  // Stopping hands back what is still being typed with the answer, so it lands
+  // in the recording before the background script closes it
+  browser.runtime.onMessage.addListener((message) => {
+    if (message.type !== 'RECORDER_STATE') return;
+    const steps = recording && !message.recording ? [...edited].map(fieldStep).filter(Boolean) : [];
+    recording = message.recording;
+    return Promise.resolve({ steps });
+  });
+
+  // Pages loaded mid-recording pick the mode up from the background script
+  browser.runtime.sendMessage({ type: 'RECORDER_QUERY' })
+    .then((state) => {
+      recording = !!state?.recording;
+    })
+    .catch(() => {
+      // Background might not be listening, that's ok
+    });
+})();
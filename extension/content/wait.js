@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Page wait conditions for the content script
+//
+// Waits until every requested DOM condition holds at the same time: a selector
+// being visible/hidden/attached/detached, text being present, and the DOM going
+// quiet (no mutations for N ms). Conditions are rechecked on every mutation and
+// on a short interval (CSS transitions don't mutate the DOM). URL and network
+// conditions are handled by the background script (wait.js). Selectors reach into
+// open shadow roots like everywhere else (content/locator.js).
+// Exposed to bridge.js as globalThis.__claudeMcpWait.
+
+if (!globalThis.__claudeMcpWait) {
+  globalThis.__claudeMcpWait = (() => {
+    const POLL_INTERVAL_MS = 100;
+
+    function isVisible(el) {
+      const rect = el.getBoundingClientRect();
+      if (rect.width === 0 && rect.height === 0) return false;
+      if (typeof el.checkVisibility === 'function') {
+        return el.checkVisibility({ checkOpacity: true, checkVisibilityCSS: true });
+      }
+      const style = getComputedStyle(el);
+      return style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0';
+    }
+
+    // Returns null when the condition holds, otherwise what is still pending
+    function checkSelector(selector, state) {
+      const matches = globalThis.__claudeMcpLocator.querySelectorAll(selector);
+      const visible = matches.filter(isVisible);
+      const holds = {
+        visible: visible.length > 0,
+        hidden: visible.length === 0,
+        attached: matches.length > 0,
+        detached: matches.length === 0
+      }[state];
+      if (holds) return null;
+
+      let detail;
+      if (state === 'visible') detail = matches.length ? `${matches.length} match(es), none visible` : 'no element matches';
+      else if (state === 'hidden') detail = `${visible.length} visible match(es)`;
+      else if (state === 'attached') detail = 'no element matches';
+      else detail = `${matches.length} match(es) still attached`;
+      return { condition: 'selector', selector, state, detail };
+    }
+
+    function checkText(text) {
+      const body = document.body ? document.body.innerText : '';
+      return body.includes(text) ? null : { condition: 'text', text, detail: 'text not found on page' };
+    }
+
+    function waitForPage({ selector, state = 'visible', text, domQuiet, timeout = 10000 }) {
+      if (selector && !['visible', 'hidden', 'attached', 'detached'].includes(state)) {
+        throw new Error(`Unknown selector state "${state}". Use visible, hidden, attached or detached`);
+      }
+      if (selector) globalThis.__claudeMcpLocator.querySelectorAll(selector); // Throws early on an invalid selector
+
+      const started = Date.now();
+      let lastMutation = started;
+
+      const pendingConditions = () => {
+        const pending = [];
+        if (selector) {
+          const result = checkSelector(selector, state);
+          if (result) pending.push(result);
+        }
+        if (text !== undefined) {
+          const result = checkText(text);
+          if (result) pending.push(result);
+        }
+        if (domQuiet) {
+          const quietFor = Date.now() - lastMutation;
+          if (quietFor < domQuiet) {
+            pending.push({ condition: 'domQuiet', domQuiet, detail: `last DOM mutation ${quietFor}ms ago` });
+          }
+        }
+        return pending;
+      };
+
+      return new Promise((resolve) => {
+        let observer = null;
+        let poll = null;
+        let timer = null;
+
+        const finish = (pending) => {
+          if (observer) observer.disconnect();
+          clearInterval(poll);
+          clearTimeout(timer);
+          resolve({ satisfied: pending.length === 0, elapsed: Date.now() - started, pending });
+        };
+
+        const check = () => {
+          const pending = pendingConditions();
+          if (pending.length === 0) finish(pending);
+        };
+
+        observer = new MutationObserver(() => {
+          lastMutation = Date.now();
+          check();
+        });
+        observer.observe(document.documentElement || document, {
+          subtree: true,
+          childList: true,
+          attributes: true,
+          characterData: true
+        });
+
+        poll = setInterval(check, POLL_INTERVAL_MS);
+        timer = setTimeout(() => finish(pendingConditions()), timeout);
+        check();
+      });
+    }
+
+    return { isVisible, waitForPage };
+  })();
+}
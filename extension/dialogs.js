@@ -0,0 +1,165 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Page dialogs (background)
+// content/dialog.js answers alert(), confirm() and prompt() in the page with an
+// answer armed by dialog_handle for the tab's next dialog, or else with the
+// session default the host sends (accept, dismiss or ask). Under "ask" Firefox
+// shows the dialog, and the page stays blocked until the person at the browser
+// answers it. Extensions cannot press a dialog's buttons, so calls into that tab
+// fail at once instead of waiting for the timeout, and tabs_list shows the open
+// dialog. Every dialog is reported to the host as a browser event (events.js)
+// and noted in the result of the call it happened during.
+
+const DIALOG_ACTIONS = ['accept', 'dismiss'];
+const DIALOG_POLICIES = [...DIALOG_ACTIONS, 'ask'];
+// Dialogs kept for noting in call results
+const MAX_RECENT_DIALOGS = 50;
+
+let dialogDefault = 'ask'; // until the host sends the session's
+const armedDialogs = new Map(); // tabId -> { action, promptText? }
+const openDialogs = new Map(); // tabId -> dialog Firefox is showing
+let recentDialogs = []; // [{ tabId, frameId, type, message, handled, by, promptText?, url, received }]
+// Calls into a tab's content script, failed when a dialog blocks the page
+const dialogWatchers = new Map(); // tabId -> Set of callbacks
+
+function describeDialog(dialog) {
+  const message = dialog.message ? ` "${dialog.message}"` : '';
+  if (dialog.handled === 'open') {
+    return `Tab ${dialog.tabId} is showing ${dialog.type}${message}, waiting for an answer in Firefox`;
+  }
+  const text = dialog.promptText !== undefined ? ` with "${dialog.promptText}"` : '';
+  const by = { default: 'by default', dialog_handle: 'by dialog_handle', user: 'in Firefox' };
+  return `Tab ${dialog.tabId} showed ${dialog.type}${message}: ${dialog.handled}${text} ${by[dialog.by]}`;
+}
+
+function blockedByDialog(dialog) {
+  return new Error(`${describeDialog(dialog)}. The page is blocked until then; extensions cannot answer a dialog ` +
+    'Firefox shows. dialog_handle can answer the next one, or set the default to accept or dismiss');
+}
+
+function dialogPolicyFor(tabId) {
+  return { default: dialogDefault, armed: armedDialogs.get(tabId) ?? null };
+}
+
+// Tell every frame of the tab; pages without content scripts ask when injected
+async function pushDialogPolicy(tabId) {
+  try {
+    await browser.tabs.sendMessage(tabId, { type: 'DIALOG_POLICY', policy: dialogPolicyFor(tabId) });
+  } catch {
+    // No content script in the tab
+  }
+}
+
+// Run a call into the tab's content script, failing as soon as a dialog
+// Firefox shows blocks the page
+// deno-lint-ignore no-unused-vars -- called from background.js
+function whileNoDialog(tabId, run) {
+  return new Promise((resolve, reject) => {
+    const open = openDialogs.get(tabId);
+    if (open) {
+      reject(blockedByDialog(open));
+      return;
+    }
+    const watchers = dialogWatchers.get(tabId) ?? new Set();
+    dialogWatchers.set(tabId, watchers);
+    const watcher = (dialog) => reject(blockedByDialog(dialog));
+    watchers.add(watcher);
+    run().then(resolve, reject).finally(() => {
+      watchers.delete(watcher);
+      if (watchers.size === 0) dialogWatchers.delete(tabId);
+    });
+  });
+}
+
+function noteDialog(event, dialog) {
+  recentDialogs.push({ ...dialog, received: Date.now() });
+  if (recentDialogs.length > MAX_RECENT_DIALOGS) recentDialogs = recentDialogs.slice(-MAX_RECENT_DIALOGS);
+  const { type, ...details } = dialog;
+  emitEvent(event, { ...details, dialogType: type });
+}
+
+// A call's result, with the dialogs the page showed while it ran
+// deno-lint-ignore no-unused-vars -- called from background.js
+function withDialogNotes(result, since) {
+  const dialogs = recentDialogs.filter(dialog => dialog.received >= since && dialog.handled !== 'open');
+  if (dialogs.length === 0 || !Array.isArray(result?.content)) return result;
+  return {
+    ...result,
+    content: [...result.content, { type: 'text', text: dialogs.map(describeDialog).join('\n') }]
+  };
+}
+
+browser.runtime.onMessage.addListener((message, sender) => {
+  const tabId = sender.tab?.id;
+  if (tabId === undefined) return;
+
+  if (message.type === 'DIALOG_QUERY') return Promise.resolve(dialogPolicyFor(tabId));
+  if (message.type === 'DIALOG_OPENED') {
+    const dialog = { ...message.dialog, tabId, frameId: sender.frameId };
+    if (dialog.by === 'dialog_handle') {
+      armedDialogs.delete(tabId);
+      pushDialogPolicy(tabId);
+    }
+    if (dialog.handled === 'open') {
+      openDialogs.set(tabId, dialog);
+      for (const watcher of dialogWatchers.get(tabId) ?? []) watcher(dialog);
+    }
+    noteDialog('dialog.opened', dialog);
+  } else if (message.type === 'DIALOG_CLOSED') {
+    openDialogs.delete(tabId);
+    noteDialog('dialog.closed', { ...message.dialog, tabId, frameId: sender.frameId });
+  }
+});
+
+// A new page in the tab means the dialog went away with the old one
+browser.webNavigation.onCommitted.addListener(({ tabId, frameId }) => {
+  if (frameId === 0) openDialogs.delete(tabId);
+});
+
+browser.tabs.onRemoved.addListener((tabId) => {
+  armedDialogs.delete(tabId);
+  openDialogs.delete(tabId);
+});
+
+// Back to Firefox's own dialogs when the host goes away, until the next
+// session sends its policy
+// deno-lint-ignore no-unused-vars -- called from background.js
+function resetDialogPolicy() {
+  if (dialogDefault === 'ask' && armedDialogs.size === 0) return;
+  dialogDefault = 'ask';
+  armedDialogs.clear();
+  browser.tabs.query({}).then(tabs => tabs.forEach(tab => pushDialogPolicy(tab.id)));
+}
+
+// The session default (sent by the host when it connects, and when changed),
+// and an answer for the tab's next dialog
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function dialogHandle(args = {}) {
+  const { action, promptText } = args;
+  if (args.default !== undefined && args.default !== dialogDefault) {
+    if (!DIALOG_POLICIES.includes(args.default)) {
+      throw new Error(`Unknown default "${args.default}". Use ${DIALOG_POLICIES.join(', ')}`);
+    }
+    dialogDefault = args.default;
+    const tabs = await browser.tabs.query({});
+    await Promise.all(tabs.map(tab => pushDialogPolicy(tab.id)));
+  }
+
+  if (action === undefined) {
+    const answered = dialogDefault === 'ask' ? 'shown in Firefox' : `${dialogDefault}ed`;
+    return {
+      content: [{ type: 'text', text: `Dialogs are ${answered} unless dialog_handle answers them` }]
+    };
+  }
+  if (!DIALOG_ACTIONS.includes(action)) throw new Error(`Unknown action "${action}". Use accept or dismiss`);
+
+  const tab = await getTab(args.tabId);
+  const open = openDialogs.get(tab.id);
+  if (open) throw blockedByDialog(open);
+  armedDialogs.set(tab.id, { action, ...(promptText !== undefined ? { promptText } : {}) });
+  await pushDialogPolicy(tab.id);
+
+  const text = action === 'accept' && promptText !== undefined ? ` with "${promptText}"` : '';
+  return {
+    content: [{ type: 'text', text: `The next dialog in tab ${tab.id} will be ${action}ed${text}` }]
+  };
+}
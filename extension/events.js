@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Browser events (background)
+// Tells the host what happens in the browser besides the calls it makes, as
+// browser/event notifications: tabs opening (popups too, with their opener),
+// closing, being activated and changing URL or title; top-frame navigations
+// (redirects show in their qualifiers) and finished loads; finished downloads;
+// page dialogs (dialogs.js); and errors in the extension. The host keeps them
+// for events_poll, passes them on to the client and updates its resources.
+// With a session window (windows.js), events from the user's other windows
+// are dropped here and never reach the host.
+
+// Events wait here for their tab's window, so they reach the host in order
+let eventQueue = Promise.resolve();
+
+// Whether an event about the tab (in the window, where the listener knows it)
+// belongs to the session
+async function inSessionWindow(tabId, windowId) {
+  if (sessionWindowId === null || (tabId === undefined && windowId === undefined)) return true;
+  if (windowId === undefined) {
+    windowId = await browser.tabs.get(tabId).then(tab => tab.windowId, () => null);
+  }
+  return windowId === sessionWindowId;
+}
+
+function emitEvent(type, details = {}, windowId) {
+  if (connectionStatus !== 'connected') return;
+  const params = { type, time: Date.now(), ...details };
+  eventQueue = eventQueue
+    .then(() => inSessionWindow(details.tabId, windowId))
+    .then((inside) => {
+      if (inside && connectionStatus === 'connected') send({ jsonrpc: '2.0', method: 'browser/event', params });
+    });
+}
+
+browser.tabs.onCreated.addListener((tab) => {
+  emitEvent('tab.created', {
+    tabId: tab.id,
+    url: tab.url,
+    title: tab.title,
+    ...(tab.openerTabId !== undefined ? { openerTabId: tab.openerTabId } : {})
+  }, tab.windowId);
+});
+
+browser.tabs.onRemoved.addListener((tabId, { windowId }) => emitEvent('tab.closed', { tabId }, windowId));
+
+browser.tabs.onActivated.addListener(({ tabId, previousTabId, windowId }) => {
+  emitEvent('tab.activated', { tabId, ...(previousTabId !== undefined ? { previousTabId } : {}) }, windowId);
+});
+
+// URL changes without a navigation (history.pushState) and title changes
+browser.tabs.onUpdated.addListener((tabId, { url, title }, tab) => {
+  if (url === undefined && title === undefined) return;
+  emitEvent('tab.updated', { tabId, url, title }, tab.windowId);
+});
+
+browser.webNavigation.onCommitted.addListener(({ tabId, frameId, url, transitionType, transitionQualifiers }) => {
+  if (frameId !== 0) return;
+  emitEvent('navigation.committed', { tabId, url, transitionType, transitionQualifiers });
+});
+
+browser.webNavigation.onCompleted.addListener(({ tabId, frameId, url }) => {
+  if (frameId !== 0) return;
+  emitEvent('navigation.completed', { tabId, url });
+});
+
+browser.downloads.onChanged.addListener(async ({ id, state }) => {
+  if (state?.current !== 'complete' && state?.current !== 'interrupted') return;
+  const [item] = await browser.downloads.search({ id });
+  emitEvent('download.finished', {
+    downloadId: id,
+    state: state.current,
+    ...(item ? { filename: item.filename, url: item.url } : {}),
+    ...(item?.error ? { error: item.error } : {})
+  });
+});
+
+// Errors nothing caught, in any of the background scripts
+globalThis.addEventListener('error', (event) => {
+  emitEvent('error', { message: event.message, source: `${event.filename}:${event.lineno}` });
+});
+
+globalThis.addEventListener('unhandledrejection', (event) => {
+  emitEvent('error', { message: `Unhandled promise rejection: ${event.reason?.message ?? event.reason}` });
+});
@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - File uploads and downloads (background)
+// upload_file: the host reads the local files and sends their bytes; the
+// content script puts them into a file input, or drops them on a drop zone.
+// downloads_*: what the page downloaded, through browser.downloads. The host
+// reads the contents from disk for downloads_get (host/files.ts).
+
+const DOWNLOAD_WAIT_TIMEOUT_MS = 30000;
+// downloads_wait without `since` also accepts a download that started this long
+// before the call, so one started by the previous click is not missed
+const RECENT_DOWNLOAD_MS = 30000;
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function uploadFile(args) {
+  const tab = await getTab(args.tabId);
+  const { files, ref, locator, selector, coordinate, frameId = 0 } = args;
+  if (!files || files.length === 0) throw new Error('files is required for upload_file');
+
+  const text = await sendToContent(tab.id, 'UPLOAD_FILES', { files, ref, locator, selector, coordinate }, frameId);
+  return {
+    content: [{ type: 'text', text }]
+  };
+}
+
+function describeDownload(item) {
+  return {
+    id: item.id,
+    filename: item.filename,
+    url: item.url,
+    mime: item.mime,
+    state: item.state,
+    ...(item.error ? { error: item.error } : {}),
+    bytesReceived: item.bytesReceived,
+    totalBytes: item.totalBytes,
+    startTime: item.startTime,
+    ...(item.endTime ? { endTime: item.endTime } : {}),
+    exists: item.exists
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function downloadsList(args = {}) {
+  const { limit = 20, state } = args;
+  const query = { orderBy: ['-startTime'], limit };
+  if (state) query.state = state;
+  const items = await browser.downloads.search(query);
+  return {
+    content: [{ type: 'text', text: JSON.stringify(items.map(describeDownload), null, 2) }]
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function downloadsGet(args) {
+  const [item] = await browser.downloads.search({ id: args.id });
+  if (!item) throw new Error(`No download ${args.id} - see downloads_list`);
+  return {
+    content: [{ type: 'text', text: JSON.stringify(describeDownload(item)) }]
+  };
+}
+
+// Resolves with the download once it completes: args.id, or else the newest
+// download started since args.since. Fails if it is interrupted.
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function downloadsWait(args, ctx) {
+  const { id, timeout = DOWNLOAD_WAIT_TIMEOUT_MS } = args;
+  const since = args.since ? new Date(args.since) : new Date(Date.now() - RECENT_DOWNLOAD_MS);
+  if (Number.isNaN(since.getTime())) throw new Error(`Invalid since time: ${args.since}`);
+
+  const find = async () => {
+    const query = id !== undefined
+      ? { id }
+      : { startedAfter: since.toISOString(), orderBy: ['-startTime'], limit: 1 };
+    const [item] = await browser.downloads.search(query);
+    return item;
+  };
+
+  const item = await new Promise((resolve, reject) => {
+    let timer = null;
+    const finish = (error, result) => {
+      clearTimeout(timer);
+      browser.downloads.onCreated.removeListener(check);
+      browser.downloads.onChanged.removeListener(check);
+      ctx.signal.removeEventListener('abort', aborted);
+      if (error) reject(error);
+      else resolve(result);
+    };
+    const aborted = () => finish(new Error('Request cancelled'));
+    const check = () => {
+      find().then((found) => {
+        if (!found) return;
+        if (found.state === 'complete') finish(null, found);
+        else if (found.state === 'interrupted') finish(new Error(`Download ${found.id} failed: ${found.error}`));
+        else ctx.progress(found.bytesReceived, found.totalBytes > 0 ? found.totalBytes : undefined, found.filename);
+      }, (error) => finish(error));
+    };
+
+    browser.downloads.onCreated.addListener(check);
+    browser.downloads.onChanged.addListener(check);
+    ctx.signal.addEventListener('abort', aborted);
+    timer = setTimeout(() => {
+      const what = id !== undefined ? `Download ${id} did not finish` : `No download finished`;
+      finish(new Error(`${what} within ${timeout}ms`));
+    }, timeout);
+    check();
+  });
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(describeDownload(item)) }]
+  };
+}
@@ -0,0 +1,296 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Network activity capture (background)
+// Records webRequest activity per tab; the host turns entries into summaries or HAR
+
+const NETWORK_DEFAULT_MAX_ENTRIES = 1000;
+const NETWORK_MAX_BODY_BYTES = 256 * 1024;
+
+// tabId -> capture { options, entries: Map<requestId, entry>, recording, listeners }
+const networkCaptures = new Map();
+
+// tabId -> Map<requestId, url> of the requests still running, kept whether or
+// not the tab is captured, so a wait for network idle sees requests that
+// started before it
+const networkInFlight = new Map();
+// Called whenever a request starts or ends
+const networkInFlightWatchers = new Set();
+
+// "*.example.com/api/*" style globs matching the whole URL, or "/regex/flags"
+function compileUrlPattern(pattern) {
+  if (!pattern) return null;
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) return new RegExp(regex[1], regex[2]);
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+function headerList(headers = []) {
+  return headers.map(h => ({ name: h.name, value: h.value ?? '' }));
+}
+
+function isTextMime(mimeType = '') {
+  return /^text\/|json|javascript|xml|html|css|x-www-form-urlencoded|svg/.test(mimeType);
+}
+
+function encodeBody(bytes, mimeType) {
+  if (isTextMime(mimeType)) {
+    return { text: new TextDecoder().decode(bytes) };
+  }
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return { text: btoa(binary), encoding: 'base64' };
+}
+
+function requestBodyOf(details) {
+  const body = details.requestBody;
+  if (!body) return undefined;
+  if (body.formData) {
+    return {
+      mimeType: 'application/x-www-form-urlencoded',
+      params: Object.entries(body.formData).flatMap(([name, values]) => values.map(value => ({ name, value })))
+    };
+  }
+  if (body.raw) {
+    const bytes = body.raw.filter(part => part.bytes).map(part => new Uint8Array(part.bytes));
+    const total = bytes.reduce((n, b) => n + b.length, 0);
+    const joined = new Uint8Array(Math.min(total, NETWORK_MAX_BODY_BYTES));
+    let offset = 0;
+    for (const b of bytes) {
+      if (offset >= joined.length) break;
+      joined.set(b.subarray(0, joined.length - offset), offset);
+      offset += b.length;
+    }
+    return { mimeType: '', text: new TextDecoder().decode(joined), truncated: total > joined.length };
+  }
+  return undefined;
+}
+
+// Stream the response body through unchanged, keeping a capped copy
+function captureResponseBody(capture, requestId) {
+  let filter;
+  try {
+    filter = browser.webRequest.filterResponseData(requestId);
+  } catch {
+    return;
+  }
+
+  const chunks = [];
+  let size = 0;
+
+  filter.ondata = (event) => {
+    const chunk = new Uint8Array(event.data);
+    if (size < NETWORK_MAX_BODY_BYTES) chunks.push(chunk.subarray(0, NETWORK_MAX_BODY_BYTES - size));
+    size += chunk.length;
+    filter.write(event.data);
+  };
+
+  const finish = () => {
+    filter.disconnect();
+    const entry = capture.entries.get(requestId);
+    if (!entry) return;
+    const kept = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (const c of chunks) {
+      kept.set(c, offset);
+      offset += c.length;
+    }
+    entry.responseBody = { ...encodeBody(kept, entry.mimeType), size, truncated: size > kept.length };
+  };
+  filter.onstop = finish;
+  filter.onerror = () => filter.disconnect();
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+function networkStart(tabId, options) {
+  networkStop(tabId);
+
+  const capture = {
+    options,
+    urlRegex: compileUrlPattern(options.urlPattern),
+    entries: new Map(),
+    recording: true,
+    startedAt: new Date().toISOString(),
+    listeners: []
+  };
+  networkCaptures.set(tabId, capture);
+
+  const filter = { urls: ['<all_urls>'], tabId };
+  if (options.types && options.types.length > 0) filter.types = options.types;
+
+  const on = (event, listener, extra) => {
+    if (extra) event.addListener(listener, filter, extra);
+    else event.addListener(listener, filter);
+    capture.listeners.push([event, listener]);
+  };
+
+  on(browser.webRequest.onBeforeRequest, (details) => {
+    if (capture.urlRegex && !capture.urlRegex.test(details.url)) return;
+
+    // Oldest entries make room for new ones
+    const max = options.maxEntries || NETWORK_DEFAULT_MAX_ENTRIES;
+    while (capture.entries.size >= max) {
+      capture.entries.delete(capture.entries.keys().next().value);
+    }
+
+    capture.entries.set(details.requestId, {
+      requestId: details.requestId,
+      url: details.url,
+      method: details.method,
+      type: details.type,
+      frameId: details.frameId,
+      startedDateTime: new Date(details.timeStamp).toISOString(),
+      timestamps: { start: details.timeStamp },
+      requestBody: requestBodyOf(details)
+    });
+
+    if (options.includeBodies) captureResponseBody(capture, details.requestId);
+  }, options.includeBodies ? ['requestBody', 'blocking'] : ['requestBody']);
+
+  on(browser.webRequest.onSendHeaders, (details) => {
+    const entry = capture.entries.get(details.requestId);
+    if (!entry) return;
+    entry.requestHeaders = headerList(details.requestHeaders);
+    entry.timestamps.sent = details.timeStamp;
+  }, ['requestHeaders']);
+
+  on(browser.webRequest.onHeadersReceived, (details) => {
+    const entry = capture.entries.get(details.requestId);
+    if (!entry) return;
+    entry.status = details.statusCode;
+    entry.statusLine = details.statusLine;
+    entry.responseHeaders = headerList(details.responseHeaders);
+    const contentType = entry.responseHeaders.find(h => h.name.toLowerCase() === 'content-type');
+    entry.mimeType = contentType ? contentType.value.split(';')[0].trim() : '';
+    entry.timestamps.headers = details.timeStamp;
+  }, ['responseHeaders']);
+
+  on(browser.webRequest.onBeforeRedirect, (details) => {
+    const entry = capture.entries.get(details.requestId);
+    if (!entry) return;
+    entry.redirectURL = details.redirectUrl;
+    entry.status = details.statusCode;
+    entry.timestamps.end = details.timeStamp;
+    // The redirected request reuses the requestId; keep this hop as its own entry
+    capture.entries.delete(details.requestId);
+    capture.entries.set(`${details.requestId}:${details.timeStamp}`, entry);
+  });
+
+  on(browser.webRequest.onCompleted, (details) => {
+    const entry = capture.entries.get(details.requestId);
+    if (!entry) return;
+    entry.status = details.statusCode;
+    entry.fromCache = details.fromCache;
+    entry.serverIPAddress = details.ip;
+    entry.responseSize = details.responseSize;
+    entry.timestamps.end = details.timeStamp;
+  });
+
+  on(browser.webRequest.onErrorOccurred, (details) => {
+    const entry = capture.entries.get(details.requestId);
+    if (!entry) return;
+    entry.error = details.error;
+    entry.timestamps.end = details.timeStamp;
+  });
+
+  return capture;
+}
+
+function networkStop(tabId) {
+  const capture = networkCaptures.get(tabId);
+  if (!capture || !capture.recording) return capture;
+  for (const [event, listener] of capture.listeners) event.removeListener(listener);
+  capture.listeners = [];
+  capture.recording = false;
+  capture.stoppedAt = new Date().toISOString();
+  return capture;
+}
+
+// Entries filtered for network_get; bodies are only included when asked for
+// deno-lint-ignore no-unused-vars -- called from background.js
+function networkEntries(tabId, { urlPattern, types, offset = 0, limit = 100, includeBodies = false } = {}) {
+  const capture = networkCaptures.get(tabId);
+  if (!capture) throw new Error(`No network capture for tab ${tabId} - call network_start first`);
+
+  const urlRegex = compileUrlPattern(urlPattern);
+  const matching = [...capture.entries.values()].filter(entry =>
+    (!urlRegex || urlRegex.test(entry.url)) &&
+    (!types || types.length === 0 || types.includes(entry.type))
+  );
+
+  const entries = matching.slice(offset, offset + limit).map(entry => {
+    if (includeBodies) return entry;
+    const { requestBody: _requestBody, responseBody: _responseBody, ...rest } = entry;
+    return rest;
+  });
+
+  return {
+    tabId,
+    recording: capture.recording,
+    startedAt: capture.startedAt,
+    stoppedAt: capture.stoppedAt,
+    total: matching.length,
+    offset,
+    entries
+  };
+}
+
+function requestStarted(details) {
+  if (details.tabId < 0) return;
+  if (!networkInFlight.has(details.tabId)) networkInFlight.set(details.tabId, new Map());
+  networkInFlight.get(details.tabId).set(details.requestId, details.url);
+  for (const watcher of networkInFlightWatchers) watcher(details.tabId);
+}
+
+function requestEnded(details) {
+  const requests = networkInFlight.get(details.tabId);
+  if (!requests?.delete(details.requestId)) return;
+  if (requests.size === 0) networkInFlight.delete(details.tabId);
+  for (const watcher of networkInFlightWatchers) watcher(details.tabId);
+}
+
+browser.webRequest.onBeforeRequest.addListener(requestStarted, { urls: ['<all_urls>'] });
+browser.webRequest.onCompleted.addListener(requestEnded, { urls: ['<all_urls>'] });
+browser.webRequest.onErrorOccurred.addListener(requestEnded, { urls: ['<all_urls>'] });
+
+// Resolves true once no request of the tab has been in flight for idleMs, false at the
+// deadline. Requests already running when the wait starts count too.
+// deno-lint-ignore no-unused-vars -- called from wait.js
+function waitForNetworkIdle(tabId, idleMs, deadline, signal) {
+  return new Promise((resolve) => {
+    const inFlight = () => [...(networkInFlight.get(tabId)?.values() ?? [])];
+    let idleTimer = null;
+    let deadlineTimer = null;
+
+    const finish = (met) => {
+      clearTimeout(idleTimer);
+      clearTimeout(deadlineTimer);
+      networkInFlightWatchers.delete(changed);
+      signal.removeEventListener('abort', aborted);
+      resolve({ met, inFlight: inFlight() });
+    };
+    const aborted = () => finish(false);
+
+    const armIdle = () => {
+      clearTimeout(idleTimer);
+      if (!networkInFlight.has(tabId)) idleTimer = setTimeout(() => finish(true), idleMs);
+    };
+    const changed = (changedTabId) => {
+      if (changedTabId === tabId) armIdle();
+    };
+
+    networkInFlightWatchers.add(changed);
+    signal.addEventListener('abort', aborted);
+
+    deadlineTimer = setTimeout(() => finish(false), Math.max(0, deadline - Date.now()));
+    armIdle();
+  });
+}
+
+// Drop captures for tabs that no longer exist
+browser.tabs.onRemoved.addListener((tabId) => {
+  networkStop(tabId);
+  networkCaptures.delete(tabId);
+  networkInFlight.delete(tabId);
+});
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Preferences page
+
+const form = document.getElementById('pairing');
+const input = document.getElementById('secret');
+const status = document.getElementById('status');
+
+browser.storage.local.get('pairingSecret').then(({ pairingSecret }) => {
+  status.textContent = pairingSecret ? 'Paired.' : 'Not paired.';
+});
+
+form.addEventListener('submit', async (event) => {
+  event.preventDefault();
+  const pairingSecret = input.value.trim();
+  if (!/^[0-9a-f]{64}$/.test(pairingSecret)) {
+    status.textContent = 'That does not look like a pairing secret (64 hex characters).';
+    return;
+  }
+  await browser.storage.local.set({ pairingSecret });
+  input.value = '';
+  status.textContent = 'Saved. Reconnecting...';
+});
+
+const profileForm = document.getElementById('profile');
+const profileInput = document.getElementById('profile-name');
+
+browser.storage.local.get('profileName').then(({ profileName }) => {
+  profileInput.value = profileName || '';
+});
+
+profileForm.addEventListener('submit', async (event) => {
+  event.preventDefault();
+  await browser.storage.local.set({ profileName: profileInput.value.trim() });
+});
+
+const transportForm = document.getElementById('transport');
+const transportSelect = document.getElementById('transport-name');
+
+browser.storage.local.get('transport').then(({ transport }) => {
+  transportSelect.value = transport || 'websocket';
+});
+
+transportForm.addEventListener('submit', async (event) => {
+  event.preventDefault();
+  await browser.storage.local.set({ transport: transportSelect.value });
+});
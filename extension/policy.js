@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Confirmation prompts (background)
+// For "confirm" rules the host's policy engine (host/policy.ts) waits for the
+// user's answer in the browser action popup.
+
+const POLICY_POPUP = '/popup/confirm.html';
+const pendingConfirmations = new Map(); // id -> { details, finish }
+let nextConfirmationId = 1;
+let confirmationWindowId = null;
+
+function updateConfirmationBadge() {
+  const count = pendingConfirmations.size;
+  browser.browserAction.setPopup({ popup: count > 0 ? POLICY_POPUP : '' });
+  browser.browserAction.setBadgeText({ text: count > 0 ? String(count) : '' });
+  browser.browserAction.setBadgeBackgroundColor({ color: '#f59e0b' });
+  browser.runtime.sendMessage({ type: 'POLICY_CHANGED' }).catch(() => {
+    // No popup open
+  });
+}
+
+// openPopup needs a user gesture in most Firefox versions; a popup window does not
+async function showConfirmations() {
+  try {
+    await browser.browserAction.openPopup();
+    return;
+  } catch {
+    // Fall through to a window
+  }
+  if (confirmationWindowId !== null) {
+    try {
+      await browser.windows.update(confirmationWindowId, { focused: true });
+      return;
+    } catch {
+      confirmationWindowId = null;
+    }
+  }
+  const created = await browser.windows.create({ url: POLICY_POPUP, type: 'popup', width: 460, height: 360 });
+  confirmationWindowId = created.id;
+}
+
+browser.windows.onRemoved.addListener((windowId) => {
+  if (windowId === confirmationWindowId) confirmationWindowId = null;
+});
+
+// Resolves with { approved, reason } once the user answers, or unapproved on timeout/cancel
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function confirmAction(args, ctx) {
+  const { tool, origin, reason, summary, timeout = 60000 } = args;
+  const id = nextConfirmationId++;
+
+  const answer = await new Promise((resolve) => {
+    const finish = (result) => {
+      if (!pendingConfirmations.has(id)) return;
+      pendingConfirmations.delete(id);
+      clearTimeout(timer);
+      ctx.signal.removeEventListener('abort', aborted);
+      updateConfirmationBadge();
+      resolve(result);
+    };
+    const aborted = () => finish({ approved: false, reason: 'request cancelled' });
+    const timer = setTimeout(() => finish({ approved: false, reason: `no answer within ${Math.round(timeout / 1000)}s` }), timeout);
+
+    ctx.signal.addEventListener('abort', aborted);
+    pendingConfirmations.set(id, {
+      details: { id, tool, origin, reason, summary, expires: Date.now() + timeout },
+      finish
+    });
+    updateConfirmationBadge();
+    showConfirmations().catch(e => console.error('[MCP] Could not show confirmation prompt:', e));
+  });
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(answer) }]
+  };
+}
+
+// The popup lists pending prompts and sends back the user's answers
+browser.runtime.onMessage.addListener((message, sender) => {
+  // Only the prompt page may answer; content scripts must not approve their own actions
+  if (!sender.url || !sender.url.startsWith(browser.runtime.getURL(POLICY_POPUP))) return;
+  if (message.type === 'POLICY_PENDING') {
+    return Promise.resolve([...pendingConfirmations.values()].map(p => p.details));
+  }
+  if (message.type === 'POLICY_ANSWER') {
+    const pending = pendingConfirmations.get(message.id);
+    if (pending) {
+      pending.finish({ approved: !!message.approved, reason: message.approved ? 'approved by the user' : 'declined by the user' });
+    }
+  }
+});
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Confirmation prompts for "confirm" policy rules
+
+const promptsEl = document.getElementById('prompts');
+const emptyEl = document.getElementById('empty');
+const template = document.getElementById('prompt');
+let shownAny = false;
+
+async function render() {
+  const pending = await browser.runtime.sendMessage({ type: 'POLICY_PENDING' });
+  promptsEl.textContent = '';
+  emptyEl.hidden = pending.length > 0;
+
+  // Close the popup (or prompt window) once everything shown has been answered
+  if (pending.length === 0 && shownAny) {
+    globalThis.close();
+    return;
+  }
+  shownAny = shownAny || pending.length > 0;
+
+  for (const prompt of pending) {
+    const node = template.content.cloneNode(true);
+    node.querySelector('.tool').textContent = prompt.tool;
+    node.querySelector('.origin').textContent = prompt.origin || 'the browser';
+    node.querySelector('.reason').textContent = prompt.reason;
+    node.querySelector('.summary').textContent = prompt.summary;
+    node.querySelector('.expires').textContent =
+      `Denied automatically in ${Math.max(0, Math.round((prompt.expires - Date.now()) / 1000))}s`;
+    node.querySelector('.allow').addEventListener('click', () => answer(prompt.id, true));
+    node.querySelector('.deny').addEventListener('click', () => answer(prompt.id, false));
+    promptsEl.appendChild(node);
+  }
+}
+
+function answer(id, approved) {
+  browser.runtime.sendMessage({ type: 'POLICY_ANSWER', id, approved });
+}
+
+browser.runtime.onMessage.addListener((message) => {
+  if (message.type === 'POLICY_CHANGED') render();
+});
+
+render();
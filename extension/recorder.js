@@ -0,0 +1,113 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Interaction recording (background)
+// Once connected, the browser action toggles recording of the active tab.
+// content/recorder.js records clicks, typing and selects; this adds the
+// navigations the user makes (typed URLs, bookmarks, reloads, back/forward) and
+// hands the finished recording to the host with recording/finished, which saves
+// it as JSON and as a TypeScript script of tool calls (host/recording.ts).
+
+// Navigations the user started from the browser UI; link clicks and form
+// submissions follow from recorded steps
+const RECORDED_TRANSITIONS = new Set(['typed', 'auto_bookmark', 'keyword', 'generated', 'reload']);
+
+let activeRecording = null; // { tabId, startedAt, url, steps: [{ tool, arguments, redacted? }] }
+let lastRecording = null;
+
+function showRecordingBadge(tabId) {
+  // Per tab, so the confirmation count keeps the global badge
+  browser.browserAction.setBadgeText({ tabId, text: 'REC' });
+  browser.browserAction.setBadgeBackgroundColor({ tabId, color: '#dc2626' });
+}
+
+// Tell the tab's recorder to start or stop. Stopping answers with the steps it
+// still held (text typed into a field that has not lost focus yet).
+async function setRecorderState(tabId, recording) {
+  try {
+    return await browser.tabs.sendMessage(tabId, { type: 'RECORDER_STATE', recording }, { frameId: 0 });
+  } catch {
+    if (!recording) return null;
+    // Tabs opened before the extension loaded have no recorder yet; once
+    // injected it asks for the state with RECORDER_QUERY
+    for (const file of CONTENT_SCRIPTS) {
+      await browser.tabs.executeScript(tabId, { file, runAt: 'document_end' });
+    }
+    return null;
+  }
+}
+
+async function startRecording(tab) {
+  activeRecording = {
+    tabId: tab.id,
+    startedAt: new Date().toISOString(),
+    url: tab.url,
+    steps: [{ tool: 'navigate', arguments: { url: tab.url } }]
+  };
+  showRecordingBadge(tab.id);
+  console.log('[MCP] Recording tab', tab.id);
+  try {
+    await setRecorderState(tab.id, true);
+  } catch (e) {
+    // Pages without content scripts (about:, addons.mozilla.org) still record navigations
+    console.error('[MCP] Could not start the recorder in the page:', e.message);
+  }
+}
+
+async function stopRecording() {
+  const recording = activeRecording;
+  activeRecording = null;
+  const answer = await setRecorderState(recording.tabId, false);
+  browser.browserAction.setBadgeText({ tabId: recording.tabId, text: null }).catch(() => {
+    // Tab already closed
+  });
+
+  lastRecording = {
+    version: 1,
+    startedAt: recording.startedAt,
+    finishedAt: new Date().toISOString(),
+    url: recording.url,
+    steps: [...recording.steps, ...(answer?.steps || [])]
+  };
+  console.log(`[MCP] Recorded ${lastRecording.steps.length} steps`);
+  send({ jsonrpc: '2.0', method: 'recording/finished', params: lastRecording });
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+function toggleRecording(tab) {
+  const toggled = activeRecording ? stopRecording() : startRecording(tab);
+  toggled.catch(e => console.error('[MCP] Recording failed:', e));
+}
+
+browser.runtime.onMessage.addListener((message, sender) => {
+  if (message.type === 'RECORDER_QUERY') {
+    return Promise.resolve({ recording: !!activeRecording && activeRecording.tabId === sender.tab?.id });
+  }
+  if (message.type === 'RECORDED_STEP' && activeRecording &&
+      sender.tab?.id === activeRecording.tabId && sender.frameId === 0) {
+    activeRecording.steps.push(message.step);
+  }
+});
+
+browser.webNavigation.onCommitted.addListener(({ tabId, frameId, url, transitionType, transitionQualifiers }) => {
+  if (!activeRecording || tabId !== activeRecording.tabId || frameId !== 0) return;
+  showRecordingBadge(tabId);
+  if (RECORDED_TRANSITIONS.has(transitionType) || transitionQualifiers.includes('forward_back')) {
+    activeRecording.steps.push({ tool: 'navigate', arguments: { url } });
+  }
+});
+
+browser.tabs.onRemoved.addListener((tabId) => {
+  if (activeRecording?.tabId === tabId) {
+    stopRecording().catch(e => console.error('[MCP] Recording failed:', e));
+  }
+});
+
+// The last finished recording, for the host's recording_get
+// deno-lint-ignore no-unused-vars -- called from background.js
+function recordingGet() {
+  if (!lastRecording) {
+    return Promise.reject(new Error('Nothing recorded yet - click the toolbar button to start and stop recording'));
+  }
+  return Promise.resolve({
+    content: [{ type: 'text', text: JSON.stringify(lastRecording) }]
+  });
+}
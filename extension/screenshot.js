@@ -0,0 +1,148 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Screenshots (background)
+// Viewport, full-page, element and rectangle captures through tabs.captureTab's
+// rect/scale options. Tall captures are taken in tiles and stitched on a canvas,
+// which also encodes WebP (captureTab only produces PNG and JPEG).
+
+const SCREENSHOT_MAX_TILE_PX = 4096;
+const SCREENSHOT_MAX_HEIGHT_PX = 16384;
+const SCREENSHOT_FORMATS = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+function loadImage(dataUrl) {
+  const img = new Image();
+  img.src = dataUrl;
+  return img.decode().then(() => img);
+}
+
+// Region to capture in page (document) CSS pixels
+function screenshotRegion(args, geometry) {
+  const { scrollX, scrollY, viewportWidth, viewportHeight, pageWidth, pageHeight } = geometry;
+  let region;
+  let label;
+
+  if (geometry.elementRect) {
+    region = { ...geometry.elementRect };
+    label = geometry.element;
+  } else if (args.rect) {
+    const [x, y, width, height] = args.rect;
+    if (!(width > 0 && height > 0)) throw new Error('rect must be [x, y, width, height] with a positive size');
+    // rect uses viewport coordinates, like click
+    region = { x: x + scrollX, y: y + scrollY, width, height };
+    label = 'rect';
+  } else if (args.fullPage) {
+    region = { x: 0, y: 0, width: pageWidth, height: pageHeight };
+    label = 'full page';
+  } else {
+    region = { x: scrollX, y: scrollY, width: viewportWidth, height: viewportHeight };
+    label = 'viewport';
+  }
+
+  // Keep the region on the page
+  const x = Math.max(0, Math.floor(region.x));
+  const y = Math.max(0, Math.floor(region.y));
+  return {
+    label,
+    region: {
+      x,
+      y,
+      width: Math.max(1, Math.min(Math.ceil(region.x + region.width), Math.max(pageWidth, viewportWidth)) - x),
+      height: Math.max(1, Math.min(Math.ceil(region.y + region.height), Math.max(pageHeight, viewportHeight)) - y)
+    }
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function takeScreenshot(args = {}) {
+  const { format = 'png', quality = 80, maxWidth, fullPage, ref, selector, rect } = args;
+  if (!SCREENSHOT_FORMATS[format]) {
+    throw new Error(`Unknown screenshot format "${format}". Use ${Object.keys(SCREENSHOT_FORMATS).join(', ')}`);
+  }
+  if ([fullPage, ref || selector, rect].filter(Boolean).length > 1) {
+    throw new Error('Use only one of fullPage, ref/selector or rect');
+  }
+
+  const tab = await getTab(args.tabId);
+  let geometry;
+  try {
+    geometry = await sendToContent(tab.id, 'GEOMETRY', { ref, selector });
+  } catch (error) {
+    // Pages without content scripts (about:, addons.mozilla.org) still get a plain viewport capture
+    if (fullPage || ref || selector || rect || maxWidth || format === 'webp') throw error;
+    const dataUrl = await browser.tabs.captureTab(tab.id, { format, quality });
+    return {
+      content: [{
+        type: 'image',
+        data: dataUrl.replace(/^data:image\/\w+;base64,/, ''),
+        mimeType: SCREENSHOT_FORMATS[format]
+      }]
+    };
+  }
+  const { label, region } = screenshotRegion(args, geometry);
+
+  // Image pixels per CSS pixel: device resolution, reduced to fit maxWidth
+  let scale = geometry.devicePixelRatio;
+  if (maxWidth && region.width * scale > maxWidth) scale = maxWidth / region.width;
+
+  let truncated = false;
+  if (region.height * scale > SCREENSHOT_MAX_HEIGHT_PX) {
+    region.height = Math.floor(SCREENSHOT_MAX_HEIGHT_PX / scale);
+    truncated = true;
+  }
+
+  const width = Math.round(region.width * scale);
+  const height = Math.round(region.height * scale);
+  const tileHeight = Math.floor(SCREENSHOT_MAX_TILE_PX / scale);
+
+  let dataUrl;
+  if (region.height <= tileHeight && format !== 'webp') {
+    dataUrl = await browser.tabs.captureTab(tab.id, { format, quality, rect: region, scale });
+  } else {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+
+    for (let top = 0; top < region.height; top += tileHeight) {
+      const tile = { x: region.x, y: region.y + top, width: region.width, height: Math.min(tileHeight, region.height - top) };
+      const img = await loadImage(await browser.tabs.captureTab(tab.id, { format: 'png', rect: tile, scale }));
+      context.drawImage(img, 0, Math.round(top * scale), width, Math.round(tile.height * scale));
+    }
+    dataUrl = canvas.toDataURL(SCREENSHOT_FORMATS[format], quality / 100);
+  }
+  // Canvas falls back to PNG for formats it cannot encode
+  const mimeType = dataUrl.slice(5, dataUrl.indexOf(';'));
+
+  // Image pixel (ix, iy) -> click coordinate (viewport CSS pixels)
+  const offsetX = region.x - geometry.scrollX;
+  const offsetY = region.y - geometry.scrollY;
+  const factor = +(1 / scale).toFixed(4);
+  const mapping = {
+    image: { width, height, mimeType },
+    region,
+    scale: +scale.toFixed(4),
+    devicePixelRatio: geometry.devicePixelRatio,
+    viewport: {
+      scrollX: geometry.scrollX,
+      scrollY: geometry.scrollY,
+      width: geometry.viewportWidth,
+      height: geometry.viewportHeight
+    },
+    toClick: { factor, offsetX, offsetY },
+    ...(truncated ? { truncated: true } : {})
+  };
+
+  const note = `${label} screenshot, ${width}x${height} ${mimeType}${truncated ? ' (truncated)' : ''}. ` +
+    `Image point (ix, iy) is click coordinate [ix * ${factor} + ${offsetX}, iy * ${factor} + ${offsetY}]; ` +
+    `results outside the ${geometry.viewportWidth}x${geometry.viewportHeight} viewport need a scroll first.`;
+
+  return {
+    content: [
+      {
+        type: 'image',
+        data: dataUrl.replace(/^data:image\/\w+;base64,/, ''),
+        mimeType
+      },
+      { type: 'text', text: `${note}\n${JSON.stringify(mapping)}` }
+    ]
+  };
+}
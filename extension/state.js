@@ -0,0 +1,221 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Cookies, Web Storage and saved site state (background)
+// cookies_* use browser.cookies; storage_* run in a tab of the origin through the
+// content script. state_export/state_import combine both; the host reads and
+// writes the JSON file.
+
+const STATE_VERSION = 1;
+
+function originOf(url) {
+  try {
+    return new URL(url).origin;
+  } catch {
+    throw new Error(`Invalid URL or origin: ${url}`);
+  }
+}
+
+// The URL a cookie is sent to, as cookies.set needs one
+function cookieUrl(cookie) {
+  const host = cookie.domain.replace(/^\./, '');
+  return `http${cookie.secure ? 's' : ''}://${host}${cookie.path || '/'}`;
+}
+
+// Firefox before 94 rejects partitionKey; retry without it there
+async function withPartitionKey(call, details) {
+  try {
+    return await call(details);
+  } catch (error) {
+    if (!('partitionKey' in details) || !/partitionKey/.test(error.message)) throw error;
+    const { partitionKey: _partitionKey, ...rest } = details;
+    return await call(rest);
+  }
+}
+
+function cookieQuery(args) {
+  const { url, domain, name, path, storeId, partitionKey } = args;
+  if (!url && !domain) throw new Error('url or domain is required');
+  const query = {};
+  if (url) query.url = url;
+  if (domain) query.domain = domain;
+  if (name) query.name = name;
+  if (path) query.path = path;
+  if (storeId) query.storeId = storeId;
+  // {} matches unpartitioned and every partition
+  query.partitionKey = partitionKey || {};
+  return query;
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function cookiesGet(args = {}) {
+  const cookies = await withPartitionKey(d => browser.cookies.getAll(d), cookieQuery(args));
+  return {
+    content: [{ type: 'text', text: JSON.stringify(cookies, null, 2) }]
+  };
+}
+
+function cookieDetails(cookie) {
+  const details = {
+    url: cookie.url || cookieUrl(cookie),
+    name: cookie.name,
+    value: cookie.value ?? ''
+  };
+  // Host-only cookies must not be given a domain
+  if (cookie.domain && !cookie.hostOnly) details.domain = cookie.domain;
+  for (const key of ['path', 'secure', 'httpOnly', 'sameSite', 'expirationDate', 'storeId', 'firstPartyDomain', 'partitionKey']) {
+    if (cookie[key] !== undefined && cookie[key] !== null) details[key] = cookie[key];
+  }
+  if (cookie.session) delete details.expirationDate;
+  return details;
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function cookiesSet(args = {}) {
+  if (!args.name) throw new Error('name is required');
+  if (!args.url && !args.domain) throw new Error('url or domain is required');
+  const cookie = await withPartitionKey(d => browser.cookies.set(d), cookieDetails(args));
+  if (!cookie) throw new Error(`Cookie ${args.name} was rejected`);
+  return {
+    content: [{ type: 'text', text: `Set cookie ${cookie.name} for ${cookie.domain}${cookie.path}` }]
+  };
+}
+
+// Without a name, deletes every cookie matching url/domain/path
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function cookiesDelete(args = {}) {
+  const cookies = await withPartitionKey(d => browser.cookies.getAll(d), cookieQuery(args));
+  for (const cookie of cookies) {
+    const details = { url: cookieUrl(cookie), name: cookie.name, storeId: cookie.storeId };
+    if (cookie.firstPartyDomain) details.firstPartyDomain = cookie.firstPartyDomain;
+    if (cookie.partitionKey) details.partitionKey = cookie.partitionKey;
+    await withPartitionKey(d => browser.cookies.remove(d), details);
+  }
+  return {
+    content: [{ type: 'text', text: `Deleted ${cookies.length} cookie(s)` }]
+  };
+}
+
+// A tab showing the origin: the given tab, an open tab of the origin, or the active
+// tab. Local storage may use a temporary background tab; session storage cannot.
+async function tabForOrigin(origin, tabId, allowTemporary) {
+  if (tabId || !origin) {
+    const tab = await getTab(tabId);
+    if (origin && originOf(tab.url) !== origin) {
+      throw new Error(`Tab ${tab.id} shows ${originOf(tab.url)}, not ${origin}`);
+    }
+    return { tab, temporary: false };
+  }
+
+  const tabs = await browser.tabs.query(sessionTabQuery({}));
+  const matching = tabs.filter(t => t.url && (t.url.startsWith(origin + '/') || t.url === origin));
+  const tab = matching.find(t => t.active) || matching[0];
+  if (tab) return { tab, temporary: false };
+
+  if (!allowTemporary) throw new Error(`No open tab on ${origin} - session storage belongs to a tab, open one first`);
+  const created = await browser.tabs.create({
+    url: origin,
+    active: false,
+    ...(sessionWindowId !== null ? { windowId: sessionWindowId } : {})
+  });
+  await waitForLoad(created.id, 15000);
+  return { tab: created, temporary: true };
+}
+
+async function withOriginTab(args, area, callback) {
+  const origin = args.origin ? originOf(args.origin) : null;
+  const { tab, temporary } = await tabForOrigin(origin, args.tabId, area === 'local');
+  try {
+    return await callback(tab);
+  } finally {
+    if (temporary) await browser.tabs.remove(tab.id).catch(() => {});
+  }
+}
+
+function storageArea(area = 'local') {
+  if (area !== 'local' && area !== 'session') throw new Error(`Unknown storage area "${area}". Use local or session`);
+  return area;
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function storageGet(args = {}) {
+  const area = storageArea(args.area);
+  const result = await withOriginTab(args, area, tab =>
+    sendToContent(tab.id, 'STORAGE', { area, action: 'get', keys: args.keys }));
+  return {
+    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function storageSet(args = {}) {
+  const area = storageArea(args.area);
+  if (!args.items || typeof args.items !== 'object') throw new Error('items must be an object of key/value pairs');
+  const result = await withOriginTab(args, area, tab =>
+    sendToContent(tab.id, 'STORAGE', { area, action: 'set', items: args.items }));
+  return {
+    content: [{ type: 'text', text: `Set ${Object.keys(args.items).length} ${area}Storage item(s) on ${result.origin}` }]
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function storageClear(args = {}) {
+  const area = storageArea(args.area);
+  const result = await withOriginTab(args, area, tab =>
+    sendToContent(tab.id, 'STORAGE', { area, action: 'clear', keys: args.keys }));
+  return {
+    content: [{ type: 'text', text: `Removed ${result.removed} ${area}Storage item(s) on ${result.origin}` }]
+  };
+}
+
+// Cookies sent to the origin plus its local and session storage
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function stateExport(args = {}) {
+  const origin = args.origin ? originOf(args.origin) : originOf((await getTab(args.tabId)).url);
+  const cookies = await withPartitionKey(d => browser.cookies.getAll(d), { url: origin + '/', partitionKey: {} });
+  const storage = await withOriginTab({ ...args, origin }, 'local', async (tab) => ({
+    localStorage: (await sendToContent(tab.id, 'STORAGE', { area: 'local', action: 'get' })).items,
+    sessionStorage: (await sendToContent(tab.id, 'STORAGE', { area: 'session', action: 'get' })).items
+  }));
+
+  const state = {
+    version: STATE_VERSION,
+    origin,
+    exportedAt: new Date().toISOString(),
+    cookies,
+    ...storage
+  };
+  return {
+    content: [{ type: 'text', text: JSON.stringify(state) }]
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function stateImport(args = {}) {
+  const { state } = args;
+  if (!state || state.version !== STATE_VERSION || !state.origin) {
+    throw new Error(`Not a saved state file (expected version ${STATE_VERSION} with an origin)`);
+  }
+
+  let cookieCount = 0;
+  for (const cookie of state.cookies || []) {
+    // Expired cookies would be dropped by the browser anyway
+    if (cookie.expirationDate && cookie.expirationDate * 1000 < Date.now()) continue;
+    await withPartitionKey(d => browser.cookies.set(d), cookieDetails({ ...cookie, storeId: undefined }));
+    cookieCount++;
+  }
+
+  const local = state.localStorage || {};
+  const session = state.sessionStorage || {};
+  const hasSession = Object.keys(session).length > 0;
+  await withOriginTab({ origin: state.origin, tabId: args.tabId }, hasSession ? 'session' : 'local', async (tab) => {
+    await sendToContent(tab.id, 'STORAGE', { area: 'local', action: 'set', items: local });
+    if (hasSession) await sendToContent(tab.id, 'STORAGE', { area: 'session', action: 'set', items: session });
+  });
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Restored ${cookieCount} cookie(s), ${Object.keys(local).length} localStorage and ` +
+        `${Object.keys(session).length} sessionStorage item(s) for ${state.origin}. Reload the page to use them.`
+    }]
+  };
+}
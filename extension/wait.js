@@ -0,0 +1,172 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Wait conditions (background)
+// wait_for and the waitFor argument of navigate/click/type. DOM conditions run in
+// the content script (content/wait.js); URL and network idle are watched here.
+
+const WAIT_DEFAULT_TIMEOUT_MS = 10000;
+const WAIT_PAGE_KEYS = ['selector', 'text', 'domQuiet'];
+
+function hasWaitConditions(conditions) {
+  return ['selector', 'text', 'url', 'networkIdle', 'domQuiet'].some(key => conditions[key] !== undefined);
+}
+
+function describeWaitConditions(conditions) {
+  const parts = [];
+  if (conditions.selector) parts.push(`"${conditions.selector}" ${conditions.state || 'visible'}`);
+  if (conditions.text !== undefined) parts.push(`text "${conditions.text}"`);
+  if (conditions.url) parts.push(`URL ${conditions.url}`);
+  if (conditions.networkIdle) parts.push(`network idle ${conditions.networkIdle}ms`);
+  if (conditions.domQuiet) parts.push(`DOM quiet ${conditions.domQuiet}ms`);
+  return parts.join(', ');
+}
+
+// Resolves { met, url } once the URL matches, or with met false at the deadline
+function waitForUrl(tabId, pattern, deadline, signal) {
+  const regex = compileUrlPattern(pattern);
+
+  return new Promise((resolve) => {
+    let timer = null;
+    let lastUrl = '';
+
+    const finish = (url) => {
+      clearTimeout(timer);
+      browser.tabs.onUpdated.removeListener(listener);
+      signal.removeEventListener('abort', aborted);
+      resolve({ met: url !== null, url: url ?? lastUrl });
+    };
+    const aborted = () => finish(null);
+    const check = (url) => {
+      if (!url) return;
+      lastUrl = url;
+      if (regex.test(url)) finish(url);
+    };
+    const listener = (id, info) => {
+      if (id === tabId) check(info.url);
+    };
+
+    browser.tabs.onUpdated.addListener(listener);
+    signal.addEventListener('abort', aborted);
+    timer = setTimeout(() => finish(null), Math.max(0, deadline - Date.now()));
+    browser.tabs.get(tabId).then(tab => check(tab.url), () => {});
+  });
+}
+
+// The document may be replaced while waiting (navigation); wait again in the new one
+async function waitForPageConditions(tabId, conditions, deadline, signal) {
+  let lastPending = null;
+  while (!signal.aborted) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+    try {
+      const result = await sendToContent(tabId, 'WAIT_FOR', { ...conditions, timeout: remaining });
+      if (result.satisfied) return { met: true, pending: [] };
+      lastPending = result.pending;
+    } catch (error) {
+      if (/selector/i.test(error.message)) throw error; // Invalid selector or state
+      await new Promise(r => setTimeout(r, Math.min(200, Math.max(0, deadline - Date.now()))));
+    }
+  }
+  return {
+    met: false,
+    pending: lastPending || WAIT_PAGE_KEYS
+      .filter(key => conditions[key] !== undefined)
+      .map(key => ({ condition: key, [key]: conditions[key], detail: 'page did not respond' }))
+  };
+}
+
+// Wait until every condition has been met. Returns { satisfied, elapsed, met, pending }.
+async function waitForConditions(tabId, conditions, ctx) {
+  const timeout = conditions.timeout ?? WAIT_DEFAULT_TIMEOUT_MS;
+  const started = Date.now();
+  const deadline = started + timeout;
+  const signal = ctx?.signal || new AbortController().signal;
+
+  const checks = [];
+  if (WAIT_PAGE_KEYS.some(key => conditions[key] !== undefined)) {
+    const page = {};
+    for (const key of [...WAIT_PAGE_KEYS, 'state']) {
+      if (conditions[key] !== undefined) page[key] = conditions[key];
+    }
+    checks.push(waitForPageConditions(tabId, page, deadline, signal).then(result => ({
+      name: describeWaitConditions(page),
+      met: result.met,
+      pending: result.pending
+    })));
+  }
+  if (conditions.url) {
+    checks.push(waitForUrl(tabId, conditions.url, deadline, signal).then(result => ({
+      name: `URL ${conditions.url}`,
+      met: result.met,
+      pending: [{ condition: 'url', url: conditions.url, detail: `current URL is ${result.url}` }]
+    })));
+  }
+  if (conditions.networkIdle) {
+    checks.push(waitForNetworkIdle(tabId, conditions.networkIdle, deadline, signal).then(result => ({
+      name: `network idle ${conditions.networkIdle}ms`,
+      met: result.met,
+      pending: [{
+        condition: 'networkIdle',
+        networkIdle: conditions.networkIdle,
+        detail: `${result.inFlight.length} request(s) in flight`,
+        inFlight: result.inFlight.slice(0, 5)
+      }]
+    })));
+  }
+
+  const results = await Promise.all(checks);
+  return {
+    satisfied: results.every(r => r.met),
+    timeout,
+    elapsed: Date.now() - started,
+    met: results.filter(r => r.met).map(r => r.name),
+    pending: results.filter(r => !r.met).flatMap(r => r.pending)
+  };
+}
+
+// Timeout errors are structured so the agent can see which condition was pending
+function waitTimeoutResult(outcome, prefix = '') {
+  const { satisfied: _satisfied, ...details } = outcome;
+  return {
+    content: [{
+      type: 'text',
+      text: prefix + JSON.stringify({ error: 'timeout', ...details }, null, 2)
+    }],
+    isError: true
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function waitForTool(args, ctx) {
+  const { tabId, ...conditions } = args;
+  if (!hasWaitConditions(conditions)) {
+    throw new Error('wait_for needs at least one of selector, text, url, networkIdle or domQuiet');
+  }
+
+  const tab = await getTab(tabId);
+  const outcome = await waitForConditions(tab.id, conditions, ctx);
+  if (!outcome.satisfied) return waitTimeoutResult(outcome);
+
+  return {
+    content: [{ type: 'text', text: `Waited ${outcome.elapsed}ms for ${describeWaitConditions(conditions)}` }]
+  };
+}
+
+// Apply a tool's waitFor argument after the action itself succeeded
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function withWait(result, tabId, waitFor, ctx) {
+  if (!waitFor) return result;
+  if (!hasWaitConditions(waitFor)) {
+    throw new Error('waitFor needs at least one of selector, text, url, networkIdle or domQuiet');
+  }
+
+  const outcome = await waitForConditions(tabId, waitFor, ctx);
+  const actionText = result.content.map(c => c.text).join('\n');
+  if (!outcome.satisfied) return waitTimeoutResult(outcome, `${actionText}\n`);
+
+  return {
+    content: [{
+      type: 'text',
+      text: `${actionText}\nWaited ${outcome.elapsed}ms for ${describeWaitConditions(waitFor)}`
+    }]
+  };
+}
@@ -0,0 +1,239 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Windows and tabs (background)
+// Lists, opens, closes and sizes browser windows, and activates, moves,
+// duplicates and reloads tabs. A window opened with windows_create
+// (session: true), which the host does on connect for --window=dedicated, is
+// the session window: calls without a tabId use its active tab, new tabs open
+// in it, and tabs and windows outside it are out of reach, so the session
+// never touches the user's own browsing.
+
+// The session window's id, or null while the session may use every window.
+// It stays set when the user closes the window, so calls fail instead of
+// falling back to the user's windows.
+let sessionWindowId = null;
+
+// How long windows_resize waits for the viewport to take its new size
+const RESIZE_SETTLE_MS = 1000;
+
+// A tabs.query filter kept to the session window, if there is one
+// deno-lint-ignore no-unused-vars -- called from background.js and state.js
+function sessionTabQuery(query) {
+  if (sessionWindowId === null) return query;
+  const { currentWindow: _current, ...rest } = query;
+  return { ...rest, windowId: sessionWindowId };
+}
+
+function checkSessionWindow(windowId, what = `Window ${windowId}`) {
+  if (sessionWindowId !== null && windowId !== sessionWindowId) {
+    throw new Error(`${what} is outside this session's window (${sessionWindowId})`);
+  }
+}
+
+async function requireSessionWindow() {
+  if (sessionWindowId === null) return;
+  try {
+    await browser.windows.get(sessionWindowId);
+  } catch {
+    throw new Error('The session window was closed; open another with windows_create (session: true)');
+  }
+}
+
+// The window a call means: the given one, the session window, or the current one
+async function targetWindowId(windowId) {
+  if (windowId !== undefined) {
+    checkSessionWindow(windowId);
+    return windowId;
+  }
+  if (sessionWindowId !== null) {
+    await requireSessionWindow();
+    return sessionWindowId;
+  }
+  return (await browser.windows.getCurrent()).id;
+}
+
+// The viewport of the window's active tab in CSS pixels, or null where
+// content scripts cannot run (about: pages, addons.mozilla.org)
+async function viewportSize(windowId) {
+  const [tab] = await browser.tabs.query({ active: true, windowId });
+  if (!tab) return null;
+  try {
+    const [size] = await browser.tabs.executeScript(tab.id, { code: '[window.innerWidth, window.innerHeight]' });
+    return { width: size[0], height: size[1] };
+  } catch {
+    return null;
+  }
+}
+
+function describeWindow(win, viewport) {
+  const size = `${win.width}x${win.height} at ${win.left},${win.top}`;
+  return `Window ${win.id} (${win.state}): ${size}${viewport ? `, viewport ${viewport.width}x${viewport.height}` : ''}`;
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function windowsList() {
+  const windows = await browser.windows.getAll({ populate: true, windowTypes: ['normal'] });
+  const listed = windows
+    .filter(w => sessionWindowId === null || w.id === sessionWindowId)
+    .map(w => ({
+      id: w.id,
+      focused: w.focused,
+      state: w.state,
+      incognito: w.incognito,
+      left: w.left,
+      top: w.top,
+      width: w.width,
+      height: w.height,
+      tabs: w.tabs.length,
+      activeTabId: w.tabs.find(t => t.active)?.id,
+      ...(w.id === sessionWindowId ? { session: true } : {})
+    }));
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(listed, null, 2) }]
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function windowsCreate(args = {}) {
+  const { url, width, height, left, top, focused = true, incognito = false, session = false } = args;
+
+  if (sessionWindowId !== null) {
+    if (!session) throw new Error(`This session keeps to window ${sessionWindowId}; only session: true can open another`);
+    const open = await browser.windows.get(sessionWindowId).then(() => true, () => false);
+    if (open) return { content: [{ type: 'text', text: `Session window ${sessionWindowId} is already open` }] };
+  }
+
+  const win = await browser.windows.create({
+    url: url ? (url.includes('://') ? url : 'https://' + url) : 'about:blank',
+    focused,
+    incognito,
+    ...(width !== undefined ? { width } : {}),
+    ...(height !== undefined ? { height } : {}),
+    ...(left !== undefined ? { left } : {}),
+    ...(top !== undefined ? { top } : {})
+  });
+  if (session) sessionWindowId = win.id;
+
+  const tabId = win.tabs?.[0]?.id;
+  return {
+    content: [{
+      type: 'text',
+      text: `Created ${session ? 'session ' : ''}window ${win.id}${tabId !== undefined ? ` with tab ${tabId}` : ''}`
+    }]
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function windowsClose(args = {}) {
+  const windowId = await targetWindowId(args.windowId);
+  await browser.windows.remove(windowId);
+
+  return {
+    content: [{ type: 'text', text: `Closed window ${windowId}` }]
+  };
+}
+
+// Outer size and position, or with viewport: true the page's viewport size,
+// which keeps screenshots the same size from run to run
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function windowsResize(args = {}) {
+  const { width, height, left, top, state, viewport = false } = args;
+  const windowId = await targetWindowId(args.windowId);
+
+  if (state && state !== 'normal') {
+    if ([width, height, left, top].some(value => value !== undefined)) {
+      throw new Error(`A ${state} window has no size or position of its own; leave them out or use state "normal"`);
+    }
+    await browser.windows.update(windowId, { state });
+    return {
+      content: [{ type: 'text', text: `Window ${windowId} is ${state}` }]
+    };
+  }
+
+  const update = { state: 'normal' };
+  if (left !== undefined) update.left = left;
+  if (top !== undefined) update.top = top;
+
+  let target = null;
+  if (viewport && (width !== undefined || height !== undefined)) {
+    const win = await browser.windows.get(windowId);
+    const current = await viewportSize(windowId);
+    if (!current) throw new Error(`Cannot measure the viewport of window ${windowId}; open a web page in its active tab first`);
+    target = { width: width ?? current.width, height: height ?? current.height };
+    update.width = win.width + target.width - current.width;
+    update.height = win.height + target.height - current.height;
+  } else {
+    if (width !== undefined) update.width = width;
+    if (height !== undefined) update.height = height;
+  }
+
+  await browser.windows.update(windowId, update);
+
+  // Firefox resizes after update() resolves; wait until the page sees it
+  let size = await viewportSize(windowId);
+  const deadline = Date.now() + RESIZE_SETTLE_MS;
+  while (target && size && (size.width !== target.width || size.height !== target.height) && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    size = await viewportSize(windowId);
+  }
+
+  const win = await browser.windows.get(windowId);
+  const text = describeWindow(win, size);
+  const missed = target && size && (size.width !== target.width || size.height !== target.height);
+  return {
+    content: [{
+      type: 'text',
+      text: missed ? `${text} (the screen is too small for ${target.width}x${target.height})` : text
+    }]
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function tabsActivate(args = {}) {
+  const tab = await getTab(args.tabId);
+  await browser.tabs.update(tab.id, { active: true });
+  if (args.focusWindow) await browser.windows.update(tab.windowId, { focused: true });
+
+  return {
+    content: [{ type: 'text', text: `Activated tab ${tab.id} in window ${tab.windowId}` }]
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function tabsMove(args = {}) {
+  const { windowId, index = -1 } = args;
+  const tab = await getTab(args.tabId);
+  if (windowId !== undefined) checkSessionWindow(windowId);
+
+  const [moved] = await browser.tabs.move(tab.id, { windowId: windowId ?? tab.windowId, index });
+
+  return {
+    content: [{ type: 'text', text: `Moved tab ${tab.id} to window ${moved.windowId}, position ${moved.index}` }]
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function tabsDuplicate(args = {}) {
+  const { active = true } = args;
+  const tab = await getTab(args.tabId);
+  const copy = await browser.tabs.duplicate(tab.id, { active });
+
+  return {
+    content: [{ type: 'text', text: `Duplicated tab ${tab.id} as tab ${copy.id}` }]
+  };
+}
+
+// deno-lint-ignore no-unused-vars -- called from background.js
+async function tabsReload(args = {}, ctx) {
+  const { bypassCache = false } = args;
+  const tab = await getTab(args.tabId);
+  await browser.tabs.reload(tab.id, { bypassCache });
+  const loaded = await waitForLoad(tab.id, 15000, ctx);
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Reloaded tab ${tab.id}${bypassCache ? ' bypassing the cache' : ''}${loaded ? '' : ' (page still loading after 15s)'}`
+    }]
+  };
+}
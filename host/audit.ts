@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Audit log
+//
+// One JSON object per line, appended to ~/.config/claude-firefox-mcp/audit.jsonl
+// (override with CLAUDE_FIREFOX_MCP_AUDIT_LOG). Policy decisions are recorded
+// whatever their outcome.
+
+import { configDir } from "./auth.ts";
+
+export function auditPath(): string {
+  return Deno.env.get("CLAUDE_FIREFOX_MCP_AUDIT_LOG") ?? `${configDir()}/audit.jsonl`;
+}
+
+// Appends are queued so lines never interleave
+let writes = Promise.resolve();
+let directoryReady = false;
+
+export function audit(event: string, record: Record<string, unknown>): Promise<void> {
+  const path = auditPath();
+  const line = JSON.stringify({ time: new Date().toISOString(), event, ...record }) + "\n";
+  writes = writes.then(async () => {
+    if (!directoryReady) {
+      await Deno.mkdir(path.slice(0, path.lastIndexOf("/")), { recursive: true });
+      directoryReady = true;
+    }
+    await Deno.writeTextFile(path, line, { append: true, mode: 0o600 });
+  }).catch((e) => console.error("[MCP Server] Failed to write audit log:", e));
+  return writes;
+}
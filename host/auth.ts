@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Extension pairing and handshake authentication
+//
+// The server keeps a per-install secret on disk. The extension is given the
+// same secret once (pasted into its preferences page) and must prove it knows
+// it during the WebSocket handshake:
+//
+//   server -> extension  auth/challenge { nonce }
+//   extension -> server  auth/response  { proof: HMAC(secret, "extension:" + nonce), nonce: clientNonce }
+//   server -> extension  auth/accepted  { proof: HMAC(secret, "server:" + clientNonce) }
+//
+// The server proof lets the extension refuse to take orders from a process that
+// merely squats on the port.
+
+export const AUTH_TIMEOUT_MS = 10000;
+export const ALLOWED_ORIGIN_PREFIX = "moz-extension://";
+
+// Close codes in the 4000-4999 private range
+export const CLOSE_AUTH_FAILED = 4001;
+export const CLOSE_AUTH_TIMEOUT = 4002;
+
+export interface AuthChallenge {
+  nonce: string;
+}
+
+export interface AuthResponse {
+  proof: string;
+  nonce: string;
+}
+
+export function configDir(): string {
+  const xdg = Deno.env.get("XDG_CONFIG_HOME");
+  if (xdg) return `${xdg}/claude-firefox-mcp`;
+  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE") ?? ".";
+  return `${home}/.config/claude-firefox-mcp`;
+}
+
+// Path of the pairing secret (override with CLAUDE_FIREFOX_MCP_SECRET_FILE)
+export function secretPath(): string {
+  return Deno.env.get("CLAUDE_FIREFOX_MCP_SECRET_FILE") ?? `${configDir()}/pairing-secret`;
+}
+
+export function randomHex(bytes: number): string {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(buf, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Read the pairing secret, creating it (mode 0600) on first run
+export async function loadOrCreateSecret(): Promise<{ secret: string; created: boolean }> {
+  const path = secretPath();
+
+  try {
+    const secret = (await Deno.readTextFile(path)).trim();
+    if (secret) return { secret, created: false };
+  } catch (e) {
+    if (!(e instanceof Deno.errors.NotFound)) throw e;
+  }
+
+  const secret = randomHex(32);
+  await Deno.mkdir(path.slice(0, path.lastIndexOf("/")), { recursive: true });
+  await Deno.writeTextFile(path, secret + "\n", { mode: 0o600 });
+  return { secret, created: true };
+}
+
+export async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const sig = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(message)));
+  return Array.from(sig, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Constant-time string comparison for proofs
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function createChallenge(): AuthChallenge {
+  return { nonce: randomHex(16) };
+}
+
+// Check the extension's proof; returns the server's counter-proof on success
+export async function verifyResponse(
+  secret: string,
+  challenge: AuthChallenge,
+  response: Partial<AuthResponse> | undefined
+): Promise<string | null> {
+  if (!response || typeof response.proof !== "string" || typeof response.nonce !== "string") {
+    return null;
+  }
+
+  const expected = await hmacHex(secret, "extension:" + challenge.nonce);
+  if (!timingSafeEqual(expected, response.proof)) return null;
+
+  return await hmacHex(secret, "server:" + response.nonce);
+}
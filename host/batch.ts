@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Batches of tool calls
+//
+// batch runs a list of tool calls in one request, so a form fill is one round
+// trip instead of a dozen. A step's arguments can use the previous step's
+// result: a string argument of the form
+//
+//   $prev             the whole result: its text, parsed as JSON if it is JSON
+//   $prev.ref         a field of it; on an array (find, tabs_list) the field of
+//                     the first item, which for find is the best match
+//   $prev[2].ref      an item of an array result, then a field
+//
+// is replaced by that value before the call is checked and made. The calls
+// themselves go through the server like any other (policy, session log).
+
+export interface ToolResult {
+  content?: { type: string; text?: string; data?: string; mimeType?: string }[];
+  isError?: boolean;
+}
+
+export interface StepReport {
+  tool: string;
+  outcome: "ok" | "error" | "denied";
+  durationMs: number;
+  result: ToolResult;
+}
+
+const REFERENCE = /^\$prev((?:\.[A-Za-z_$][\w$]*|\[\d+\])*)$/;
+
+// What $prev stands for: the text of the result, as JSON when it parses
+export function resultValue(result: ToolResult): unknown {
+  const text = result.content?.find((item) => item.type === "text")?.text;
+  if (text === undefined) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function lookup(value: unknown, path: string, reference: string): unknown {
+  let current = value;
+  for (const [, key, index] of path.matchAll(/\.([A-Za-z_$][\w$]*)|\[(\d+)\]/g)) {
+    if (key !== undefined && Array.isArray(current)) current = current[0];
+    const found = current !== null && typeof current === "object"
+      ? (current as Record<string, unknown>)[key ?? index]
+      : undefined;
+    if (found === undefined) throw new Error(`${reference}: the previous result has no ${key ?? `item ${index}`}`);
+    current = found;
+  }
+  if (current === undefined) throw new Error(`${reference}: the previous result has no text`);
+  return current;
+}
+
+// Arguments with $prev references replaced, at any depth
+export function resolveReferences(value: unknown, previous: ToolResult | undefined): unknown {
+  if (typeof value === "string") {
+    const match = value.match(REFERENCE);
+    if (!match) return value;
+    if (!previous) throw new Error(`${value}: there is no previous step`);
+    if (previous.isError) throw new Error(`${value}: the previous step failed`);
+    return lookup(resultValue(previous), match[1], value);
+  }
+  if (Array.isArray(value)) return value.map((item) => resolveReferences(item, previous));
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveReferences(item, previous)])
+    );
+  }
+  return value;
+}
+
+// One result for the whole batch: each step's heading and content, then a
+// summary. It is an error if any step failed.
+export function batchResult(reports: StepReport[], total: number, stopped: boolean): Required<ToolResult> {
+  const content: Required<ToolResult>["content"] = [];
+  reports.forEach((report, i) => {
+    const heading = `[${i + 1}] ${report.tool}: ${report.outcome} (${report.durationMs}ms)`;
+    const [first, ...rest] = report.result.content ?? [];
+    if (first?.type === "text") {
+      content.push({ type: "text", text: `${heading}\n${first.text}` }, ...rest);
+    } else {
+      content.push({ type: "text", text: heading }, ...(first ? [first, ...rest] : []));
+    }
+  });
+
+  const failed = reports.filter((report) => report.outcome !== "ok").length;
+  const summary = [`Ran ${reports.length} of ${total} step(s): ${reports.length - failed} ok, ${failed} failed`];
+  if (stopped) summary.push(`stopped after step ${reports.length}`);
+  content.push({ type: "text", text: summary.join("; ") });
+  return { content, isError: failed > 0 };
+}
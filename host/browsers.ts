@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Registry of connected browser instances
+//
+// Each authenticated extension announces itself with browser/hello. The id is a
+// random value the extension keeps in its profile storage, so it is stable
+// across reconnects and differs between Firefox profiles.
+
+import type { BrowserConnection } from "./transport.ts";
+
+export interface BrowserCapabilities {
+  browser?: string;
+  platform?: string;
+  manifestVersion?: number;
+  // Tools the extension implements; absent from extensions that predate the report
+  tools?: string[];
+  [key: string]: unknown;
+}
+
+export interface BrowserHello {
+  id: string;
+  profile?: string;
+  capabilities?: BrowserCapabilities;
+}
+
+export interface BrowserInstance {
+  id: string;
+  profile: string;
+  capabilities: BrowserCapabilities;
+  connectedAt: string;
+  connection: BrowserConnection;
+}
+
+const browsers = new Map<string, BrowserInstance>();
+
+// Preferred default, matched against id or profile name
+const DEFAULT_BROWSER = Deno.env.get("CLAUDE_FIREFOX_MCP_DEFAULT_BROWSER") ?? "";
+
+// Register a browser; returns the instance it replaced (same id reconnecting), if any
+export function registerBrowser(hello: BrowserHello, connection: BrowserConnection): BrowserInstance | undefined {
+  const previous = browsers.get(hello.id);
+  // Re-insert so a reconnecting browser keeps Map order by connection time
+  browsers.delete(hello.id);
+  browsers.set(hello.id, {
+    id: hello.id,
+    profile: hello.profile || "default",
+    capabilities: hello.capabilities ?? {},
+    connectedAt: new Date().toISOString(),
+    connection
+  });
+  return previous;
+}
+
+// Remove a browser, unless its id has since been taken over by a newer connection
+export function unregisterBrowser(connection: BrowserConnection): BrowserInstance | undefined {
+  for (const instance of browsers.values()) {
+    if (instance.connection === connection) {
+      browsers.delete(instance.id);
+      return instance;
+    }
+  }
+  return undefined;
+}
+
+export function listBrowsers(): BrowserInstance[] {
+  return [...browsers.values()].filter((b) => b.connection.isOpen());
+}
+
+// The configured default if connected, otherwise the longest-connected browser
+export function defaultBrowser(): BrowserInstance | undefined {
+  const open = listBrowsers();
+  return open.find((b) => DEFAULT_BROWSER && (b.id === DEFAULT_BROWSER || b.profile === DEFAULT_BROWSER)) ??
+    open[0];
+}
+
+// Pick the browser a tool call should go to
+export function resolveBrowser(browserId?: string): BrowserInstance {
+  if (browserId) {
+    const instance = browsers.get(browserId);
+    if (!instance || !instance.connection.isOpen()) {
+      const known = listBrowsers().map((b) => `${b.id} (${b.profile})`).join(", ") || "none";
+      throw new Error(`Browser ${browserId} is not connected. Connected browsers: ${known}`);
+    }
+    return instance;
+  }
+
+  const instance = defaultBrowser();
+  if (!instance) {
+    throw new Error("Firefox extension not connected. Start Firefox with the extension loaded.");
+  }
+  return instance;
+}
+
+// Whether a browser can run a tool. Extensions that do not report their tools are
+// assumed to have all of them.
+export function supportsTool(instance: BrowserInstance, name: string): boolean {
+  const { tools } = instance.capabilities;
+  return !Array.isArray(tools) || tools.includes(name);
+}
+
+// Union of the connected browsers' tools, or undefined for "all tools" when no
+// browser is connected or one does not report its tools
+export function browserToolSet(): Set<string> | undefined {
+  const open = listBrowsers();
+  if (open.length === 0 || open.some((b) => !Array.isArray(b.capabilities.tools))) return undefined;
+  return new Set(open.flatMap((b) => b.capabilities.tools!));
+}
+
+// Public view of the registry for browsers_list
+export function describeBrowsers(): Record<string, unknown>[] {
+  const fallback = defaultBrowser();
+  return listBrowsers().map((b) => ({
+    id: b.id,
+    profile: b.profile,
+    capabilities: b.capabilities,
+    connectedAt: b.connectedAt,
+    default: b === fallback
+  }));
+}
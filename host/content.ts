@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Paging through page content
+//
+// get_page_content hands out the page (rendered by extension/content/extract.js)
+// a chunk at a time instead of cutting it off. A chunk ends at a paragraph or
+// line break near the token budget, and its footer says where the next one
+// starts and which sections (Markdown headings) can be jumped to.
+
+// Rough size of a token in English text, for the budget
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_MAX_TOKENS = 10000;
+// Sections listed in a footer; the rest are still reachable by name
+const MAX_LISTED_SECTIONS = 40;
+
+export interface TableData {
+  caption?: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface PageContent {
+  url: string;
+  title: string;
+  format: "markdown" | "readability" | "tables";
+  text?: string;
+  tables?: TableData[];
+}
+
+interface Section {
+  number: number;
+  title: string;
+  offset: number;
+}
+
+export interface ChunkRequest {
+  offset?: number;
+  section?: string;
+  maxTokens?: number;
+}
+
+// Tables as text: a heading per table, its headers, then one JSON object per row,
+// so chunks break between rows
+function tablesText(tables: TableData[]): string {
+  return tables.map((table, i) =>
+    [
+      `## Table ${i + 1}${table.caption ? `: ${table.caption}` : ""}`,
+      `Headers: ${JSON.stringify(table.headers)}`,
+      ...table.rows.map((row) => JSON.stringify(row))
+    ].join("\n")
+  ).join("\n\n");
+}
+
+function contentText(page: PageContent): string {
+  return page.format === "tables" ? tablesText(page.tables ?? []) : page.text ?? "";
+}
+
+// Markdown headings outside code blocks
+function sectionsOf(text: string): Section[] {
+  const sections: Section[] = [];
+  let inCode = false;
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    if (line.startsWith("```")) inCode = !inCode;
+    const heading = !inCode && line.match(/^#{1,6} (.+)$/);
+    if (heading) sections.push({ number: sections.length + 1, title: heading[1].trim(), offset });
+    offset += line.length + 1;
+  }
+  return sections;
+}
+
+// A section by number, or by (the start of) its title, case-insensitively
+function findSection(sections: Section[], wanted: string): Section {
+  const number = Number(wanted);
+  const needle = wanted.trim().toLowerCase();
+  const section = Number.isInteger(number) && number > 0
+    ? sections[number - 1]
+    : sections.find((s) => s.title.toLowerCase() === needle) ??
+      sections.find((s) => s.title.toLowerCase().startsWith(needle)) ??
+      sections.find((s) => s.title.toLowerCase().includes(needle));
+  if (!section) {
+    throw new Error(`No section "${wanted}" (the page has ${sections.length}); omit section to start from the top`);
+  }
+  return section;
+}
+
+// Where a chunk starting at `start` should end: the last paragraph break in its
+// second half, else the last line break, else the last space
+function chunkEnd(text: string, start: number, maxChars: number): number {
+  const limit = start + maxChars;
+  if (limit >= text.length) return text.length;
+  const window = text.slice(start, limit);
+  for (const separator of ["\n\n", "\n", " "]) {
+    const at = window.lastIndexOf(separator);
+    if (at > maxChars / 2) return start + at + separator.length;
+  }
+  return limit;
+}
+
+// One chunk of the page with a footer for getting the next
+export function pageChunk(page: PageContent, request: ChunkRequest): string {
+  const text = contentText(page);
+  const sections = sectionsOf(text);
+  const maxTokens = request.maxTokens ?? DEFAULT_MAX_TOKENS;
+  if (maxTokens < 1) throw new Error("maxTokens must be at least 1");
+
+  const start = request.section !== undefined ? findSection(sections, request.section).offset : request.offset ?? 0;
+  if (start < 0 || (start > 0 && start >= text.length)) {
+    throw new Error(`offset ${start} is past the end of the content (${text.length} characters)`);
+  }
+  const end = chunkEnd(text, start, maxTokens * CHARS_PER_TOKEN);
+
+  const footer = [
+    `Page: ${page.title || "(untitled)"} <${page.url}>, ${page.format}`,
+    end < text.length
+      ? `Characters ${start}-${end} of ${text.length}. Next chunk: offset=${end}`
+      : `Characters ${start}-${end} of ${text.length} (end of content)`
+  ];
+  if (start === 0 && end < text.length && sections.length > 1) {
+    const listed = sections.slice(0, MAX_LISTED_SECTIONS).map((s) => `${s.number}. ${s.title} (offset ${s.offset})`);
+    if (sections.length > MAX_LISTED_SECTIONS) listed.push(`... ${sections.length - MAX_LISTED_SECTIONS} more`);
+    footer.push(`Sections (pass section=number or title to jump):\n${listed.join("\n")}`);
+  }
+
+  const chunk = text.slice(start, end).trimEnd();
+  return `${chunk || "(no content)"}\n\n---\n${footer.join("\n")}`;
+}
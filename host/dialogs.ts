@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Page dialogs
+//
+// The extension answers a page's alert(), confirm() and prompt() itself, so a
+// dialog no longer blocks the tab (extension/content/dialog.js). How it answers
+// by default is the session's dialog policy, which the server hands to every
+// browser that connects and dialog_handle can change.
+
+export const DIALOG_POLICIES = ["accept", "dismiss", "ask"] as const;
+export type DialogPolicy = typeof DIALOG_POLICIES[number];
+
+// The policy chosen with --dialogs=<policy> or CLAUDE_FIREFOX_MCP_DIALOGS.
+// Asking is the default: the policy reaches every tab of the browser, the
+// user's own included, and those should keep showing their dialogs.
+export function selectDialogPolicy(args: string[] = Deno.args): DialogPolicy {
+  const flag = args.find((a) => a.startsWith("--dialogs="))?.split("=")[1];
+  const name = flag ?? Deno.env.get("CLAUDE_FIREFOX_MCP_DIALOGS") ?? "ask";
+  if (!(DIALOG_POLICIES as readonly string[]).includes(name)) {
+    throw new Error(`Unknown dialog policy "${name}". Available: ${DIALOG_POLICIES.join(", ")}`);
+  }
+  return name as DialogPolicy;
+}
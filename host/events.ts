@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Browser event log
+//
+// What happens in the browsers besides the calls the server makes, as the
+// extension reports it (extension/events.js): tabs opened, closed, activated
+// and updated, top-frame navigations and finished loads, finished downloads,
+// page dialogs and extension errors. The server keeps the latest events for
+// events_poll, which reads them after a cursor like console_read, and passes
+// each on to the client as a notifications/message log entry.
+
+export const EVENT_TYPES = [
+  "tab.created", "tab.closed", "tab.activated", "tab.updated",
+  "navigation.committed", "navigation.completed",
+  "download.finished",
+  "dialog.opened", "dialog.closed",
+  "error"
+] as const;
+export type EventType = typeof EVENT_TYPES[number];
+
+export interface BrowserEvent {
+  seq: number;
+  time: string;
+  browserId: string;
+  type: EventType;
+  tabId?: number;
+  [key: string]: unknown;
+}
+
+export interface EventQuery {
+  since?: number;
+  types?: string[];
+  tabId?: number;
+  browserId?: string;
+  limit?: number;
+  timeout?: number;
+}
+
+const MAX_EVENTS = 1000;
+const DEFAULT_POLL_LIMIT = 100;
+// events_poll waits at most this long for an event to arrive
+export const MAX_POLL_TIMEOUT_MS = 60000;
+
+let nextSeq = 1;
+let events: BrowserEvent[] = [];
+// events_poll calls waiting for the next event
+const waiters = new Set<() => void>();
+
+function isEventType(type: unknown): type is EventType {
+  return (EVENT_TYPES as readonly unknown[]).includes(type);
+}
+
+// Add an event from a browser/event notification; null for an unknown type
+export function recordEvent(browserId: string, params: Record<string, unknown>): BrowserEvent | null {
+  const { type, time, ...details } = params;
+  if (!isEventType(type)) return null;
+  const event: BrowserEvent = {
+    ...details,
+    seq: nextSeq++,
+    time: new Date(typeof time === "number" ? time : Date.now()).toISOString(),
+    browserId,
+    type
+  };
+  events.push(event);
+  if (events.length > MAX_EVENTS) events = events.slice(-MAX_EVENTS);
+  for (const wake of waiters) wake();
+  return event;
+}
+
+function matching(query: EventQuery): BrowserEvent[] {
+  const { since = 0, types, tabId, browserId } = query;
+  return events.filter((event) =>
+    event.seq > since &&
+    (!types || types.length === 0 || types.includes(event.type)) &&
+    (tabId === undefined || event.tabId === tabId) &&
+    (browserId === undefined || event.browserId === browserId)
+  );
+}
+
+// Events after the cursor, waiting up to query.timeout ms for the first one;
+// an aborted signal ends the wait early
+export async function pollEvents(query: EventQuery, signal?: AbortSignal) {
+  const { since = 0, limit = DEFAULT_POLL_LIMIT, timeout = 0 } = query;
+  if (timeout > MAX_POLL_TIMEOUT_MS) throw new Error(`timeout is at most ${MAX_POLL_TIMEOUT_MS}ms`);
+  if (matching(query).length === 0 && timeout > 0 && !signal?.aborted) {
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        waiters.delete(check);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const check = () => {
+        if (matching(query).length > 0) done();
+      };
+      const timer = setTimeout(done, timeout);
+      waiters.add(check);
+      signal?.addEventListener("abort", done);
+    });
+  }
+
+  const found = matching(query);
+  const selected = found.slice(0, limit);
+  // Older events than the log keeps were dropped since that cursor
+  const dropped = events.length > 0 && since > 0 && events[0].seq > since + 1 ? events[0].seq - since - 1 : 0;
+  const cursor = selected.length > 0 ? selected[selected.length - 1].seq : Math.max(since, nextSeq - 1);
+  return { events: selected, more: found.length - selected.length, dropped, cursor };
+}
+
+// One line per event for events_poll and the server log
+export function describeEvent(event: BrowserEvent): string {
+  const { seq: _seq, time: _time, browserId: _browserId, type, tabId, ...details } = event;
+  const tab = tabId !== undefined ? ` tab ${tabId}` : "";
+  const fields = Object.entries(details)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+    .join(" ");
+  return `${type}${tab}${fields ? ` ${fields}` : ""}`;
+}
+
+// events_poll result text: one line per event, then where to read on from
+export function formatEvents(result: Awaited<ReturnType<typeof pollEvents>>): string {
+  const lines = result.events.map((event) => `#${event.seq} ${event.time} ${describeEvent(event)}`);
+  const more = result.more > 0 ? `, ${result.more} more after cursor` : "";
+  const dropped = result.dropped > 0 ? `, ${result.dropped} dropped from the log` : "";
+  lines.push(`${result.events.length} events${more}${dropped}. Next cursor: ${result.cursor}`);
+  return lines.join("\n");
+}
+
+// Events that come in bursts during ordinary browsing: title changes, tab
+// switches and finished loads, each following an event that already said more
+const ROUTINE_EVENTS: EventType[] = ["tab.updated", "tab.activated", "navigation.completed"];
+
+// Severity for notifications/message: errors, dialogs waiting on the user,
+// routine events, and the rest (new tabs and popups, navigations, downloads)
+export function eventLevel(event: BrowserEvent): "error" | "warning" | "info" | "debug" {
+  if (event.type === "error" || (event.type === "download.finished" && event.state === "interrupted")) return "error";
+  if (event.type === "dialog.opened" && event.handled === "open") return "warning";
+  if (ROUTINE_EVENTS.includes(event.type)) return "debug";
+  return "info";
+}
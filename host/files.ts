@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Local files for uploads and downloads
+//
+// upload_file reads the files here and sends their bytes to the extension,
+// which cannot read the disk. downloads_get reads what Firefox downloaded, which
+// is on the same machine as the server.
+
+// Uploads travel to the extension in one message, as base64
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+const DEFAULT_MAX_DOWNLOAD_BYTES = 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  html: "text/html",
+  htm: "text/html",
+  css: "text/css",
+  js: "text/javascript",
+  md: "text/markdown",
+  json: "application/json",
+  xml: "application/xml",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  gz: "application/gzip",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml"
+};
+
+function encodeBase64(bytes: Uint8Array): string {
+  // btoa takes a binary string; build it in slices to stay under the argument limit
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function mimeType(path: string): string {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return MIME_TYPES[extension] ?? "application/octet-stream";
+}
+
+function isText(mime: string): boolean {
+  return mime.startsWith("text/") || /json|xml|yaml|javascript|svg/.test(mime);
+}
+
+export interface UploadFile {
+  name: string;
+  type: string;
+  data: string; // base64
+}
+
+// Relative paths are relative to the server's working directory
+export async function readUploads(paths: string[]): Promise<UploadFile[]> {
+  if (paths.length === 0) throw new Error("paths must name at least one file");
+  let total = 0;
+  const files: UploadFile[] = [];
+  for (const path of paths) {
+    const info = await Deno.stat(path);
+    if (!info.isFile) throw new Error(`${path} is not a file`);
+    total += info.size;
+    if (total > MAX_UPLOAD_BYTES) {
+      throw new Error(`Uploads are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024}MB in total`);
+    }
+    files.push({
+      name: path.slice(path.replace(/\\/g, "/").lastIndexOf("/") + 1),
+      type: mimeType(path),
+      data: encodeBase64(await Deno.readFile(path))
+    });
+  }
+  return files;
+}
+
+// A downloaded file as MCP content: text for text types, an image for images,
+// base64 text for anything else
+export async function downloadContent(
+  path: string,
+  mime: string | undefined,
+  maxBytes = DEFAULT_MAX_DOWNLOAD_BYTES
+): Promise<{ type: string; text?: string; data?: string; mimeType?: string }> {
+  const { size } = await Deno.stat(path);
+  if (size > maxBytes) {
+    throw new Error(`${path} is ${size} bytes, more than maxBytes (${maxBytes}); raise maxBytes or read the path directly`);
+  }
+  const type = mime && mime !== "application/octet-stream" ? mime : mimeType(path);
+  const bytes = await Deno.readFile(path);
+  if (isText(type)) return { type: "text", text: new TextDecoder().decode(bytes) };
+  if (type.startsWith("image/")) return { type: "image", data: encodeBase64(bytes), mimeType: type };
+  return { type: "text", text: `base64 (${type}, ${size} bytes):\n${encodeBase64(bytes)}` };
+}
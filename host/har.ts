@@ -0,0 +1,174 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Network log formatting
+// Turns the extension's webRequest entries (extension/network.js) into a compact
+// summary or a HAR 1.2 document (http://www.softwareishard.com/blog/har-12-spec/)
+
+interface Header {
+  name: string;
+  value: string;
+}
+
+interface Body {
+  text?: string;
+  encoding?: string;
+  mimeType?: string;
+  params?: Header[];
+  size?: number;
+  truncated?: boolean;
+}
+
+export interface NetworkEntry {
+  requestId: string;
+  url: string;
+  method: string;
+  type: string;
+  startedDateTime: string;
+  timestamps: { start: number; sent?: number; headers?: number; end?: number };
+  status?: number;
+  statusLine?: string;
+  mimeType?: string;
+  requestHeaders?: Header[];
+  responseHeaders?: Header[];
+  requestBody?: Body;
+  responseBody?: Body;
+  responseSize?: number;
+  redirectURL?: string;
+  fromCache?: boolean;
+  serverIPAddress?: string;
+  error?: string;
+}
+
+export interface NetworkLog {
+  tabId: number;
+  recording: boolean;
+  startedAt: string;
+  stoppedAt?: string;
+  total: number;
+  offset: number;
+  entries: NetworkEntry[];
+  page: { url: string; title: string };
+  browser: { name: string; version: string };
+}
+
+function duration(from?: number, to?: number): number {
+  return from !== undefined && to !== undefined ? Math.max(0, Math.round(to - from)) : -1;
+}
+
+function formatSize(bytes?: number): string {
+  if (bytes === undefined) return "-";
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+// One line per request: status, method, type, time, size, url
+export function summarizeNetworkLog(log: NetworkLog): string {
+  const state = log.recording ? "recording" : `stopped ${log.stoppedAt}`;
+  const shown = log.entries.length === log.total
+    ? `${log.total} requests`
+    : `requests ${log.offset + 1}-${log.offset + log.entries.length} of ${log.total}`;
+  const lines = log.entries.map((entry) => {
+    const status = entry.error ? `ERR ${entry.error}` : String(entry.status ?? "...");
+    const time = duration(entry.timestamps.start, entry.timestamps.end);
+    const redirect = entry.redirectURL ? ` -> ${entry.redirectURL}` : "";
+    return `${status} ${entry.method} ${entry.type} ${time < 0 ? "-" : `${time}ms`} ` +
+      `${formatSize(entry.responseSize ?? entry.responseBody?.size)} ${entry.url}${redirect}`;
+  });
+  return [`Tab ${log.tabId} (${state}), ${shown}`, ...lines].join("\n");
+}
+
+function httpVersion(statusLine?: string): string {
+  return statusLine?.split(" ")[0] || "HTTP/1.1";
+}
+
+function queryString(url: string): Header[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function headerValue(headers: Header[] | undefined, name: string): string | undefined {
+  return headers?.find((h) => h.name.toLowerCase() === name)?.value;
+}
+
+function harEntry(entry: NetworkEntry) {
+  const { start, sent, headers, end } = entry.timestamps;
+  const timings = {
+    blocked: -1,
+    dns: -1,
+    connect: -1,
+    ssl: -1,
+    send: Math.max(0, duration(start, sent)),
+    wait: Math.max(0, duration(sent ?? start, headers)),
+    receive: Math.max(0, duration(headers, end))
+  };
+
+  const requestBody = entry.requestBody;
+  const responseBody = entry.responseBody;
+  const responseMime = entry.mimeType || headerValue(entry.responseHeaders, "content-type") || "";
+
+  return {
+    pageref: "page_1",
+    startedDateTime: entry.startedDateTime,
+    time: timings.send + timings.wait + timings.receive,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: httpVersion(entry.statusLine),
+      cookies: [],
+      headers: entry.requestHeaders ?? [],
+      queryString: queryString(entry.url),
+      ...(requestBody
+        ? {
+          postData: {
+            mimeType: requestBody.mimeType || headerValue(entry.requestHeaders, "content-type") || "",
+            ...(requestBody.params ? { params: requestBody.params } : { text: requestBody.text ?? "" })
+          }
+        }
+        : {}),
+      headersSize: -1,
+      bodySize: requestBody?.text?.length ?? (requestBody ? -1 : 0)
+    },
+    response: {
+      status: entry.status ?? 0,
+      statusText: entry.statusLine?.split(" ").slice(2).join(" ") ?? "",
+      httpVersion: httpVersion(entry.statusLine),
+      cookies: [],
+      headers: entry.responseHeaders ?? [],
+      content: {
+        size: responseBody?.size ?? entry.responseSize ?? -1,
+        mimeType: responseMime,
+        ...(responseBody?.text !== undefined ? { text: responseBody.text } : {}),
+        ...(responseBody?.encoding ? { encoding: responseBody.encoding } : {}),
+        ...(responseBody?.truncated ? { comment: "Body truncated" } : {})
+      },
+      redirectURL: entry.redirectURL ?? headerValue(entry.responseHeaders, "location") ?? "",
+      headersSize: -1,
+      bodySize: entry.responseSize ?? -1,
+      ...(entry.error ? { _error: entry.error } : {})
+    },
+    cache: entry.fromCache ? { afterRequest: null, comment: "Served from cache" } : {},
+    timings,
+    ...(entry.serverIPAddress ? { serverIPAddress: entry.serverIPAddress } : {}),
+    _resourceType: entry.type
+  };
+}
+
+export function toHar(log: NetworkLog) {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "claude-firefox-mcp", version: "1.0.0" },
+      browser: log.browser,
+      pages: [{
+        startedDateTime: log.startedAt,
+        id: "page_1",
+        title: log.page.title || log.page.url,
+        pageTimings: {}
+      }],
+      entries: log.entries.map(harEntry)
+    }
+  };
+}
@@ -0,0 +1,149 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Input backends for pointer and keyboard tools
+//
+// "extension" (default): the content script synthesizes DOM events. Works
+// everywhere, but events are untrusted and CSS :hover is not triggered.
+//
+// "xdotool": the host moves the real mouse and keyboard on X11, so events are
+// trusted. The extension only locates targets (input_locate) and raises the
+// window. Needs --allow-run=xdotool.
+//
+// Other OS-level or remote-protocol backends (e.g. WebDriver BiDi
+// input.performActions) plug in by implementing InputBackend.
+
+export const INPUT_TOOLS = ["click", "double_click", "hover", "drag", "type", "key_press"];
+
+export interface ScreenTarget {
+  element: string;
+  screen: [number, number];
+}
+
+export interface LocatedTargets {
+  start: ScreenTarget | null;
+  end?: ScreenTarget;
+}
+
+// Locates targets through the extension (bound to the call's browser and tab)
+export type Locate = (args: Record<string, unknown>) => Promise<LocatedTargets>;
+
+export interface InputBackend {
+  name: string;
+  perform(tool: string, args: Record<string, unknown>, locate: Locate): Promise<string>;
+}
+
+// X11 keysym names for the key names key_press accepts
+const XDOTOOL_KEYS: Record<string, string> = {
+  enter: "Return", return: "Return", tab: "Tab", escape: "Escape", esc: "Escape",
+  backspace: "BackSpace", delete: "Delete", space: "space", insert: "Insert",
+  arrowup: "Up", up: "Up", arrowdown: "Down", down: "Down",
+  arrowleft: "Left", left: "Left", arrowright: "Right", right: "Right",
+  home: "Home", end: "End", pageup: "Page_Up", pagedown: "Page_Down",
+  control: "ctrl", option: "alt", cmd: "super", command: "super", meta: "super"
+};
+
+const XDOTOOL_BUTTONS: Record<string, string> = { left: "1", middle: "2", right: "3" };
+
+function xdotoolCombo(combo: string): string {
+  return combo.split("+").map((part) => XDOTOOL_KEYS[part.toLowerCase()] ?? part).join("+");
+}
+
+async function xdotool(args: string[]): Promise<void> {
+  let output;
+  try {
+    output = await new Deno.Command("xdotool", { args, stdout: "null", stderr: "piped" }).output();
+  } catch (e) {
+    throw new Error(`xdotool input backend unavailable: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!output.success) {
+    throw new Error(`xdotool failed: ${new TextDecoder().decode(output.stderr).trim()}`);
+  }
+}
+
+function modifierArgs(modifiers: unknown, action: "keydown" | "keyup"): string[] {
+  if (!Array.isArray(modifiers) || modifiers.length === 0) return [];
+  return [action, modifiers.map((m) => XDOTOOL_KEYS[String(m).toLowerCase()] ?? String(m)).join("+")];
+}
+
+const xdotoolBackend: InputBackend = {
+  name: "xdotool",
+
+  async perform(tool, args, locate) {
+    const located = await locate({ ...args, focus: tool === "type" || tool === "key_press" });
+    const start = located.start;
+
+    switch (tool) {
+      case "click":
+      case "double_click": {
+        if (!start) throw new Error("ref or coordinate is required");
+        const button = XDOTOOL_BUTTONS[String(args.button ?? "left")] ?? "1";
+        const repeat = tool === "double_click" ? ["--repeat", "2", "--delay", "80"] : [];
+        await xdotool([
+          "mousemove", "--sync", String(start.screen[0]), String(start.screen[1]),
+          ...modifierArgs(args.modifiers, "keydown"),
+          "click", ...repeat, button,
+          ...modifierArgs(args.modifiers, "keyup")
+        ]);
+        return `${tool === "double_click" ? "Double-clicked" : "Clicked"} ${start.element} (xdotool)`;
+      }
+
+      case "hover":
+        if (!start) throw new Error("ref or coordinate is required");
+        await xdotool(["mousemove", "--sync", String(start.screen[0]), String(start.screen[1])]);
+        return `Hovering ${start.element} (xdotool)`;
+
+      case "drag": {
+        const end = located.end;
+        if (!start || !end) throw new Error("drag needs a start and an end target");
+        await xdotool([
+          "mousemove", "--sync", String(start.screen[0]), String(start.screen[1]),
+          "mousedown", "1",
+          // Move in two legs so drag thresholds and dragenter fire
+          "mousemove", "--sync",
+          String(Math.round((start.screen[0] + end.screen[0]) / 2)),
+          String(Math.round((start.screen[1] + end.screen[1]) / 2)),
+          "mousemove", "--sync", String(end.screen[0]), String(end.screen[1]),
+          "mouseup", "1"
+        ]);
+        return `Dragged ${start.element} to ${end.element} (xdotool)`;
+      }
+
+      case "type": {
+        if (start) {
+          await xdotool(["mousemove", "--sync", String(start.screen[0]), String(start.screen[1]), "click", "1"]);
+        }
+        if (args.clear) await xdotool(["key", "ctrl+a", "BackSpace"]);
+        await xdotool(["type", "--delay", String(args.delay ?? 12), "--", String(args.text ?? "")]);
+        return `Typed ${String(args.text ?? "").length} characters (xdotool)`;
+      }
+
+      case "key_press": {
+        const combos = String(args.keys ?? "").trim().split(/\s+/).filter(Boolean).map(xdotoolCombo);
+        if (combos.length === 0) throw new Error("keys is required for key_press");
+        const repeat = Math.max(1, Number(args.repeat ?? 1));
+        await xdotool(["key", "--delay", "30", ...Array(repeat).fill(combos).flat()]);
+        return `Pressed ${args.keys} (xdotool)`;
+      }
+
+      default:
+        throw new Error(`${tool} is not an input tool`);
+    }
+  }
+};
+
+const BACKENDS: Record<string, InputBackend> = {
+  xdotool: xdotoolBackend
+};
+
+// The backend chosen with --input-backend=<name> or CLAUDE_FIREFOX_MCP_INPUT_BACKEND;
+// null means the extension synthesizes events itself
+export function selectInputBackend(args: string[] = Deno.args): InputBackend | null {
+  const flag = args.find((a) => a.startsWith("--input-backend="))?.split("=")[1];
+  const name = flag ?? Deno.env.get("CLAUDE_FIREFOX_MCP_INPUT_BACKEND") ?? "extension";
+  if (name === "extension") return null;
+
+  const backend = BACKENDS[name];
+  if (!backend) {
+    throw new Error(`Unknown input backend "${name}". Available: extension, ${Object.keys(BACKENDS).join(", ")}`);
+  }
+  return backend;
+}
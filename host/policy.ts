@@ -0,0 +1,282 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Safety policy
+//
+// The policy file (JSON) decides, before a tool call reaches the browser,
+// whether it may run. --policy=PATH or CLAUDE_FIREFOX_MCP_POLICY choose the
+// file; by default ~/.config/claude-firefox-mcp/policy.json is used if it exists.
+//
+//   {
+//     "default": "allow",
+//     "tools": { "execute_js": "deny", "tabs_close": "confirm" },
+//     "origins": [
+//       { "match": "*.bank.example", "action": "deny" },
+//       { "match": "https://app.example.com", "action": "allow", "tools": { "execute_js": "allow" } }
+//     ],
+//     "confirm": { "formSubmit": true, "newDomains": true, "timeoutMs": 60000 }
+//   }
+//
+// The call's origin is the page it acts on: the URL being visited, the origin or
+// cookie domain given, or the tab's current URL. The first matching origin rule
+// applies; origins no rule matches get "default". Tool actions come from the
+// matching rule's "tools", then the top-level "tools". The strictest of the
+// origin and tool actions wins. "confirm" asks the user in the extension popup.
+
+import { configDir } from "./auth.ts";
+import { type JsonSchema, schemaProblem } from "./tools.ts";
+
+export type PolicyAction = "allow" | "deny" | "confirm";
+
+export interface OriginRule {
+  match: string;
+  action: PolicyAction;
+  tools?: Record<string, PolicyAction>;
+}
+
+export interface Policy {
+  default: PolicyAction;
+  tools: Record<string, PolicyAction>;
+  origins: OriginRule[];
+  confirm: {
+    // Clicks and Enter presses that would submit a form
+    formSubmit: boolean;
+    // navigate/tabs_create/windows_create to a host not visited or approved this session
+    newDomains: boolean;
+    timeoutMs: number;
+  };
+}
+
+// What a tool call is about to do, as far as the policy cares
+export interface PolicyRequest {
+  tool: string;
+  origin: string | null;
+  visits: boolean;
+  submitsForm: boolean;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  rule: string;
+  reason: string;
+}
+
+export const DEFAULT_POLICY: Policy = {
+  default: "allow",
+  // Arbitrary page scripts can do anything the page can; enable per origin or globally.
+  // Uploads hand local files to the page, so the user sees which ones first.
+  tools: { execute_js: "deny", upload_file: "confirm" },
+  origins: [],
+  confirm: { formSubmit: false, newDomains: false, timeoutMs: 60000 }
+};
+
+const ACTION_SCHEMA = { type: "string", enum: ["allow", "deny", "confirm"] } as const;
+const TOOL_ACTIONS_SCHEMA = { type: "object" } as const;
+
+const POLICY_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    default: ACTION_SCHEMA,
+    tools: TOOL_ACTIONS_SCHEMA,
+    origins: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { match: { type: "string" }, action: ACTION_SCHEMA, tools: TOOL_ACTIONS_SCHEMA },
+        required: ["match", "action"]
+      }
+    },
+    confirm: {
+      type: "object",
+      properties: {
+        formSubmit: { type: "boolean" },
+        newDomains: { type: "boolean" },
+        timeoutMs: { type: "number" }
+      }
+    }
+  }
+};
+
+const STRICTNESS: PolicyAction[] = ["allow", "confirm", "deny"];
+
+export function policyPath(args: string[] = Deno.args): string {
+  return args.find((a) => a.startsWith("--policy="))?.slice("--policy=".length) ??
+    Deno.env.get("CLAUDE_FIREFOX_MCP_POLICY") ?? `${configDir()}/policy.json`;
+}
+
+function checkToolActions(tools: unknown, path: string): void {
+  for (const [name, action] of Object.entries((tools ?? {}) as Record<string, unknown>)) {
+    const problem = schemaProblem(action, ACTION_SCHEMA, `${path}.${name}`);
+    if (problem) throw new Error(problem);
+  }
+}
+
+// Read the policy file over the defaults. A missing file means the default
+// policy; a file that does not parse is an error rather than "allow everything".
+export async function loadPolicy(path = policyPath()): Promise<{ policy: Policy; loaded: boolean }> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return { policy: DEFAULT_POLICY, loaded: false };
+    throw e;
+  }
+
+  const file = JSON.parse(text);
+  const problem = schemaProblem(file, POLICY_SCHEMA, "policy");
+  if (problem) throw new Error(`${path}: ${problem}`);
+  try {
+    checkToolActions(file.tools, "policy.tools");
+    (file.origins ?? []).forEach((rule: OriginRule, i: number) => checkToolActions(rule.tools, `policy.origins[${i}].tools`));
+  } catch (e) {
+    throw new Error(`${path}: ${e instanceof Error ? e.message : e}`);
+  }
+
+  return {
+    policy: {
+      default: file.default ?? DEFAULT_POLICY.default,
+      tools: { ...DEFAULT_POLICY.tools, ...file.tools },
+      origins: file.origins ?? [],
+      confirm: { ...DEFAULT_POLICY.confirm, ...file.confirm }
+    },
+    loaded: true
+  };
+}
+
+// "example.com" matches that host, "*.example.com" the host and its subdomains,
+// "https://example.com" also checks the scheme, "*" matches everything
+export function matchesOrigin(pattern: string, url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (pattern === "*") return true;
+
+  let host = pattern;
+  const scheme = pattern.match(/^([a-z][a-z0-9+.-]*):\/\//i);
+  if (scheme) {
+    if (scheme[1].toLowerCase() + ":" !== parsed.protocol) return false;
+    host = pattern.slice(scheme[0].length);
+  }
+  host = host.replace(/\/.*$/, "").toLowerCase();
+
+  const hostname = parsed.hostname.toLowerCase();
+  if (host.startsWith("*.")) {
+    const base = host.slice(2);
+    return hostname === base || hostname.endsWith("." + base);
+  }
+  return hostname === host || (host.includes(":") && parsed.host === host);
+}
+
+// A URL as navigate and windows_create open it: without "://" it goes over
+// https, as in the extension. The policy judges the URL that is opened.
+export function withHttps(url: string): string {
+  return url.includes("://") ? url : "https://" + url;
+}
+
+function parsesAsUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// scheme://host[:port] of a URL; anything unparsable is kept for the log
+export function originOf(url: string): string {
+  try {
+    const { origin } = new URL(url);
+    return origin === "null" ? url : origin;
+  } catch {
+    return url;
+  }
+}
+
+export function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+// Hosts visited or approved this session, for confirm.newDomains
+export class VisitedHosts {
+  private hosts = new Set<string>();
+
+  // A URL that does not parse was never visited; one without a host (about:blank)
+  // has no domain to be new
+  has(url: string): boolean {
+    if (!parsesAsUrl(url)) return false;
+    const host = hostnameOf(url);
+    return host === null || this.hosts.has(host);
+  }
+
+  add(url: string): void {
+    const host = hostnameOf(url);
+    if (host) this.hosts.add(host);
+  }
+}
+
+export function evaluatePolicy(policy: Policy, request: PolicyRequest, visited: VisitedHosts): PolicyDecision {
+  const { tool, origin } = request;
+  // No origin rule can be told apart from another for something that is not a
+  // URL, so it must not fall through to the default
+  if (origin !== null && !parsesAsUrl(origin)) {
+    return { action: "deny", rule: "origin", reason: `${origin} is not a URL` };
+  }
+  const index = origin === null ? -1 : policy.origins.findIndex((r) => matchesOrigin(r.match, origin));
+  const originRule = index >= 0 ? policy.origins[index] : undefined;
+  const originLabel = originRule ? `origins[${index}] (${originRule.match})` : "default";
+
+  // Origin first: calls that do not act on a page only answer to the tool rules
+  let decision: PolicyDecision = { action: "allow", rule: "default", reason: "allowed" };
+  if (origin !== null) {
+    const action = originRule?.action ?? policy.default;
+    const verdict = { allow: "is allowed", deny: "is denied", confirm: "requires confirmation" }[action];
+    decision = { action, rule: originLabel, reason: `${origin} ${verdict}` };
+  }
+
+  // A rule's tool actions replace the top-level ones on that rule's origins
+  const ruleTool = originRule?.tools?.[tool];
+  const toolAction = ruleTool ?? policy.tools[tool] ?? "allow";
+  if (STRICTNESS.indexOf(toolAction) > STRICTNESS.indexOf(decision.action)) {
+    decision = {
+      action: toolAction,
+      rule: ruleTool ? `${originLabel}.tools.${tool}` : `tools.${tool}`,
+      reason: toolAction === "deny" ? `${tool} is disabled${ruleTool ? ` on ${origin}` : ""}` : `${tool} requires confirmation`
+    };
+  }
+  if (decision.action !== "allow") return decision;
+
+  if (policy.confirm.formSubmit && request.submitsForm) {
+    return { action: "confirm", rule: "confirm.formSubmit", reason: `${tool} submits a form on ${origin}` };
+  }
+  // Origins a rule explicitly allows are trusted; anything else is new until visited once
+  if (policy.confirm.newDomains && request.visits && origin !== null && originRule?.action !== "allow" &&
+    !visited.has(origin)) {
+    return { action: "confirm", rule: "confirm.newDomains", reason: `visits ${hostnameOf(origin)} for the first time` };
+  }
+  return decision;
+}
+
+// Results made by policyError, to tell refusals from tool failures
+const refusals = new WeakSet<object>();
+
+// Denied calls report a structured error the agent can act on
+export function policyError(tool: string, origin: string | null, decision: Omit<PolicyDecision, "action">) {
+  const result = {
+    content: [{
+      type: "text",
+      text: JSON.stringify({ error: "policy_denied", tool, origin, rule: decision.rule, reason: decision.reason }, null, 2)
+    }],
+    isError: true
+  };
+  refusals.add(result);
+  return result;
+}
+
+export function isPolicyError(result: unknown): boolean {
+  return typeof result === "object" && result !== null && refusals.has(result);
+}
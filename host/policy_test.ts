@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Safety policy tests
+
+import assert from "node:assert/strict";
+import {
+  DEFAULT_POLICY,
+  evaluatePolicy,
+  loadPolicy,
+  matchesOrigin,
+  originOf,
+  type Policy,
+  type PolicyRequest,
+  VisitedHosts,
+  withHttps
+} from "./policy.ts";
+
+function request(tool: string, origin: string | null, extra: Partial<PolicyRequest> = {}): PolicyRequest {
+  return { tool, origin, visits: false, submitsForm: false, ...extra };
+}
+
+const BANK_POLICY: Policy = {
+  ...DEFAULT_POLICY,
+  origins: [
+    { match: "*.bank.example", action: "deny" },
+    { match: "https://app.example.com", action: "allow", tools: { execute_js: "allow" } }
+  ]
+};
+
+Deno.test("origin patterns: exact host, subdomains, scheme, port, everything", () => {
+  assert.ok(matchesOrigin("example.com", "https://example.com/a"));
+  assert.ok(!matchesOrigin("example.com", "https://www.example.com/"));
+  assert.ok(matchesOrigin("*.example.com", "https://example.com/"));
+  assert.ok(matchesOrigin("*.example.com", "http://a.b.example.com/"));
+  assert.ok(!matchesOrigin("*.example.com", "https://notexample.com/"));
+  assert.ok(matchesOrigin("https://example.com", "https://example.com/x"));
+  assert.ok(!matchesOrigin("https://example.com", "http://example.com/x"));
+  assert.ok(matchesOrigin("localhost:3000", "http://localhost:3000/"));
+  assert.ok(!matchesOrigin("localhost:3000", "http://localhost:4000/"));
+  assert.ok(matchesOrigin("*", "about:blank"));
+});
+
+Deno.test("the first matching origin rule applies, then the strictest tool action", () => {
+  const visited = new VisitedHosts();
+  assert.equal(evaluatePolicy(BANK_POLICY, request("navigate", "https://www.bank.example/"), visited).action, "deny");
+  assert.equal(evaluatePolicy(BANK_POLICY, request("click", "https://other.example/"), visited).action, "allow");
+
+  // execute_js is denied by default, but this origin's rule allows it
+  const js = evaluatePolicy(BANK_POLICY, request("execute_js", "https://other.example/"), visited);
+  assert.deepEqual([js.action, js.rule], ["deny", "tools.execute_js"]);
+  assert.equal(evaluatePolicy(BANK_POLICY, request("execute_js", "https://app.example.com/"), visited).action, "allow");
+
+  // Calls that act on no page only answer to the tool rules
+  assert.equal(evaluatePolicy(BANK_POLICY, request("upload_file", null), visited).action, "confirm");
+});
+
+Deno.test("URLs without a scheme are judged as the https URL the extension opens", () => {
+  const visited = new VisitedHosts();
+  const navigate = (url: string) =>
+    evaluatePolicy(BANK_POLICY, request("navigate", originOf(withHttps(url)), { visits: true }), visited);
+
+  assert.equal(withHttps("bank.example"), "https://bank.example");
+  assert.equal(withHttps("http://bank.example/"), "http://bank.example/");
+  assert.equal(navigate("https://www.bank.example/login").action, "deny");
+  assert.equal(navigate("www.bank.example/login").action, "deny");
+  assert.equal(navigate("bank.example").action, "deny");
+  assert.equal(navigate("news.example").action, "allow");
+});
+
+Deno.test("an origin that does not parse is denied, never left to the default", () => {
+  const visited = new VisitedHosts();
+  for (const origin of ["www.bank.example/login", "bank.example", "https://", "https://exa mple.com"]) {
+    const decision = evaluatePolicy(DEFAULT_POLICY, request("navigate", origin, { visits: true }), visited);
+    assert.deepEqual([decision.action, decision.rule], ["deny", "origin"], origin);
+  }
+  assert.equal(evaluatePolicy(DEFAULT_POLICY, request("navigate", "about:blank"), visited).action, "allow");
+});
+
+Deno.test("a URL that does not parse counts as not visited", () => {
+  const visited = new VisitedHosts();
+  visited.add("https://bank.example/");
+  assert.ok(visited.has("https://bank.example/account"));
+  assert.ok(!visited.has("bank.example"));
+  assert.ok(!visited.has("https://other.example/"));
+  assert.ok(visited.has("about:blank"));
+});
+
+Deno.test("confirm.newDomains asks once per host, not for allowed origins", () => {
+  const policy: Policy = { ...BANK_POLICY, confirm: { ...BANK_POLICY.confirm, newDomains: true } };
+  const visited = new VisitedHosts();
+  const visit = (url: string) => evaluatePolicy(policy, request("navigate", url, { visits: true }), visited);
+
+  assert.equal(visit("https://news.example/").action, "confirm");
+  visited.add("https://news.example/");
+  assert.equal(visit("https://news.example/page").action, "allow");
+  assert.equal(visit("https://app.example.com/").action, "allow");
+});
+
+Deno.test("confirm.formSubmit asks before a submitting call", () => {
+  const policy: Policy = { ...DEFAULT_POLICY, confirm: { ...DEFAULT_POLICY.confirm, formSubmit: true } };
+  const decision = evaluatePolicy(policy, request("click", "https://example.com/", { submitsForm: true }), new VisitedHosts());
+  assert.deepEqual([decision.action, decision.rule], ["confirm", "confirm.formSubmit"]);
+});
+
+Deno.test("a policy file is read over the defaults and checked", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    assert.deepEqual(await loadPolicy(`${dir}/missing.json`), { policy: DEFAULT_POLICY, loaded: false });
+
+    await Deno.writeTextFile(`${dir}/policy.json`, JSON.stringify({ tools: { tabs_close: "confirm" } }));
+    const { policy, loaded } = await loadPolicy(`${dir}/policy.json`);
+    assert.ok(loaded);
+    assert.deepEqual(policy.tools, { ...DEFAULT_POLICY.tools, tabs_close: "confirm" });
+
+    await Deno.writeTextFile(`${dir}/bad.json`, JSON.stringify({ origins: [{ match: "x", action: "maybe" }] }));
+    await assert.rejects(loadPolicy(`${dir}/bad.json`), /policy\.origins\[0\]\.action must be one of/);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
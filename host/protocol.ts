@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - MCP protocol constants and helpers
+
+// Newest first; the first entry is offered when the client asks for something unknown
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+// JSON-RPC error codes
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+// MCP: resources/read of a URI the server does not have
+export const RESOURCE_NOT_FOUND = -32002;
+
+export type RequestId = number | string;
+
+export interface McpRequest {
+  jsonrpc?: string;
+  id?: RequestId | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+// Error carrying a JSON-RPC code, for protocol-level failures (not tool failures)
+export class McpError extends Error {
+  constructor(public code: number, message: string, public data?: Record<string, unknown>) {
+    super(message);
+    this.name = "McpError";
+  }
+}
+
+// Thrown into a pending call when the client cancels it; no response is sent
+export class CancelledError extends Error {
+  constructor(reason?: string) {
+    super(reason || "Request cancelled");
+    this.name = "CancelledError";
+  }
+}
+
+// Pick the protocol version to answer initialize with
+export function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+// Tool failures are reported inside the result so the model can see and react to them
+export function toolError(message: string) {
+  return {
+    content: [{ type: "text", text: message }],
+    isError: true
+  };
+}
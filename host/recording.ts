@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Browser recordings
+//
+// The toolbar button's recording mode (extension/recorder.js) captures what the
+// user does in a tab as navigate/click/type/form_input/key_press calls whose
+// targets are stable locators rather than refs. When recording stops the
+// extension sends it with recording/finished, and the server saves it to
+// ~/.config/claude-firefox-mcp/recordings/ as JSON and as a TypeScript script.
+//
+// `server.ts replay RECORDING.json` runs a recording through the same tool
+// handlers as a session log (see readSession).
+
+import { configDir } from "./auth.ts";
+
+export interface RecordedStep {
+  tool: string;
+  arguments: Record<string, unknown>;
+  // Paths of redacted arguments, as in the session log; such steps are skipped on replay
+  redacted?: string[];
+}
+
+export interface Recording {
+  version: 1;
+  startedAt: string;
+  finishedAt?: string;
+  url: string;
+  steps: RecordedStep[];
+}
+
+export function recordingDir(): string {
+  return Deno.env.get("CLAUDE_FIREFOX_MCP_RECORDING_DIR") ?? `${configDir()}/recordings`;
+}
+
+// A recording read from a file or the extension, or null for anything else
+// (such as a session log, whose first line is also a JSON object)
+export function parseRecording(text: string): Recording | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const recording = value as Recording;
+  if (!recording || typeof recording !== "object" || recording.version !== 1 || !Array.isArray(recording.steps)) {
+    return null;
+  }
+  for (const step of recording.steps) {
+    if (typeof step?.tool !== "string" || typeof step.arguments !== "object" || step.arguments === null) {
+      throw new Error(`Recording step ${recording.steps.indexOf(step) + 1} has no tool or arguments`);
+    }
+  }
+  return recording;
+}
+
+// Object keys that need no quotes in TypeScript
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// A JavaScript literal, on one line, in the style people write by hand
+function literal(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(literal).join(", ")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return "{}";
+    return `{ ${entries.map(([k, v]) => `${IDENTIFIER.test(k) ? k : JSON.stringify(k)}: ${literal(v)}`).join(", ")} }`;
+  }
+  return JSON.stringify(value);
+}
+
+// The recording as a script that makes the same tool calls through any MCP client
+export function toTypeScript(recording: Recording): string {
+  const lines = [
+    `// Recorded in Firefox on ${recording.startedAt}, starting at ${recording.url}`,
+    "// `call` sends one MCP tools/call request to claude-firefox-mcp and resolves with its result.",
+    "",
+    "type Call = (tool: string, args: Record<string, unknown>) => Promise<unknown>;",
+    "",
+    "export default async function run(call: Call): Promise<void> {"
+  ];
+  for (const step of recording.steps) {
+    if (step.redacted) lines.push(`  // Redacted when recorded: ${step.redacted.join(", ")}`);
+    lines.push(`  await call(${JSON.stringify(step.tool)}, ${literal(step.arguments)});`);
+  }
+  lines.push("}", "");
+  return lines.join("\n");
+}
+
+// Save a finished recording as JSON and TypeScript; returns the JSON file's path
+export async function saveRecording(recording: Recording): Promise<string> {
+  const dir = recordingDir();
+  await Deno.mkdir(dir, { recursive: true, mode: 0o700 });
+  const base = `${dir}/${recording.startedAt.replace(/[:.]/g, "-")}`;
+  await Deno.writeTextFile(`${base}.json`, JSON.stringify(recording, null, 2) + "\n", { mode: 0o600 });
+  await Deno.writeTextFile(`${base}.ts`, toTypeScript(recording), { mode: 0o600 });
+  return `${base}.json`;
+}
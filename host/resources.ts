@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Tabs as MCP resources
+//
+// Lets a client attach page context without a tool call:
+//
+//   firefox://tabs                    the open tabs (tabs_list), as JSON
+//   firefox://tab/{id}/text           a tab's text (get_page_text)
+//   firefox://tab/{id}/screenshot     its viewport as PNG (screenshot)
+//   firefox://tab/{id}/console        its console messages (console_read)
+//
+// Each read is the tool call of the same content, made on the default browser.
+// Subscribers hear of changes through notifications/resources/updated when a
+// browser event (host/events.ts) says a tab navigated, loaded or changed its title.
+
+export const TABS_URI = "firefox://tabs";
+
+// console_read returns the oldest entries first; this is the size of its buffer
+const CONSOLE_ENTRIES = 1000;
+
+export interface Resource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+// How a resource is read: the tool call, and the type of what it returns
+export interface ResourceCall {
+  tool: "tabs_list" | "get_page_text" | "screenshot" | "console_read";
+  args: Record<string, unknown>;
+  mimeType: string;
+}
+
+// Browser events that change what the resources of a tab, and the tab list, read
+const TAB_EVENTS = [
+  "tab.created", "tab.closed", "tab.activated", "tab.updated", "navigation.committed", "navigation.completed"
+];
+
+const TAB_RESOURCES = {
+  text: { tool: "get_page_text", mimeType: "text/plain", description: "Text content of the page" },
+  screenshot: { tool: "screenshot", mimeType: "image/png", description: "Screenshot of the visible part of the page" },
+  console: { tool: "console_read", mimeType: "text/plain", description: "Console messages and uncaught errors" }
+} as const;
+
+type TabResourceKind = keyof typeof TAB_RESOURCES;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = Object.entries(TAB_RESOURCES).map(([kind, resource]) => ({
+  uriTemplate: `firefox://tab/{id}/${kind}`,
+  name: `Tab ${kind}`,
+  description: resource.description,
+  mimeType: resource.mimeType
+}));
+
+export function tabsResource(): Resource {
+  return { uri: TABS_URI, name: "Open tabs", description: "Tabs of the current window, or of the session window", mimeType: "application/json" };
+}
+
+// The resources of one tab, named after its title
+export function tabResources(tab: { id: number; title?: string; url?: string }): Resource[] {
+  const label = tab.title || tab.url || `Tab ${tab.id}`;
+  return Object.entries(TAB_RESOURCES).map(([kind, resource]) => ({
+    uri: `firefox://tab/${tab.id}/${kind}`,
+    name: `${label} (${kind})`,
+    description: resource.description,
+    mimeType: resource.mimeType
+  }));
+}
+
+// The call that reads a resource, or null for a URI that is not one
+export function resourceCall(uri: string): ResourceCall | null {
+  if (uri === TABS_URI) return { tool: "tabs_list", args: {}, mimeType: "application/json" };
+  const match = uri.match(/^firefox:\/\/tab\/(\d+)\/(\w+)$/);
+  if (!match || !(match[2] in TAB_RESOURCES)) return null;
+  const tabId = Number(match[1]);
+  const { tool, mimeType } = TAB_RESOURCES[match[2] as TabResourceKind];
+  const args = tool === "console_read" ? { tabId, limit: CONSOLE_ENTRIES } : { tabId };
+  return { tool, args, mimeType };
+}
+
+// resources/read contents from the tool's result. Text next to an image (the
+// screenshot's note on its size) is plain text, not the image's type.
+export function resourceContents(
+  uri: string,
+  call: ResourceCall,
+  result: { content?: { type: string; text?: string; data?: string; mimeType?: string }[] }
+) {
+  return (result.content ?? []).map((item) =>
+    item.type === "image"
+      ? { uri, mimeType: item.mimeType ?? call.mimeType, blob: item.data ?? "" }
+      : { uri, mimeType: call.mimeType.startsWith("image/") ? "text/plain" : call.mimeType, text: item.text ?? "" }
+  );
+}
+
+// Subscribed resources a browser event makes stale
+export function changedResources(event: { type: string; tabId?: number }, subscriptions: ReadonlySet<string>): string[] {
+  if (!TAB_EVENTS.includes(event.type)) return [];
+  const prefix = `firefox://tab/${event.tabId}/`;
+  return [...subscriptions].filter((uri) => uri === TABS_URI || uri.startsWith(prefix));
+}
+
+// Whether a browser event adds or removes resources
+export function changesResourceList(event: { type: string }): boolean {
+  return event.type === "tab.created" || event.type === "tab.closed";
+}
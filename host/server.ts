@@ -1,161 +1,158 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Claude Firefox MCP - Native Host Server (Deno)
-// Bridges: Claude Code (stdio MCP) <-> WebSocket <-> Firefox Extension
+// Bridges: Claude Code (stdio MCP) <-> WebSocket or native messaging relay <-> Firefox Extension
+
+import {
+  ALLOWED_ORIGIN_PREFIX,
+  AUTH_TIMEOUT_MS,
+  type AuthResponse,
+  CLOSE_AUTH_FAILED,
+  CLOSE_AUTH_TIMEOUT,
+  createChallenge,
+  loadOrCreateSecret,
+  secretPath,
+  verifyResponse
+} from "./auth.ts";
+import {
+  type BrowserHello,
+  browserToolSet,
+  describeBrowsers,
+  listBrowsers,
+  registerBrowser,
+  resolveBrowser,
+  supportsTool,
+  unregisterBrowser
+} from "./browsers.ts";
+import {
+  CancelledError,
+  INVALID_PARAMS,
+  INVALID_REQUEST,
+  McpError,
+  type McpRequest,
+  METHOD_NOT_FOUND,
+  negotiateProtocolVersion,
+  PARSE_ERROR,
+  type RequestId,
+  RESOURCE_NOT_FOUND,
+  toolError
+} from "./protocol.ts";
+import { INPUT_TOOLS, type LocatedTargets, selectInputBackend } from "./input.ts";
+import { type NetworkLog, summarizeNetworkLog, toHar } from "./har.ts";
+import { type PageContent, pageChunk } from "./content.ts";
+import { downloadContent, readUploads } from "./files.ts";
+import { batchResult, resolveReferences, type StepReport, type ToolResult } from "./batch.ts";
+import {
+  changedResources,
+  changesResourceList,
+  RESOURCE_TEMPLATES,
+  resourceCall,
+  resourceContents,
+  tabResources,
+  tabsResource
+} from "./resources.ts";
+import { selectDialogPolicy } from "./dialogs.ts";
+import { selectWindowScope } from "./windows.ts";
+import { describeEvent, eventLevel, formatEvents, pollEvents, recordEvent } from "./events.ts";
+import { parseRecording, saveRecording, toTypeScript } from "./recording.ts";
+import {
+  type BrowserConnection,
+  type ConnectionHandler,
+  listenUnix,
+  selectTransports,
+  socketPath
+} from "./transport.ts";
+import {
+  DEFAULT_WAIT_TIMEOUT_MS,
+  isBrowserTool,
+  isToolName,
+  listTools,
+  takesArgument,
+  targetsTab,
+  type ToolArgs,
+  type ToolHandlers,
+  type ToolName,
+  validateToolArgs
+} from "./tools.ts";
+import {
+  DEFAULT_POLICY,
+  evaluatePolicy,
+  isPolicyError,
+  loadPolicy,
+  originOf,
+  type Policy,
+  policyError,
+  policyPath,
+  type PolicyRequest,
+  VisitedHosts,
+  withHttps
+} from "./policy.ts";
+import { audit, auditPath } from "./audit.ts";
+import {
+  readSession,
+  recordResult,
+  recordStep,
+  redactArguments,
+  replayDifference,
+  saveScreenshot,
+  sessionActive,
+  type SessionStep,
+  startSession,
+  takeSeq,
+  wantsScreenshots
+} from "./session.ts";
 
 const WS_PORT = 9876;
+// notifications/message levels, least severe first
+const LOG_LEVELS = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+const EXTENSION_TIMEOUT_MS = 30000;
 
-// MCP Tool definitions
-const MCP_TOOLS = [
-  {
-    name: "screenshot",
-    description: "Take a screenshot of the current browser tab",
-    inputSchema: {
-      type: "object",
-      properties: {
-        tabId: { type: "number", description: "Tab ID (optional, uses active tab)" }
-      }
-    }
-  },
-  {
-    name: "navigate",
-    description: "Navigate to a URL or go back/forward in history",
-    inputSchema: {
-      type: "object",
-      properties: {
-        url: { type: "string", description: "URL to navigate to, or 'back'/'forward'" },
-        tabId: { type: "number", description: "Tab ID (optional)" }
-      },
-      required: ["url"]
-    }
-  },
-  {
-    name: "read_page",
-    description: "Get the accessibility tree representation of the page",
-    inputSchema: {
-      type: "object",
-      properties: {
-        tabId: { type: "number", description: "Tab ID (optional)" },
-        depth: { type: "number", description: "Max depth (default: 15)" },
-        filter: { type: "string", enum: ["all", "interactive"], description: "Filter elements" }
-      }
-    }
-  },
-  {
-    name: "click",
-    description: "Click at coordinates",
-    inputSchema: {
-      type: "object",
-      properties: {
-        coordinate: { type: "array", items: { type: "number" }, description: "[x, y] coordinates" },
-        button: { type: "string", enum: ["left", "right"], description: "Mouse button" },
-        tabId: { type: "number" }
-      },
-      required: ["coordinate"]
-    }
-  },
-  {
-    name: "type",
-    description: "Type text into the focused element",
-    inputSchema: {
-      type: "object",
-      properties: {
-        text: { type: "string", description: "Text to type" },
-        coordinate: { type: "array", items: { type: "number" }, description: "[x, y] to click first" },
-        tabId: { type: "number" }
-      },
-      required: ["text"]
-    }
-  },
-  {
-    name: "scroll",
-    description: "Scroll the page",
-    inputSchema: {
-      type: "object",
-      properties: {
-        direction: { type: "string", enum: ["up", "down", "left", "right"] },
-        amount: { type: "number", description: "Pixels (default: 300)" },
-        coordinate: { type: "array", items: { type: "number" } },
-        tabId: { type: "number" }
-      },
-      required: ["direction"]
-    }
-  },
-  {
-    name: "execute_js",
-    description: "Execute JavaScript in the page",
-    inputSchema: {
-      type: "object",
-      properties: {
-        code: { type: "string", description: "JavaScript code" },
-        tabId: { type: "number" }
-      },
-      required: ["code"]
-    }
-  },
-  {
-    name: "find",
-    description: "Find elements by text or CSS selector",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: { type: "string", description: "Text or selector" },
-        tabId: { type: "number" }
-      },
-      required: ["query"]
-    }
-  },
-  {
-    name: "form_input",
-    description: "Set a form field value",
-    inputSchema: {
-      type: "object",
-      properties: {
-        selector: { type: "string", description: "CSS selector" },
-        value: { description: "Value to set" },
-        tabId: { type: "number" }
-      },
-      required: ["selector", "value"]
-    }
-  },
-  {
-    name: "tabs_list",
-    description: "List open tabs",
-    inputSchema: { type: "object", properties: {} }
-  },
-  {
-    name: "tabs_create",
-    description: "Create a new tab",
-    inputSchema: {
-      type: "object",
-      properties: { url: { type: "string" } }
-    }
-  },
-  {
-    name: "tabs_close",
-    description: "Close a tab",
-    inputSchema: {
-      type: "object",
-      properties: { tabId: { type: "number" } }
-    }
-  },
-  {
-    name: "get_page_text",
-    description: "Get page text content",
-    inputSchema: {
-      type: "object",
-      properties: { tabId: { type: "number" } }
-    }
-  }
-];
+// Pointer/keyboard backend (null: the extension synthesizes events)
+const inputBackend = selectInputBackend();
+
+// Tools that can submit a form, and tools that open a URL (for confirm rules)
+const SUBMIT_TOOLS = ["click", "double_click", "key_press", "type"];
+const VISIT_TOOLS = ["navigate", "tabs_create", "windows_create"];
+
+// How extensions reach this server (see host/transport.ts)
+const transports = selectTransports();
+
+// How page dialogs are answered unless dialog_handle says otherwise
+let dialogPolicy = selectDialogPolicy();
+
+// Whether each browser gives the session a window of its own
+const windowScope = selectWindowScope();
 
 // State
-let extensionSocket: WebSocket | null = null;
+let pairingSecret = "";
+let clientInitialized = false;
+let policy: Policy = DEFAULT_POLICY;
+const visitedHosts = new VisitedHosts();
+// Tool names in the last tools/list answer, to tell the client when they change
+let listedTools = "";
+// Resource URIs the client subscribed to
+const subscriptions = new Set<string>();
+// Least severe notifications/message the client wants (logging/setLevel)
+let logLevel = "info";
 let requestId = 0;
+// tools/call requests still running, to stop the ones the client cancels
+const runningCalls = new Map<RequestId, AbortController>();
 const pendingRequests = new Map<number, {
+  browserId: string;
+  connection: BrowserConnection;
+  mcpId?: RequestId;
+  progressToken?: string | number;
   resolve: (value: unknown) => void;
   reject: (error: Error) => void;
 }>();
 
+// Context of the MCP request a tool call is made for
+interface CallContext {
+  mcpId?: RequestId;
+  progressToken?: string | number;
+  // Aborted with a CancelledError when the client cancels the request
+  signal?: AbortSignal;
+}
+
 // Write to stdout (MCP responses to Claude Code)
 function writeStdout(message: unknown): void {
   const json = JSON.stringify(message);
@@ -168,98 +165,701 @@ function log(...args: unknown[]): void {
   console.error("[MCP Server]", ...args);
 }
 
+// Calls that wait on page conditions may legitimately outlast the default timeout
+function extensionTimeout(toolName: string, args: Record<string, unknown>): number {
+  if (toolName === "policy_confirm") return EXTENSION_TIMEOUT_MS + Number(args.timeout);
+  const wait = toolName === "wait_for" ? args : args.waitFor as Record<string, unknown> | undefined;
+  if (!wait) return EXTENSION_TIMEOUT_MS;
+  return EXTENSION_TIMEOUT_MS + Number(wait.timeout ?? DEFAULT_WAIT_TIMEOUT_MS);
+}
+
 // Send tool call to Firefox extension
-async function callExtension(toolName: string, args: Record<string, unknown>): Promise<unknown> {
-  if (!extensionSocket || extensionSocket.readyState !== WebSocket.OPEN) {
-    throw new Error("Firefox extension not connected. Start Firefox with the extension loaded.");
+function callExtension(
+  toolName: string,
+  args: Record<string, unknown>,
+  context: CallContext = {}
+): Promise<unknown> {
+  const { browserId, ...toolArgs } = args;
+  const browser = resolveBrowser(typeof browserId === "string" ? browserId : undefined);
+  if (!supportsTool(browser, toolName)) {
+    throw new Error(`Browser ${browser.id} (profile "${browser.profile}") does not support ${toolName}; update the extension`);
   }
 
   const id = ++requestId;
 
   const promise = new Promise((resolve, reject) => {
-    pendingRequests.set(id, { resolve, reject });
+    pendingRequests.set(id, { browserId: browser.id, connection: browser.connection, ...context, resolve, reject });
 
-    // Timeout after 30 seconds
     setTimeout(() => {
       if (pendingRequests.has(id)) {
         pendingRequests.delete(id);
         reject(new Error("Extension request timed out"));
       }
-    }, 30000);
+    }, extensionTimeout(toolName, toolArgs));
   });
 
-  extensionSocket.send(JSON.stringify({
+  browser.connection.send(JSON.stringify({
     jsonrpc: "2.0",
     id,
     method: "tools/call",
-    params: { name: toolName, arguments: args }
+    params: {
+      name: toolName,
+      arguments: toolArgs,
+      // Ask the extension for progress updates only when the client wants them
+      ...(context.progressToken !== undefined ? { _meta: { progress: true } } : {})
+    }
   }));
 
   return promise;
 }
 
+// Run an input tool through the host's input backend; the extension only locates targets
+async function performInput(name: string, args: Record<string, unknown>, context: CallContext) {
+  const locate = async (locateArgs: Record<string, unknown>): Promise<LocatedTargets> => {
+    const reply = await callExtension("input_locate", locateArgs, context) as { content: { text: string }[] };
+    return JSON.parse(reply.content[0].text);
+  };
+  const text = await inputBackend!.perform(name, args, locate);
+  if (!args.waitFor) return { content: [{ type: "text", text }] };
+
+  // Wait conditions are still evaluated by the extension
+  const { browserId, tabId } = args;
+  const waited = await callExtension(
+    "wait_for",
+    { ...(args.waitFor as Record<string, unknown>), browserId, tabId },
+    context
+  ) as { content: { type: string; text: string }[]; isError?: boolean };
+  return { ...waited, content: [{ type: "text", text }, ...waited.content] };
+}
+
+// Fetch the raw capture from the extension and format it on the host
+async function networkGet(args: ToolArgs<"network_get">, context: CallContext) {
+  const { format = "summary", path, ...query } = args;
+  if (format === "summary") delete query.includeBodies;
+  const reply = await callExtension("network_get", query, context) as { content: { text: string }[] };
+  const networkLog: NetworkLog = JSON.parse(reply.content[0].text);
+
+  let text: string;
+  if (format === "har") {
+    text = JSON.stringify(toHar(networkLog), null, 2);
+  } else if (format === "json") {
+    text = JSON.stringify(networkLog, null, 2);
+  } else {
+    text = summarizeNetworkLog(networkLog);
+  }
+
+  if (path) {
+    await Deno.writeTextFile(path, text);
+    text = `Wrote ${networkLog.entries.length} of ${networkLog.total} requests to ${path}`;
+  }
+  return { content: [{ type: "text", text }] };
+}
+
+// Site state files are written and read by the host; the extension only sees JSON
+async function stateExport(args: ToolArgs<"state_export">, context: CallContext) {
+  const { path, ...query } = args;
+  const reply = await callExtension("state_export", query, context) as { content: { text: string }[] };
+  const state = JSON.parse(reply.content[0].text);
+
+  await Deno.writeTextFile(path, JSON.stringify(state, null, 2) + "\n", { mode: 0o600 });
+  return {
+    content: [{
+      type: "text",
+      text: `Saved ${state.cookies.length} cookie(s), ${Object.keys(state.localStorage).length} localStorage and ` +
+        `${Object.keys(state.sessionStorage).length} sessionStorage item(s) for ${state.origin} to ${path}`
+    }]
+  };
+}
+
+async function stateImport(args: ToolArgs<"state_import">, context: CallContext) {
+  const { path, ...rest } = args;
+  const state = JSON.parse(await Deno.readTextFile(path));
+  return await callExtension("state_import", { ...rest, state }, context);
+}
+
+async function getPageContent(args: ToolArgs<"get_page_content">, context: CallContext) {
+  const { offset, section, maxTokens, ...query } = args;
+  const reply = await callExtension("get_page_content", query, context) as { content: { text: string }[] };
+  const page: PageContent = JSON.parse(reply.content[0].text);
+  return { content: [{ type: "text", text: pageChunk(page, { offset, section, maxTokens }) }] };
+}
+
+async function uploadFile(args: ToolArgs<"upload_file">, context: CallContext) {
+  const { paths, ...target } = args;
+  return await callExtension("upload_file", { ...target, files: await readUploads(paths) }, context);
+}
+
+async function downloadsGet(args: ToolArgs<"downloads_get">, context: CallContext) {
+  const { contents = false, maxBytes, ...query } = args;
+  const reply = await callExtension("downloads_get", query, context) as { content: { text: string }[] };
+  if (!contents) return reply;
+
+  const download = JSON.parse(reply.content[0].text) as { id: number; filename: string; mime?: string; state: string };
+  if (download.state !== "complete") {
+    throw new Error(`Download ${download.id} is ${download.state}; wait for it with downloads_wait`);
+  }
+  return { content: [reply.content[0], await downloadContent(download.filename, download.mime, maxBytes)] };
+}
+
+async function recordingGet(args: ToolArgs<"recording_get">, context: CallContext) {
+  const { format = "json", path } = args;
+  const reply = await callExtension("recording_get", {}, context) as { content: { text: string }[] };
+  const recording = parseRecording(reply.content[0].text);
+  if (!recording) throw new Error("The extension returned an unreadable recording");
+
+  let text = format === "typescript" ? toTypeScript(recording) : JSON.stringify(recording, null, 2);
+  if (path) {
+    await Deno.writeTextFile(path, text + (format === "json" ? "\n" : ""));
+    text = `Wrote ${recording.steps.length} recorded step(s) to ${path}`;
+  }
+  return { content: [{ type: "text", text }] };
+}
+
+// The session's dialog policy lives here; each browser gets it on connect and on change
+async function dialogHandle(args: ToolArgs<"dialog_handle">, context: CallContext) {
+  if (args.default) {
+    dialogPolicy = args.default;
+    const target = resolveBrowser(args.browserId).id;
+    for (const browser of listBrowsers()) {
+      if (browser.id !== target) sendDialogPolicy(browser.id);
+    }
+  }
+  return await callExtension("dialog_handle", { ...args, default: dialogPolicy }, context);
+}
+
+function sendDialogPolicy(browserId: string): void {
+  try {
+    callExtension("dialog_handle", { browserId, default: dialogPolicy })
+      .catch((e) => log(`Could not set the dialog policy of ${browserId}:`, e instanceof Error ? e.message : e));
+  } catch {
+    // Extension predates dialog handling
+  }
+}
+
+// Opens the session window, or finds it still open after a reconnect
+function sendSessionWindow(browserId: string): void {
+  if (windowScope !== "dedicated") return;
+  try {
+    callExtension("windows_create", { browserId, session: true })
+      .catch((e) => log(`Could not open a session window in ${browserId}:`, e instanceof Error ? e.message : e));
+  } catch {
+    // Extension predates window management
+  }
+}
+
+// Each step goes through callTool like a call of its own: policy, session log,
+// timeouts. Only the batch reports progress, one step at a time.
+async function runBatch(args: ToolArgs<"batch">, context: CallContext) {
+  const { steps, onError = "stop" } = args;
+  const unknown = steps.find((step) => !isToolName(step.tool) || step.tool === "batch");
+  if (unknown) throw new Error(`batch cannot run ${unknown.tool}`);
+
+  const stepContext: CallContext = { mcpId: context.mcpId, signal: context.signal };
+  const reports: StepReport[] = [];
+  let previous: ToolResult | undefined;
+  for (const [i, step] of steps.entries()) {
+    throwIfCancelled(context);
+    const tool = step.tool as ToolName;
+    if (context.progressToken !== undefined) {
+      writeStdout({
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: { progressToken: context.progressToken, progress: i, total: steps.length, message: tool }
+      });
+    }
+
+    const started = Date.now();
+    let result: ToolResult;
+    try {
+      const stepArgs = resolveReferences(step.arguments ?? {}, previous) as Record<string, unknown>;
+      result = await callTool(tool, validateToolArgs(tool, stepArgs), stepContext) as ToolResult;
+      const { tabId, browserId } = stepArgs;
+      const follow = async (name: "wait_for" | "screenshot", followArgs: Record<string, unknown>) => {
+        if (result.isError) return;
+        const more = await callTool(name, validateToolArgs(name, { ...followArgs, tabId, browserId }), stepContext) as ToolResult;
+        result = { content: [...result.content ?? [], ...more.content ?? []], isError: more.isError };
+      };
+      if (step.waitFor) await follow("wait_for", step.waitFor);
+      if (step.screenshot) await follow("screenshot", {});
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      result = toolError(error instanceof Error ? error.message : String(error));
+    }
+
+    const outcome = isPolicyError(result) ? "denied" : result.isError ? "error" : "ok";
+    reports.push({ tool, outcome, durationMs: Date.now() - started, result });
+    previous = result;
+    if (outcome !== "ok" && onError === "stop") break;
+  }
+  return batchResult(reports, steps.length, reports.length < steps.length);
+}
+
+// Tools the server implements, or wraps around the extension call of the same name
+const HOST_HANDLERS: ToolHandlers<CallContext> = {
+  browsers_list: () => Promise.resolve({ content: [{ type: "text", text: JSON.stringify(describeBrowsers(), null, 2) }] }),
+  batch: runBatch,
+  events_poll: eventsPoll,
+  network_get: networkGet,
+  get_page_content: getPageContent,
+  upload_file: uploadFile,
+  downloads_get: downloadsGet,
+  recording_get: recordingGet,
+  dialog_handle: dialogHandle,
+  state_export: stateExport,
+  state_import: stateImport
+};
+
+// The frame a call acts in, for tools that take one; the others run in the top
+// frame, so their page is the tab's
+function frameOf(name: ToolName, args: Record<string, unknown>): { frameId?: unknown } {
+  return takesArgument(name, "frameId") && args.frameId !== undefined ? { frameId: args.frameId } : {};
+}
+
+// The page a call acts on and whether it submits a form. The tab's URL is only
+// fetched from the extension when the policy could depend on it.
+async function policyRequest(name: ToolName, args: Record<string, unknown>, context: CallContext): Promise<PolicyRequest> {
+  const { url, origin: originArg, domain, path } = args;
+  const visits = VISIT_TOOLS.includes(name) && typeof url === "string" && url !== "back" && url !== "forward";
+  let origin: string | null = null;
+  if (visits) {
+    // tabs_create opens the URL as given; the others add https:// like navigate
+    origin = name === "tabs_create" ? url as string : withHttps(url as string);
+  } else if (typeof originArg === "string") {
+    origin = originArg;
+  } else if (name.startsWith("cookies_")) {
+    origin = typeof url === "string" ? url : typeof domain === "string" ? `https://${domain.replace(/^\./, "")}` : null;
+  } else if (name === "state_import") {
+    origin = JSON.parse(await Deno.readTextFile(path as string)).origin ?? null;
+  }
+
+  const checkSubmit = policy.confirm.formSubmit && SUBMIT_TOOLS.includes(name);
+  const originMatters = policy.origins.length > 0 || policy.default !== "allow" || policy.confirm.newDomains;
+  let submitsForm = false;
+  if (isBrowserTool(name) && targetsTab(name) && ((origin === null && originMatters) || checkSubmit)) {
+    const { browserId, tabId, ref, locator, coordinate, keys, text } = args;
+    const reply = await callExtension(
+      "tab_context",
+      {
+        browserId,
+        tabId,
+        ...frameOf(name, args),
+        ...(checkSubmit ? { tool: name, ref, locator, coordinate, keys, text } : {})
+      },
+      context
+    ) as { content: { text: string }[] };
+    const page = JSON.parse(reply.content[0].text) as { url: string; submitsForm: boolean };
+    origin ??= page.url;
+    submitsForm = page.submitsForm;
+  }
+
+  return { tool: name, origin: origin === null ? null : originOf(origin), visits, submitsForm };
+}
+
+// Apply the policy to a call, asking the user for "confirm" rules. Returns the
+// error result for a refused call, or null to go ahead. Every decision is audited.
+async function enforcePolicy(name: ToolName, args: Record<string, unknown>, context: CallContext) {
+  const request = await policyRequest(name, args, context);
+  const decision = evaluatePolicy(policy, request, visitedHosts);
+
+  let allowed = decision.action === "allow";
+  let reason = decision.reason;
+  if (decision.action === "confirm") {
+    const summary = JSON.stringify(args, null, 2);
+    const reply = await callExtension("policy_confirm", {
+      browserId: args.browserId,
+      tool: name,
+      origin: request.origin,
+      reason: decision.reason,
+      summary: summary.length > 1000 ? summary.slice(0, 1000) + "\n..." : summary,
+      timeout: policy.confirm.timeoutMs
+    }, context) as { content: { text: string }[] };
+    const answer = JSON.parse(reply.content[0].text) as { approved: boolean; reason: string };
+    allowed = answer.approved;
+    reason = `${decision.reason}; ${answer.reason}`;
+  }
+
+  audit("policy", {
+    tool: name,
+    browserId: args.browserId,
+    origin: request.origin,
+    ...(request.submitsForm ? { submitsForm: true } : {}),
+    action: decision.action,
+    allowed,
+    rule: decision.rule,
+    reason
+  });
+
+  if (!allowed) {
+    log(`Policy refused ${name}${request.origin ? ` on ${request.origin}` : ""}: ${reason}`);
+    return policyError(name, request.origin, { rule: decision.rule, reason });
+  }
+  if (request.origin) visitedHosts.add(request.origin);
+  return null;
+}
+
+async function runTool<N extends ToolName>(name: N, args: ToolArgs<N>, context: CallContext): Promise<unknown> {
+  const refused = await enforcePolicy(name, args, context);
+  if (refused) return refused;
+
+  if (inputBackend && INPUT_TOOLS.includes(name)) return performInput(name, args, context);
+  const handler = HOST_HANDLERS[name] as ((args: ToolArgs<N>, context: CallContext) => Promise<unknown>) | undefined;
+  if (handler) return handler(args, context);
+  return callExtension(name, args, context);
+}
+
+// Screenshot for the session log; a failed capture only leaves a gap
+async function sessionScreenshot(seq: number, when: "before" | "after", args: Record<string, unknown>) {
+  try {
+    const { browserId, tabId } = args;
+    const reply = await callExtension(
+      "screenshot",
+      { browserId, tabId, format: "jpeg", quality: 60, maxWidth: 1280 }
+    ) as { content: { type: string; data?: string }[] };
+    const image = reply.content.find((c) => c.type === "image");
+    return image?.data ? await saveScreenshot(seq, when, image.data) : undefined;
+  } catch (e) {
+    log(`Session screenshot ${seq}-${when} failed:`, e instanceof Error ? e.message : e);
+    return undefined;
+  }
+}
+
+// Tab URL after a call for the session log, and whether it typed into a password-like field
+async function sessionPageContext(name: ToolName, args: Record<string, unknown>) {
+  if (!isBrowserTool(name) || !targetsTab(name)) return undefined;
+  const { browserId, tabId, ref, locator, selector, coordinate } = args;
+  const checkTarget = name === "type" || name === "form_input";
+  try {
+    const reply = await callExtension(
+      "tab_context",
+      { browserId, tabId, ...frameOf(name, args), ...(checkTarget ? { tool: name, ref, locator, selector, coordinate } : {}) }
+    ) as { content: { text: string }[] };
+    return JSON.parse(reply.content[0].text) as { url: string; sensitive: boolean };
+  } catch {
+    return undefined; // Tab closed by the call, or browser gone
+  }
+}
+
+// Run a validated call and add it to the session log. Tool failures become
+// isError results; a cancelled call is logged and rethrown.
+async function callTool<N extends ToolName>(name: N, args: ToolArgs<N>, context: CallContext): Promise<unknown> {
+  log(`Tool call: ${name}`);
+  const seq = takeSeq();
+  const screenshots: SessionStep["screenshots"] = {};
+  if (wantsScreenshots(name)) screenshots.before = await sessionScreenshot(seq, "before", args);
+
+  const started = Date.now();
+  let result: unknown;
+  let outcome: SessionStep["outcome"];
+  let cancelled: CancelledError | null = null;
+  try {
+    result = await runTool(name, args, context);
+    outcome = isPolicyError(result) ? "denied" : (result as { isError?: boolean })?.isError ? "error" : "ok";
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      cancelled = error;
+      outcome = "cancelled";
+    } else {
+      log(`Tool ${name} failed:`, error instanceof Error ? error.message : error);
+      result = toolError(error instanceof Error ? error.message : String(error));
+      outcome = "error";
+    }
+  }
+  const durationMs = Date.now() - started;
+
+  // A batch is logged as its steps, which replay on their own
+  if (sessionActive() && name !== "batch") {
+    if (outcome === "ok" && wantsScreenshots(name)) screenshots.after = await sessionScreenshot(seq, "after", args);
+    const page = await sessionPageContext(name, args);
+    const logged = redactArguments(name, args, page?.sensitive ?? false);
+    await recordStep({
+      seq,
+      tool: name,
+      ...(args.browserId ? { browserId: args.browserId } : {}),
+      arguments: logged.arguments,
+      ...(logged.redacted.length > 0 ? { redacted: logged.redacted } : {}),
+      durationMs,
+      outcome,
+      ...(page ? { tabUrl: page.url } : {}),
+      ...(cancelled ? {} : { result: await recordResult(name, result) }),
+      ...(screenshots.before || screenshots.after ? { screenshots } : {})
+    });
+  }
+
+  if (cancelled) throw cancelled;
+  return result;
+}
+
+// firefox://tabs, and the resources of each tab of the default browser
+async function listResources() {
+  const resources = [tabsResource()];
+  if (listBrowsers().length === 0) return resources;
+  try {
+    const reply = await runTool("tabs_list", {}, {}) as { content: { text: string }[]; isError?: boolean };
+    if (reply.isError) throw new Error(reply.content[0].text);
+    const tabs = JSON.parse(reply.content[0].text) as { id: number; title?: string; url?: string }[];
+    resources.push(...tabs.flatMap(tabResources));
+  } catch (e) {
+    log("Could not list tab resources:", e instanceof Error ? e.message : e);
+  }
+  return resources;
+}
+
+// A resource is read with the tool call that returns the same content, so the
+// policy applies to it as it would to the call
+async function readResource(uri: unknown, context: CallContext) {
+  const call = typeof uri === "string" ? resourceCall(uri) : null;
+  if (!call) throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  const result = await runTool(call.tool, validateToolArgs(call.tool, call.args), context) as {
+    content: { type: string; text?: string; data?: string; mimeType?: string }[];
+    isError?: boolean;
+  };
+  if (result.isError) throw new Error(result.content[0]?.text ?? `Could not read ${uri}`);
+  return { contents: resourceContents(uri as string, call, result) };
+}
+
+// A browser event: into the event log, to the client as a log message, and to
+// resource subscribers when a tab navigated, changed title, opened or closed
+function browserEvent(browserId: string, params: Record<string, unknown>): void {
+  const event = recordEvent(browserId, params);
+  if (!event) return;
+  const level = eventLevel(event);
+  if (level === "error" || level === "warning" || event.type.startsWith("dialog.")) log(`Browser ${browserId}: ${describeEvent(event)}`);
+  if (!clientInitialized) return;
+
+  if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(logLevel)) {
+    writeStdout({
+      jsonrpc: "2.0",
+      method: "notifications/message",
+      params: { level, logger: "firefox", data: event }
+    });
+  }
+  for (const uri of changedResources(event, subscriptions)) {
+    writeStdout({ jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri } });
+  }
+  if (changesResourceList(event)) {
+    writeStdout({ jsonrpc: "2.0", method: "notifications/resources/list_changed" });
+  }
+}
+
+async function eventsPoll(args: ToolArgs<"events_poll">, context: CallContext) {
+  const found = await pollEvents(args, context.signal);
+  throwIfCancelled(context);
+  return { content: [{ type: "text", text: formatEvents(found) }] };
+}
+
+// Tools of the connected browsers; the full list while none is connected
+function currentTools() {
+  return listTools(browserToolSet());
+}
+
+// Connecting or losing a browser can change what tools/list returns
+function notifyToolsChanged(): void {
+  if (!clientInitialized) return;
+  const names = currentTools().map((t) => t.name).join(",");
+  if (names === listedTools) return;
+  listedTools = names;
+  writeStdout({ jsonrpc: "2.0", method: "notifications/tools/list_changed" });
+}
+
+// Stop a call the server runs itself once its request is cancelled; extension
+// calls are stopped by cancelExtensionCall
+function throwIfCancelled(context: CallContext): void {
+  if (context.signal?.aborted) throw context.signal.reason;
+}
+
+// Abort the extension call made for a cancelled MCP request
+function cancelExtensionCall(mcpId: RequestId, reason?: string): void {
+  for (const [id, pending] of pendingRequests) {
+    if (pending.mcpId !== mcpId) continue;
+
+    pendingRequests.delete(id);
+    pending.reject(new CancelledError(reason));
+    try {
+      resolveBrowser(pending.browserId).connection.send(JSON.stringify({
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: id, reason }
+      }));
+    } catch {
+      // Browser already gone; nothing left to stop
+    }
+    log(`Cancelled request ${mcpId}${reason ? `: ${reason}` : ""}`);
+  }
+}
+
 // Handle MCP request from Claude Code
-async function handleMcpRequest(request: { id?: number; method: string; params?: Record<string, unknown> }): Promise<void> {
+async function handleMcpRequest(request: McpRequest): Promise<void> {
   const { id, method, params } = request;
+  const isNotification = id === undefined || id === null;
 
   try {
     let result: unknown;
 
     switch (method) {
-      case "initialize":
+      case "initialize": {
+        const protocolVersion = negotiateProtocolVersion(params?.protocolVersion);
+        log(`Negotiated protocol version ${protocolVersion}`);
         result = {
-          protocolVersion: "2024-11-05",
-          capabilities: { tools: {} },
+          protocolVersion,
+          capabilities: {
+            tools: { listChanged: true },
+            resources: { subscribe: true, listChanged: true },
+            logging: {}
+          },
           serverInfo: {
             name: "claude-firefox-mcp",
             version: "1.0.0"
           }
         };
         break;
+      }
 
       case "notifications/initialized":
         log("MCP initialized");
+        clientInitialized = true;
         return; // No response needed
 
-      case "tools/list":
-        result = { tools: MCP_TOOLS };
+      case "notifications/cancelled": {
+        const { requestId: cancelledId, reason } = (params ?? {}) as { requestId?: RequestId; reason?: string };
+        if (cancelledId === undefined) return;
+        runningCalls.get(cancelledId)?.abort(new CancelledError(reason));
+        cancelExtensionCall(cancelledId, reason);
+        return;
+      }
+
+      case "ping":
+        result = {};
+        break;
+
+      case "tools/list": {
+        const tools = currentTools();
+        listedTools = tools.map((t) => t.name).join(",");
+        result = { tools };
         break;
+      }
 
       case "tools/call": {
-        const { name, arguments: args } = params as { name: string; arguments: Record<string, unknown> };
-        log(`Tool call: ${name}`);
-        result = await callExtension(name, args || {});
+        const { name, arguments: args, _meta } = (params ?? {}) as {
+          name?: string;
+          arguments?: Record<string, unknown>;
+          _meta?: { progressToken?: string | number };
+        };
+        if (!isToolName(name)) {
+          throw new McpError(INVALID_PARAMS, `Unknown tool: ${name}`);
+        }
+        const toolArgs = validateToolArgs(name, args);
+
+        const mcpId = id ?? undefined;
+        const controller = new AbortController();
+        if (mcpId !== undefined) runningCalls.set(mcpId, controller);
+        try {
+          result = await callTool(name, toolArgs, { mcpId, progressToken: _meta?.progressToken, signal: controller.signal });
+        } catch (error) {
+          if (error instanceof CancelledError) return; // The client is no longer waiting for a response
+          throw error;
+        } finally {
+          if (mcpId !== undefined) runningCalls.delete(mcpId);
+        }
+        if (controller.signal.aborted) return; // Cancelled after the last thing that could stop it
+        break;
+      }
+
+      case "logging/setLevel": {
+        const level = params?.level;
+        if (typeof level !== "string" || !LOG_LEVELS.includes(level)) {
+          throw new McpError(INVALID_PARAMS, `Unknown log level: ${level}. Use ${LOG_LEVELS.join(", ")}`);
+        }
+        logLevel = level;
+        result = {};
+        break;
+      }
+
+      case "resources/list":
+        result = { resources: await listResources() };
+        break;
+
+      case "resources/templates/list":
+        result = { resourceTemplates: RESOURCE_TEMPLATES };
+        break;
+
+      case "resources/read":
+        try {
+          result = await readResource(params?.uri, { mcpId: id ?? undefined });
+        } catch (error) {
+          if (error instanceof CancelledError) return;
+          throw error;
+        }
+        break;
+
+      case "resources/subscribe":
+      case "resources/unsubscribe": {
+        const uri = params?.uri;
+        if (typeof uri !== "string" || !resourceCall(uri)) {
+          throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+        }
+        if (method === "resources/subscribe") subscriptions.add(uri);
+        else subscriptions.delete(uri);
+        result = {};
         break;
       }
 
       default:
-        writeStdout({
-          jsonrpc: "2.0",
-          id,
-          error: { code: -32601, message: `Method not found: ${method}` }
-        });
-        return;
+        if (isNotification) return; // Unknown notifications are ignored
+        throw new McpError(METHOD_NOT_FOUND, `Method not found: ${method}`);
     }
 
-    writeStdout({ jsonrpc: "2.0", id, result });
+    if (!isNotification) writeStdout({ jsonrpc: "2.0", id, result });
   } catch (error) {
     log("Error:", error);
+    if (isNotification) return;
     writeStdout({
       jsonrpc: "2.0",
       id,
       error: {
-        code: -32000,
-        message: error instanceof Error ? error.message : String(error)
+        code: error instanceof McpError ? error.code : -32000,
+        message: error instanceof Error ? error.message : String(error),
+        ...(error instanceof McpError && error.data ? { data: error.data } : {})
       }
     });
   }
 }
 
 // Handle message from Firefox extension
-function handleExtensionMessage(data: string): void {
+function handleExtensionMessage(data: string, browserId: string | null): void {
   try {
     const message = JSON.parse(data);
 
+    // Progress from a long-running tool, forwarded if the client asked for it
+    if (message.method === "notifications/progress") {
+      const pending = pendingRequests.get(message.params?.requestId);
+      if (pending?.progressToken !== undefined) {
+        const { progress, total, message: text } = message.params;
+        writeStdout({
+          jsonrpc: "2.0",
+          method: "notifications/progress",
+          params: { progressToken: pending.progressToken, progress, total, message: text }
+        });
+      }
+      return;
+    }
+
+    // The user stopped a recording from the toolbar button
+    if (message.method === "recording/finished") {
+      const recording = parseRecording(JSON.stringify(message.params));
+      if (recording) {
+        saveRecording(recording)
+          .then((path) => log(`Saved recording of ${recording.steps.length} step(s) to ${path}`))
+          .catch((e) => log("Failed to save recording:", e));
+      }
+      return;
+    }
+
+    // Something happened in the browser that no call asked about
+    if (message.method === "browser/event") {
+      if (browserId) browserEvent(browserId, message.params ?? {});
+      return;
+    }
+
     if (message.id && pendingRequests.has(message.id)) {
       const { resolve, reject } = pendingRequests.get(message.id)!;
       pendingRequests.delete(message.id);
@@ -275,31 +875,141 @@ function handleExtensionMessage(data: string): void {
   }
 }
 
+// Fail in-flight calls on a connection that went away or was replaced instead of
+// waiting for the timeout; no reply to them can arrive on another connection
+function rejectPendingOn(connection: BrowserConnection, reason: string): void {
+  for (const [id, pending] of pendingRequests) {
+    if (pending.connection === connection) {
+      pendingRequests.delete(id);
+      pending.reject(new Error(reason));
+    }
+  }
+}
+
+// Parse a browser/hello announcement, or null for any other message
+function parseHello(data: string): BrowserHello | null {
+  try {
+    const message = JSON.parse(data);
+    if (message.method !== "browser/hello" || typeof message.params?.id !== "string") return null;
+    return message.params as BrowserHello;
+  } catch {
+    return null;
+  }
+}
+
+// Handshake, browser/hello and tool traffic of one extension connection, whatever
+// the transport. The challenge goes out as soon as the connection is accepted.
+function acceptConnection(connection: BrowserConnection): ConnectionHandler {
+  const challenge = createChallenge();
+  let authenticated = false;
+  let browserId: string | null = null;
+
+  connection.send(JSON.stringify({ jsonrpc: "2.0", method: "auth/challenge", params: challenge }));
+  const authTimer = setTimeout(() => {
+    log(`Rejected unauthenticated connection (${connection.label}): no handshake within ${AUTH_TIMEOUT_MS}ms`);
+    connection.close(CLOSE_AUTH_TIMEOUT, "Authentication timed out");
+  }, AUTH_TIMEOUT_MS);
+
+  return {
+    async message(data) {
+      if (authenticated) {
+        const hello = parseHello(data);
+        if (hello) {
+          const previous = registerBrowser(hello, connection);
+          browserId = hello.id;
+          if (previous && previous.connection !== connection) {
+            log(`Browser ${hello.id} reconnected, replacing its previous connection`);
+            rejectPendingOn(previous.connection, `Browser ${hello.id} reconnected`);
+            previous.connection.close(1000, "Replaced by a newer connection");
+          }
+          log(`Firefox extension connected over ${connection.label}: ${hello.id} (profile "${hello.profile || "default"}")`);
+          sendDialogPolicy(hello.id);
+          sendSessionWindow(hello.id);
+          notifyToolsChanged();
+          return;
+        }
+        handleExtensionMessage(data, browserId);
+        return;
+      }
+
+      let message;
+      try {
+        message = JSON.parse(data);
+      } catch {
+        message = null;
+      }
+
+      const serverProof = message?.method === "auth/response"
+        ? await verifyResponse(pairingSecret, challenge, message.params as Partial<AuthResponse>)
+        : null;
+      clearTimeout(authTimer);
+
+      if (!serverProof) {
+        log(`Rejected unauthenticated connection (${connection.label}): invalid pairing proof`);
+        connection.close(CLOSE_AUTH_FAILED, "Authentication failed");
+        return;
+      }
+
+      authenticated = true;
+      connection.send(JSON.stringify({ jsonrpc: "2.0", method: "auth/accepted", params: { proof: serverProof } }));
+      log(`Authenticated extension (${connection.label}), waiting for browser/hello`);
+    },
+
+    closed() {
+      clearTimeout(authTimer);
+      const instance = unregisterBrowser(connection);
+      if (!instance) return;
+      log(`Firefox extension disconnected: ${instance.id} (profile "${instance.profile}")`);
+      rejectPendingOn(connection, `Browser ${instance.id} disconnected`);
+      notifyToolsChanged();
+    }
+  };
+}
+
 // Start WebSocket server for Firefox extension
-async function startWebSocketServer(): Promise<void> {
+function startWebSocketServer(): void {
   log(`Starting WebSocket server on port ${WS_PORT}`);
 
-  const server = Deno.serve({ port: WS_PORT }, (req) => {
+  const serveOptions = {
+    port: WS_PORT,
+    hostname: "127.0.0.1",
+    // Deno prints its listen banner to stdout by default, which would corrupt the MCP stream
+    onListen: ({ hostname, port }: { hostname: string; port: number }) => {
+      log(`WebSocket server listening on ${hostname}:${port}`);
+    }
+  };
+
+  Deno.serve(serveOptions, (req, info) => {
     if (req.headers.get("upgrade") !== "websocket") {
       return new Response("WebSocket required", { status: 400 });
     }
 
+    const remote = info.remoteAddr.hostname;
+    const origin = req.headers.get("origin") || "";
+    if (!origin.startsWith(ALLOWED_ORIGIN_PREFIX)) {
+      log(`Rejected connection from ${remote}: origin "${origin || "none"}" is not a Firefox extension`);
+      return new Response("Forbidden", { status: 403 });
+    }
+
     const { socket, response } = Deno.upgradeWebSocket(req);
+    const connection: BrowserConnection = {
+      label: origin,
+      isOpen: () => socket.readyState === WebSocket.OPEN,
+      send: (data) => socket.send(data),
+      close: (code, reason) => socket.close(code, reason)
+    };
+    let handler: ConnectionHandler | undefined;
 
     socket.onopen = () => {
-      log("Firefox extension connected");
-      extensionSocket = socket;
+      handler = acceptConnection(connection);
     };
 
     socket.onmessage = (event) => {
-      handleExtensionMessage(event.data);
+      handler?.message(event.data);
     };
 
     socket.onclose = () => {
-      log("Firefox extension disconnected");
-      if (extensionSocket === socket) {
-        extensionSocket = null;
-      }
+      handler?.closed();
     };
 
     socket.onerror = (e) => {
@@ -308,8 +1018,23 @@ async function startWebSocketServer(): Promise<void> {
 
     return response;
   });
+}
+
+// Listen on every selected transport
+async function startBrowserTransports(): Promise<void> {
+  const { secret, created } = await loadOrCreateSecret();
+  pairingSecret = secret;
+  if (created) {
+    log(`Created pairing secret at ${secretPath()}`);
+    log("Paste it into the extension preferences (about:addons) to pair:", secret);
+  }
 
-  log("WebSocket server started");
+  if (transports.includes("websocket")) {
+    startWebSocketServer();
+  }
+  if (transports.includes("native")) {
+    listenUnix(socketPath(), acceptConnection, log).catch((e) => log("Native messaging transport failed:", e));
+  }
 }
 
 // Read MCP requests from stdin
@@ -337,31 +1062,147 @@ async function readStdin(): Promise<void> {
 
       if (!line) continue;
 
+      let request;
       try {
-        const request = JSON.parse(line);
-        log("Received:", request.method || "unknown");
-        await handleMcpRequest(request);
+        request = JSON.parse(line);
       } catch (e) {
         log("Parse error:", e);
         writeStdout({
           jsonrpc: "2.0",
           id: null,
-          error: { code: -32700, message: "Parse error" }
+          error: { code: PARSE_ERROR, message: "Parse error" }
         });
+        continue;
       }
+
+      if (typeof request?.method !== "string") {
+        // Responses to server-initiated requests are not expected; anything else is malformed
+        if (request && ("result" in request || "error" in request)) continue;
+        writeStdout({
+          jsonrpc: "2.0",
+          id: request?.id ?? null,
+          error: { code: INVALID_REQUEST, message: "Invalid request" }
+        });
+        continue;
+      }
+
+      log("Received:", request.method);
+      // Not awaited: a long tool call must not block ping or cancellation behind it
+      handleMcpRequest(request).catch((e) => log("Unhandled request error:", e));
+    }
+  }
+}
+
+function removeSocket(): void {
+  if (!transports.includes("native")) return;
+  try {
+    Deno.removeSync(socketPath());
+  } catch {
+    // Already gone
+  }
+}
+
+async function waitForBrowser(browserId: string | undefined, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!listBrowsers().some((b) => !browserId || b.id === browserId)) {
+    if (Date.now() > deadline) {
+      throw new Error(`No browser${browserId ? ` ${browserId}` : ""} connected within ${timeoutMs / 1000}s`);
     }
+    await new Promise((r) => setTimeout(r, 200));
   }
 }
 
+// Run a recorded session again and report steps whose results differ.
+// Returns the exit status: 0 if everything matched, 1 otherwise.
+async function replay(args: string[]): Promise<number> {
+  const file = args.find((a) => !a.startsWith("--"));
+  if (!file) {
+    console.error("Usage: server.ts replay SESSION.jsonl|RECORDING.json [--browser=ID] [--delay=MS]");
+    return 2;
+  }
+  const browserId = args.find((a) => a.startsWith("--browser="))?.split("=")[1];
+  const delay = Number(args.find((a) => a.startsWith("--delay="))?.split("=")[1] ?? 0);
+
+  const steps = await readSession(file);
+  policy = (await loadPolicy()).policy;
+  await startBrowserTransports();
+  log("Waiting for a browser to connect...");
+  await waitForBrowser(browserId, 30000);
+
+  let matched = 0;
+  let differed = 0;
+  let skipped = 0;
+  for (const step of steps) {
+    const label = `#${step.seq} ${step.tool}`;
+    if (step.outcome === "cancelled" || step.outcome === "denied") {
+      console.log(`${label}: skipped (${step.outcome} when recorded)`);
+      skipped++;
+      continue;
+    }
+    if (step.redacted) {
+      console.log(`${label}: skipped (redacted ${step.redacted.join(", ")})`);
+      skipped++;
+      continue;
+    }
+
+    // Recorded browser ids belong to the recording's profiles
+    const { browserId: _recorded, ...stepArgs } = step.arguments;
+    let difference: string | null;
+    try {
+      if (!isToolName(step.tool)) throw new Error(`unknown tool ${step.tool}`);
+      const toolArgs = validateToolArgs(step.tool, browserId ? { ...stepArgs, browserId } : stepArgs);
+      difference = await replayDifference(step.result, await callTool(step.tool, toolArgs, {}));
+    } catch (e) {
+      difference = `could not run: ${e instanceof Error ? e.message : e}`;
+    }
+
+    if (difference) {
+      console.log(`${label}: DIFFERS - ${difference}`);
+      differed++;
+    } else {
+      console.log(`${label}: ok`);
+      matched++;
+    }
+    if (delay > 0) await new Promise((r) => setTimeout(r, delay));
+  }
+
+  console.log(`Replayed ${steps.length} step(s): ${matched} matched, ${differed} differed, ${skipped} skipped`);
+  return differed > 0 ? 1 : 0;
+}
+
 // Main
 async function main(): Promise<void> {
+  if (Deno.args[0] === "pair") {
+    // Print the pairing secret for the extension preferences page
+    const { secret } = await loadOrCreateSecret();
+    console.log(secret);
+    return;
+  }
+
+  if (Deno.args[0] === "replay") {
+    const status = await replay(Deno.args.slice(1));
+    removeSocket();
+    Deno.exit(status);
+  }
+
   log("Claude Firefox MCP Server starting...");
 
-  // Start WebSocket server in background
-  startWebSocketServer();
+  const loaded = await loadPolicy();
+  policy = loaded.policy;
+  log(loaded.loaded ? `Loaded policy from ${policyPath()}` : `No policy at ${policyPath()}, using the default policy`);
+  log(`Auditing policy decisions to ${auditPath()}`);
+  const sessionPath = await startSession();
+  log(sessionPath ? `Recording this session to ${sessionPath}` : "Session log off");
+
+  // Accept browser connections in background
+  startBrowserTransports().catch((e) => log("Browser transports failed:", e));
 
   // Read MCP from stdin
   await readStdin();
+
+  // The client closing stdin ends the session; don't linger on the port or socket
+  removeSocket();
+  Deno.exit(0);
 }
 
 main().catch((e) => {
@@ -0,0 +1,501 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - MCP conformance tests
+//
+// Each test runs host/server.ts the way an MCP client does, writing JSON-RPC
+// lines to its stdin (readStdin) and reading its stdout, with a mock extension
+// on the native messaging socket: it passes the pairing handshake, announces
+// its tools and answers tools/call as the test says. Whatever the server writes
+// to disk goes to a temporary directory.
+//
+//   deno task test
+
+import assert from "node:assert/strict";
+import { hmacHex, randomHex } from "./auth.ts";
+import { INVALID_PARAMS, METHOD_NOT_FOUND, PARSE_ERROR, SUPPORTED_PROTOCOL_VERSIONS } from "./protocol.ts";
+import { encodeFrame, readFrames } from "./transport.ts";
+
+const SERVER = new URL("./server.ts", import.meta.url).pathname;
+const MESSAGE_TIMEOUT_MS = 10000;
+// What the mock extension says it implements in browser/hello; tab_context is
+// the host's own call for the policy, never offered to clients
+const EXTENSION_TOOLS = ["navigate", "click", "screenshot", "dialog_handle"];
+const HELLO_TOOLS = [...EXTENSION_TOOLS, "tab_context"];
+
+interface Message {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string; data?: Record<string, unknown> };
+}
+
+// Messages as they arrive, taken out by the test in whatever order it expects them
+class Inbox {
+  private messages: Message[] = [];
+  private arrived = new Set<() => void>();
+
+  push(message: Message): void {
+    this.messages.push(message);
+    for (const wake of this.arrived) wake();
+  }
+
+  has(match: (message: Message) => boolean): boolean {
+    return this.messages.some(match);
+  }
+
+  // The first message that matches, waiting for it if it has not arrived yet
+  async take(match: (message: Message) => boolean, what: string): Promise<Message> {
+    const deadline = Date.now() + MESSAGE_TIMEOUT_MS;
+    while (true) {
+      const index = this.messages.findIndex(match);
+      if (index !== -1) return this.messages.splice(index, 1)[0];
+      const left = deadline - Date.now();
+      if (left <= 0) throw new Error(`Timed out waiting for ${what}`);
+      await new Promise<void>((resolve) => {
+        const wake = () => {
+          clearTimeout(timer);
+          this.arrived.delete(wake);
+          resolve();
+        };
+        const timer = setTimeout(wake, left);
+        this.arrived.add(wake);
+      });
+    }
+  }
+}
+
+async function connectWhenListening(path: string): Promise<Deno.UnixConn> {
+  const deadline = Date.now() + MESSAGE_TIMEOUT_MS;
+  while (true) {
+    try {
+      return await Deno.connect({ transport: "unix", path });
+    } catch (e) {
+      if (Date.now() > deadline) throw e;
+      await new Promise((r) => setTimeout(r, 50));
+    }
+  }
+}
+
+// The extension's end of the native messaging socket
+class MockExtension {
+  readonly inbox = new Inbox();
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private reading: Promise<void>;
+
+  private constructor(conn: Deno.UnixConn) {
+    this.writer = conn.writable.getWriter();
+    this.reading = (async () => {
+      try {
+        for await (const frame of readFrames(conn.readable)) {
+          const message = JSON.parse(new TextDecoder().decode(frame)) as Message;
+          // The server hands every browser the dialog policy as it connects
+          if (message.method === "tools/call" && message.params?.name === "dialog_handle") {
+            await this.reply(message, { content: [{ type: "text", text: "Dialog policy set" }] });
+          }
+          this.inbox.push(message);
+        }
+      } catch {
+        // The server went away
+      }
+    })();
+  }
+
+  static async connect(path: string, secret: string, id: string): Promise<MockExtension> {
+    const extension = new MockExtension(await connectWhenListening(path));
+    const challenge = await extension.inbox.take((m) => m.method === "auth/challenge", "auth/challenge");
+    const nonce = randomHex(16);
+    await extension.send({
+      jsonrpc: "2.0",
+      method: "auth/response",
+      params: { proof: await hmacHex(secret, "extension:" + challenge.params!.nonce), nonce }
+    });
+    const accepted = await extension.inbox.take((m) => m.method === "auth/accepted", "auth/accepted");
+    assert.equal(accepted.params!.proof, await hmacHex(secret, "server:" + nonce));
+
+    await extension.send({
+      jsonrpc: "2.0",
+      method: "browser/hello",
+      params: { id, profile: "test", capabilities: { tools: HELLO_TOOLS } }
+    });
+    return extension;
+  }
+
+  send(message: Message): Promise<void> {
+    return this.writer.write(encodeFrame(JSON.stringify(message)));
+  }
+
+  nextCall(name: string): Promise<Message> {
+    return this.inbox.take((m) => m.method === "tools/call" && m.params?.name === name, `tools/call ${name}`);
+  }
+
+  reply(call: Message, result: Record<string, unknown>): Promise<void> {
+    return this.send({ jsonrpc: "2.0", id: call.id, result });
+  }
+
+  fail(call: Message, message: string): Promise<void> {
+    return this.send({ jsonrpc: "2.0", id: call.id, error: { code: -32000, message } });
+  }
+
+  // After the server has exited, which ends the socket
+  async close(): Promise<void> {
+    await this.reading;
+    await this.writer.close().catch(() => {});
+  }
+}
+
+// host/server.ts on stdio, with its config, socket and logs in a temporary directory
+class McpServer {
+  readonly inbox = new Inbox();
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private reading: Promise<void>;
+  private stderr: Promise<string>;
+  private nextId = 1;
+  private extensions: MockExtension[] = [];
+
+  private constructor(private child: Deno.ChildProcess, private dir: string, private secret: string) {
+    this.writer = child.stdin.getWriter();
+    this.stderr = new Response(child.stderr).text();
+    this.reading = (async () => {
+      let buffer = "";
+      for await (const chunk of child.stdout.pipeThrough(new TextDecoderStream())) {
+        buffer += chunk;
+        let newline;
+        while ((newline = buffer.indexOf("\n")) !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          if (line) this.inbox.push(JSON.parse(line));
+        }
+      }
+    })();
+  }
+
+  static async start(policy?: Record<string, unknown>): Promise<McpServer> {
+    const dir = await Deno.makeTempDir({ prefix: "claude-firefox-mcp-test-" });
+    const secret = randomHex(32);
+    await Deno.writeTextFile(`${dir}/pairing-secret`, secret + "\n");
+    if (policy) await Deno.writeTextFile(`${dir}/policy.json`, JSON.stringify(policy));
+    const child = new Deno.Command(Deno.execPath(), {
+      args: ["run", "--allow-read", "--allow-write", "--allow-env", "--allow-net", SERVER],
+      env: {
+        XDG_CONFIG_HOME: dir,
+        CLAUDE_FIREFOX_MCP_SECRET_FILE: `${dir}/pairing-secret`,
+        CLAUDE_FIREFOX_MCP_SOCKET: `${dir}/bridge.sock`,
+        CLAUDE_FIREFOX_MCP_TRANSPORT: "native",
+        CLAUDE_FIREFOX_MCP_POLICY: `${dir}/policy.json`,
+        CLAUDE_FIREFOX_MCP_SESSION_LOG: "off"
+      },
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "piped"
+    }).spawn();
+    return new McpServer(child, dir, secret);
+  }
+
+  write(line: string): Promise<void> {
+    return this.writer.write(new TextEncoder().encode(line + "\n"));
+  }
+
+  notify(method: string, params: Record<string, unknown> = {}): Promise<void> {
+    return this.write(JSON.stringify({ jsonrpc: "2.0", method, params }));
+  }
+
+  // Send a request without waiting for its response; returns its id
+  async send(method: string, params: Record<string, unknown> = {}): Promise<number> {
+    const id = this.nextId++;
+    await this.write(JSON.stringify({ jsonrpc: "2.0", id, method, params }));
+    return id;
+  }
+
+  response(id: number): Promise<Message> {
+    return this.inbox.take((m) => m.id === id && m.method === undefined, `the response to request ${id}`);
+  }
+
+  async request(method: string, params: Record<string, unknown> = {}): Promise<Message> {
+    return await this.response(await this.send(method, params));
+  }
+
+  async initialize(protocolVersion = SUPPORTED_PROTOCOL_VERSIONS[0]): Promise<Message> {
+    const response = await this.request("initialize", {
+      protocolVersion,
+      capabilities: {},
+      clientInfo: { name: "conformance-test", version: "1.0.0" }
+    });
+    await this.notify("notifications/initialized");
+    return response;
+  }
+
+  // Connect a mock extension; the first is done once the server offers its
+  // tools, later ones once the server has sent them the dialog policy
+  async connectExtension(id = "mock"): Promise<MockExtension> {
+    const extension = await MockExtension.connect(`${this.dir}/bridge.sock`, this.secret, id);
+    if (this.extensions.length === 0) {
+      await this.inbox.take((m) => m.method === "notifications/tools/list_changed", "notifications/tools/list_changed");
+    } else {
+      await extension.nextCall("dialog_handle");
+    }
+    this.extensions.push(extension);
+    return extension;
+  }
+
+  // Closing stdin ends the session; the server exits on its own
+  async stop(): Promise<void> {
+    await this.writer.close();
+    const status = await this.child.status;
+    await this.reading;
+    const stderr = await this.stderr;
+    for (const extension of this.extensions) await extension.close();
+    await Deno.remove(this.dir, { recursive: true });
+    assert.equal(status.code, 0, `server exited with ${status.code}:\n${stderr}`);
+  }
+}
+
+async function withServer(
+  test: (server: McpServer) => Promise<void>,
+  policy?: Record<string, unknown>
+): Promise<void> {
+  const server = await McpServer.start(policy);
+  try {
+    await test(server);
+  } finally {
+    await server.stop();
+  }
+}
+
+function textOf(message: Message): string {
+  const content = message.result?.content as { type: string; text?: string }[];
+  return content.map((item) => item.text ?? "").join("\n");
+}
+
+Deno.test("initialize answers with the client's version if supported, else the newest", async () => {
+  await withServer(async (server) => {
+    for (const version of SUPPORTED_PROTOCOL_VERSIONS) {
+      const response = await server.request("initialize", { protocolVersion: version, capabilities: {} });
+      assert.equal(response.result?.protocolVersion, version);
+    }
+
+    const response = await server.request("initialize", { protocolVersion: "1999-01-01", capabilities: {} });
+    assert.equal(response.result?.protocolVersion, SUPPORTED_PROTOCOL_VERSIONS[0]);
+    assert.deepEqual((response.result?.capabilities as Record<string, unknown>).tools, { listChanged: true });
+    assert.equal((response.result?.serverInfo as Record<string, unknown>).name, "claude-firefox-mcp");
+  });
+});
+
+Deno.test("ping, unknown methods and malformed lines", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    assert.deepEqual((await server.request("ping")).result, {});
+
+    const unknown = await server.request("no/such/method");
+    assert.equal(unknown.error?.code, METHOD_NOT_FOUND);
+
+    await server.write("{ not json");
+    const parseError = await server.inbox.take((m) => m.id === null, "the parse error");
+    assert.equal(parseError.error?.code, PARSE_ERROR);
+
+    // Unknown notifications get no answer; the next request is still served
+    await server.notify("notifications/no-such-thing");
+    assert.deepEqual((await server.request("ping")).result, {});
+  });
+});
+
+Deno.test("tools/list offers what the extension implements, plus the host tools", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    await server.connectExtension();
+
+    const { result } = await server.request("tools/list");
+    const names = (result?.tools as { name: string }[]).map((tool) => tool.name);
+    for (const name of EXTENSION_TOOLS) assert.ok(names.includes(name), `${name} is listed`);
+    assert.ok(names.includes("browsers_list"));
+    assert.ok(!names.includes("read_page"), "tools the extension lacks are not listed");
+    assert.ok(!names.includes("tab_context"), "the host's own calls are not listed");
+  });
+});
+
+Deno.test("tools/call goes to the extension and returns its result", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    const extension = await server.connectExtension();
+
+    const id = await server.send("tools/call", { name: "click", arguments: { coordinate: [10, 20], browserId: "mock" } });
+    const call = await extension.nextCall("click");
+    assert.deepEqual(call.params?.arguments, { coordinate: [10, 20] });
+    assert.equal(call.params?._meta, undefined, "no progress asked for without a progressToken");
+    await extension.reply(call, { content: [{ type: "text", text: "Clicked at (10, 20)" }] });
+
+    const response = await server.response(id);
+    assert.equal(textOf(response), "Clicked at (10, 20)");
+    assert.notEqual(response.result?.isError, true);
+  });
+});
+
+Deno.test("tool failures are isError results, protocol problems JSON-RPC errors", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    const extension = await server.connectExtension();
+
+    const id = await server.send("tools/call", { name: "screenshot", arguments: {} });
+    await extension.fail(await extension.nextCall("screenshot"), "No active tab");
+    const failed = await server.response(id);
+    assert.equal(failed.error, undefined);
+    assert.equal(failed.result?.isError, true);
+    assert.match(textOf(failed), /No active tab/);
+
+    const unknown = await server.request("tools/call", { name: "no_such_tool", arguments: {} });
+    assert.equal(unknown.error?.code, INVALID_PARAMS);
+
+    const invalid = await server.request("tools/call", { name: "navigate", arguments: { url: 42 } });
+    assert.equal(invalid.error?.code, INVALID_PARAMS);
+    assert.equal(invalid.error?.data?.field, "arguments.url");
+  });
+});
+
+Deno.test("notifications/cancelled stops the extension call and suppresses the response", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    const extension = await server.connectExtension();
+
+    const id = await server.send("tools/call", { name: "navigate", arguments: { url: "https://example.com/" } });
+    const call = await extension.nextCall("navigate");
+    await server.notify("notifications/cancelled", { requestId: id, reason: "user pressed stop" });
+
+    const cancelled = await extension.inbox.take((m) => m.method === "notifications/cancelled", "the cancellation");
+    assert.deepEqual(cancelled.params, { requestId: call.id, reason: "user pressed stop" });
+
+    // A reply that arrives anyway is dropped, and the request gets no response
+    await extension.reply(call, { content: [{ type: "text", text: "Navigated" }] });
+    assert.deepEqual((await server.request("ping")).result, {});
+    assert.ok(!server.inbox.has((m) => m.id === id), "no response to a cancelled request");
+  });
+});
+
+Deno.test("progress from the extension reaches the client under its progressToken", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    const extension = await server.connectExtension();
+
+    const id = await server.send("tools/call", {
+      name: "navigate",
+      arguments: { url: "https://example.com/" },
+      _meta: { progressToken: "nav-1" }
+    });
+    const call = await extension.nextCall("navigate");
+    assert.deepEqual(call.params?._meta, { progress: true });
+
+    await extension.send({
+      jsonrpc: "2.0",
+      method: "notifications/progress",
+      params: { requestId: call.id, progress: 1, total: 2, message: "Loading" }
+    });
+    const progress = await server.inbox.take((m) => m.method === "notifications/progress", "the progress notification");
+    assert.deepEqual(progress.params, { progressToken: "nav-1", progress: 1, total: 2, message: "Loading" });
+
+    await extension.reply(call, { content: [{ type: "text", text: "Navigated to https://example.com/" }] });
+    assert.equal(textOf(await server.response(id)), "Navigated to https://example.com/");
+  });
+});
+
+Deno.test("the policy judges a URL without a scheme as the https URL that is opened", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    const extension = await server.connectExtension();
+
+    for (const url of ["bank.example", "www.bank.example/login"]) {
+      const response = await server.request("tools/call", { name: "navigate", arguments: { url } });
+      assert.equal(response.result?.isError, true);
+      assert.equal(JSON.parse(textOf(response)).error, "policy_denied");
+    }
+    assert.ok(!extension.inbox.has((m) => m.params?.name === "navigate"), "the extension was not asked to navigate");
+  }, { origins: [{ match: "*.bank.example", action: "deny" }] });
+});
+
+Deno.test("a ref from an iframe is looked up, and checked, in the frame it came from", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    const extension = await server.connectExtension();
+
+    const id = await server.send("tools/call", { name: "click", arguments: { ref: "ref_2", frameId: 3 } });
+    const context = await extension.nextCall("tab_context");
+    assert.deepEqual(context.params?.arguments, { frameId: 3 });
+    await extension.reply(context, {
+      content: [{ type: "text", text: JSON.stringify({ url: "https://pay.example/card", submitsForm: false }) }]
+    });
+
+    const call = await extension.nextCall("click");
+    assert.deepEqual(call.params?.arguments, { ref: "ref_2", frameId: 3 });
+    await extension.reply(call, { content: [{ type: "text", text: "Clicked" }] });
+    assert.equal(textOf(await server.response(id)), "Clicked");
+  }, { origins: [{ match: "*.bank.example", action: "deny" }] });
+});
+
+Deno.test("a popup opening reaches the client at the default log level, a title change does not", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    const extension = await server.connectExtension();
+
+    await extension.send({
+      jsonrpc: "2.0",
+      method: "browser/event",
+      params: { type: "tab.updated", tabId: 7, title: "Checkout" }
+    });
+    await extension.send({
+      jsonrpc: "2.0",
+      method: "browser/event",
+      params: { type: "tab.created", tabId: 8, openerTabId: 7, url: "https://pay.example/" }
+    });
+
+    const message = await server.inbox.take((m) => m.method === "notifications/message", "the log message");
+    assert.equal(message.params?.level, "info");
+    assert.equal(message.params?.logger, "firefox");
+    const event = message.params?.data as Record<string, unknown>;
+    assert.equal(event.type, "tab.created");
+    assert.equal(event.openerTabId, 7);
+    assert.equal(event.browserId, "mock");
+  });
+});
+
+Deno.test("a new default dialog answer reaches every connected browser", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    const first = await server.connectExtension();
+    const second = await server.connectExtension("second");
+    assert.deepEqual((await first.nextCall("dialog_handle")).params?.arguments, { default: "ask" });
+
+    const response = await server.request("tools/call", {
+      name: "dialog_handle",
+      arguments: { default: "accept", browserId: "mock" }
+    });
+    assert.notEqual(response.result?.isError, true);
+    for (const extension of [first, second]) {
+      const call = await extension.nextCall("dialog_handle");
+      assert.deepEqual(call.params?.arguments, { default: "accept" });
+    }
+  });
+});
+
+Deno.test("notifications/cancelled stops events_poll and a batch between steps", async () => {
+  await withServer(async (server) => {
+    await server.initialize();
+    const extension = await server.connectExtension();
+
+    const poll = await server.send("tools/call", { name: "events_poll", arguments: { timeout: 300 } });
+    const batch = await server.send("tools/call", {
+      name: "batch",
+      arguments: {
+        steps: [
+          { tool: "events_poll", arguments: { timeout: 300 } },
+          { tool: "navigate", arguments: { url: "https://example.com/" } }
+        ]
+      }
+    });
+    await server.notify("notifications/cancelled", { requestId: poll });
+    await server.notify("notifications/cancelled", { requestId: batch });
+
+    // Past the poll timeout, neither has answered nor gone on to the next step
+    await new Promise((r) => setTimeout(r, 500));
+    assert.deepEqual((await server.request("ping")).result, {});
+    assert.ok(!server.inbox.has((m) => m.id === poll || m.id === batch), "no response to a cancelled request");
+    assert.ok(!extension.inbox.has((m) => m.params?.name === "navigate"), "the batch stopped");
+  });
+});
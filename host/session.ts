@@ -0,0 +1,241 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Session log and replay
+//
+// Every tool call of a server session is appended to a JSONL file in
+// ~/.config/claude-firefox-mcp/sessions/ (CLAUDE_FIREFOX_MCP_SESSION_DIR moves it;
+// --no-session-log or CLAUDE_FIREFOX_MCP_SESSION_LOG=off turns it off). With
+// --session-screenshots, calls that change the page also save JPEG screenshots
+// taken before and after, in a directory next to the log.
+//
+// `server.ts replay FILE` runs a recorded session again and reports the steps
+// whose results differ (see replayDifference). It also runs browser recordings
+// (host/recording.ts), which have no results to compare.
+
+import { configDir } from "./auth.ts";
+import { parseRecording } from "./recording.ts";
+
+export const REDACTED = "[redacted]";
+
+// Calls worth a before/after screenshot: the ones that change the page
+export const PAGE_ACTION_TOOLS = [
+  "navigate", "click", "double_click", "hover", "drag", "type", "key_press", "scroll", "form_input", "upload_file",
+  "execute_js"
+];
+
+// Argument keys whose values are never written, at any depth (storage items, headers...)
+const SECRET_KEY = /pass(word|phrase|wd)?$|secret|token|auth|credential|api[-_]?key|session[-_]?id|^cookie$/i;
+// Tools whose results carry cookie or storage values: only a hash is kept
+const SECRET_RESULT_TOOLS = ["cookies_get", "storage_get"];
+// Longest text kept per content item; the hash still covers all of it
+const MAX_RECORDED_TEXT = 10000;
+
+export interface RecordedContent {
+  type: string;
+  text?: string;
+  truncated?: boolean;
+  sha256?: string;
+  mimeType?: string;
+  bytes?: number;
+}
+
+export interface SessionStep {
+  time: string;
+  event: "tool";
+  seq: number;
+  tool: string;
+  browserId?: string;
+  arguments: Record<string, unknown>;
+  // Paths of redacted arguments (e.g. "arguments.text"); such steps cannot be replayed
+  redacted?: string[];
+  durationMs: number;
+  outcome: "ok" | "error" | "denied" | "cancelled";
+  tabUrl?: string;
+  result?: { isError: boolean; content: RecordedContent[] };
+  screenshots?: { before?: string; after?: string };
+}
+
+interface ToolResult {
+  content?: { type: string; text?: string; data?: string; mimeType?: string }[];
+  isError?: boolean;
+}
+
+let sessionFile: string | null = null;
+let screenshotsEnabled = false;
+let nextSeq = 1;
+let writes = Promise.resolve();
+
+export function sessionDir(): string {
+  return Deno.env.get("CLAUDE_FIREFOX_MCP_SESSION_DIR") ?? `${configDir()}/sessions`;
+}
+
+// Start this server's session log, unless turned off. Returns its path.
+export async function startSession(args: string[] = Deno.args): Promise<string | null> {
+  if (args.includes("--no-session-log") || Deno.env.get("CLAUDE_FIREFOX_MCP_SESSION_LOG") === "off") return null;
+
+  const dir = sessionDir();
+  await Deno.mkdir(dir, { recursive: true, mode: 0o700 });
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  sessionFile = `${dir}/${stamp}.jsonl`;
+  screenshotsEnabled = args.includes("--session-screenshots");
+  return sessionFile;
+}
+
+export function sessionActive(): boolean {
+  return sessionFile !== null;
+}
+
+export function wantsScreenshots(tool: string): boolean {
+  return sessionFile !== null && screenshotsEnabled && PAGE_ACTION_TOOLS.includes(tool);
+}
+
+export function takeSeq(): number {
+  return nextSeq++;
+}
+
+// Save a screenshot next to the log; returns its path relative to the log's directory
+export async function saveScreenshot(seq: number, when: "before" | "after", base64: string): Promise<string> {
+  const name = `${sessionFile!.slice(sessionFile!.lastIndexOf("/") + 1).replace(/\.jsonl$/, "")}/${seq}-${when}.jpg`;
+  const dir = sessionFile!.slice(0, sessionFile!.lastIndexOf("/"));
+  await Deno.mkdir(`${dir}/${name.slice(0, name.indexOf("/"))}`, { recursive: true, mode: 0o700 });
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  await Deno.writeFile(`${dir}/${name}`, bytes, { mode: 0o600 });
+  return name;
+}
+
+export function recordStep(step: Omit<SessionStep, "time" | "event">): Promise<void> {
+  if (!sessionFile) return Promise.resolve();
+  const path = sessionFile;
+  const line = JSON.stringify({ time: new Date().toISOString(), event: "tool", ...step }) + "\n";
+  writes = writes
+    .then(() => Deno.writeTextFile(path, line, { append: true, mode: 0o600 }))
+    .catch((e) => console.error("[MCP Server] Failed to write session log:", e));
+  return writes;
+}
+
+function redactValue(value: unknown, path: string, redacted: string[]): unknown {
+  if (Array.isArray(value)) return value.map((item, i) => redactValue(item, `${path}[${i}]`, redacted));
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+    if (SECRET_KEY.test(key)) {
+      redacted.push(`${path}.${key}`);
+      return [key, REDACTED];
+    }
+    return [key, redactValue(item, `${path}.${key}`, redacted)];
+  }));
+}
+
+// Arguments as written to the log. sensitiveTarget: the call typed into or set a
+// password-like field, so its text/value is withheld too.
+export function redactArguments(
+  tool: string,
+  args: Record<string, unknown>,
+  sensitiveTarget: boolean
+): { arguments: Record<string, unknown>; redacted: string[] } {
+  const redacted: string[] = [];
+  const result = redactValue(args, "arguments", redacted) as Record<string, unknown>;
+
+  const withhold = (key: string) => {
+    if (result[key] === undefined || result[key] === REDACTED) return;
+    result[key] = REDACTED;
+    redacted.push(`arguments.${key}`);
+  };
+  if (tool === "cookies_set") withhold("value");
+  if (tool === "storage_set") withhold("items");
+  if (sensitiveTarget && tool === "type") withhold("text");
+  if (sensitiveTarget && tool === "form_input") withhold("value");
+  return { arguments: result, redacted };
+}
+
+// Parts of results that change from run to run without meaning anything
+function normalizeText(text: string): string {
+  return text
+    .replace(/\bref_\d+\b/g, "ref_*")
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g, "<time>")
+    .replace(/\b\d+(\.\d+)?ms\b/g, "<n>ms");
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// A result as written to the log: text (capped), a hash of its normalized form
+// for replay, and only the size of images
+export async function recordResult(tool: string, result: unknown): Promise<SessionStep["result"]> {
+  const { content = [], isError = false } = (result ?? {}) as ToolResult;
+  const recorded: RecordedContent[] = [];
+  for (const item of content) {
+    if (item.type === "text" && typeof item.text === "string") {
+      const entry: RecordedContent = { type: "text", sha256: await sha256(normalizeText(item.text)) };
+      if (!SECRET_RESULT_TOOLS.includes(tool)) {
+        entry.text = item.text.slice(0, MAX_RECORDED_TEXT);
+        if (item.text.length > MAX_RECORDED_TEXT) entry.truncated = true;
+      }
+      recorded.push(entry);
+    } else {
+      recorded.push({ type: item.type, mimeType: item.mimeType, bytes: Math.floor((item.data?.length ?? 0) * 3 / 4) });
+    }
+  }
+  return { isError, content: recorded };
+}
+
+export async function readSession(path: string): Promise<SessionStep[]> {
+  const text = await Deno.readTextFile(path);
+  const recording = parseRecording(text);
+  if (recording) {
+    return recording.steps.map((step, i) => ({
+      time: recording.startedAt,
+      event: "tool",
+      seq: i + 1,
+      tool: step.tool,
+      arguments: step.arguments,
+      ...(step.redacted ? { redacted: step.redacted } : {}),
+      durationMs: 0,
+      outcome: "ok"
+    }));
+  }
+
+  const lines = text.split("\n").filter((line) => line.trim());
+  return lines.map((line, i) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`${path}:${i + 1}: not a JSON line`);
+    }
+  }).filter((entry) => entry.event === "tool")
+    // Concurrent calls finish out of order; replay them in the order they were made
+    .sort((a, b) => a.seq - b.seq);
+}
+
+// How a replayed result differs from the recorded one, or null if it matches.
+// Refs, timestamps and durations are ignored; images only need to be there.
+export async function replayDifference(recorded: SessionStep["result"], actual: unknown): Promise<string | null> {
+  const replayed = await recordResult("", actual);
+  const failure = `failed: ${(replayed!.content.find((c) => c.text)?.text ?? "").slice(0, 200)}`;
+  // Recordings keep no results; a step only differs if it fails now
+  if (!recorded) return replayed!.isError ? failure : null;
+  if (recorded.isError !== replayed!.isError) {
+    return recorded.isError ? `succeeded, but failed when recorded` : failure;
+  }
+  if (recorded.content.length !== replayed!.content.length) {
+    return `returned ${replayed!.content.length} content item(s), recorded ${recorded.content.length}`;
+  }
+
+  for (let i = 0; i < recorded.content.length; i++) {
+    const was = recorded.content[i];
+    const now = replayed!.content[i];
+    if (was.type !== now.type) return `content ${i} is ${now.type}, recorded ${was.type}`;
+    if (was.type !== "text" || was.sha256 === now.sha256) continue;
+    if (was.text === undefined) return `content ${i} differs (recorded as a hash only)`;
+
+    const before = normalizeText(was.text).split("\n");
+    const after = normalizeText(now.text ?? "").split("\n");
+    // A truncated recording ends mid-line; compare the whole lines before it
+    const count = was.truncated ? before.length - 1 : Math.max(before.length, after.length);
+    const line = before.slice(0, count).findIndex((l, n) => l !== after[n]);
+    const at = line === -1 ? (was.truncated ? -1 : before.length) : line;
+    if (at === -1) continue; // Differs only past what was recorded
+    return `content ${i} line ${at + 1}: expected ${JSON.stringify(before[at] ?? "")}, got ${JSON.stringify(after[at] ?? "")}`;
+  }
+  return null;
+}
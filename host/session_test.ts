@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Session log redaction and replay comparison tests
+
+import assert from "node:assert/strict";
+import { recordResult, REDACTED, redactArguments, replayDifference } from "./session.ts";
+
+Deno.test("secret-looking keys are redacted at any depth", () => {
+  const { arguments: logged, redacted } = redactArguments("execute_js", {
+    code: "1 + 1",
+    headers: { Authorization: "Bearer x", Accept: "*/*" },
+    items: [{ password: "hunter2", name: "a" }]
+  }, false);
+  assert.deepEqual(logged, {
+    code: "1 + 1",
+    headers: { Authorization: REDACTED, Accept: "*/*" },
+    items: [{ password: REDACTED, name: "a" }]
+  });
+  assert.deepEqual(redacted, ["arguments.headers.Authorization", "arguments.items[0].password"]);
+});
+
+Deno.test("cookie and storage values are always withheld, typed text only for password fields", () => {
+  assert.deepEqual(redactArguments("cookies_set", { name: "sid", value: "abc" }, false).arguments, {
+    name: "sid",
+    value: REDACTED
+  });
+  assert.deepEqual(redactArguments("storage_set", { items: { a: "1" } }, false).redacted, ["arguments.items"]);
+  assert.deepEqual(redactArguments("type", { text: "hello" }, false).redacted, []);
+  assert.deepEqual(redactArguments("type", { text: "hunter2" }, true), {
+    arguments: { text: REDACTED },
+    redacted: ["arguments.text"]
+  });
+});
+
+Deno.test("results are logged as capped text with a hash; cookie values only as the hash", async () => {
+  const cookies = await recordResult("cookies_get", { content: [{ type: "text", text: "sid=abc" }] });
+  assert.equal(cookies!.content[0].text, undefined);
+  assert.match(cookies!.content[0].sha256!, /^[0-9a-f]{64}$/);
+
+  const page = await recordResult("get_page_text", { content: [{ type: "text", text: "x".repeat(20000) }] });
+  assert.equal(page!.content[0].text!.length, 10000);
+  assert.equal(page!.content[0].truncated, true);
+
+  const image = await recordResult("screenshot", { content: [{ type: "image", data: "AAAA", mimeType: "image/png" }] });
+  assert.deepEqual(image!.content[0], { type: "image", mimeType: "image/png", bytes: 3 });
+});
+
+Deno.test("replay ignores refs and timings but reports changed lines", async () => {
+  const recorded = await recordResult("find", { content: [{ type: "text", text: "ref_12 button Save\ntook 30ms" }] });
+  const same = { content: [{ type: "text", text: "ref_40 button Save\ntook 45ms" }] };
+  assert.equal(await replayDifference(recorded, same), null);
+
+  const changed = { content: [{ type: "text", text: "ref_40 button Send\ntook 45ms" }] };
+  assert.equal(
+    await replayDifference(recorded, changed),
+    'content 0 line 1: expected "ref_* button Save", got "ref_* button Send"'
+  );
+  assert.match((await replayDifference(recorded, { content: [], isError: true }))!, /^failed/);
+});
@@ -0,0 +1,979 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Tool registry
+//
+// The one list of tools: JSON Schemas for tools/list, argument types derived
+// from them, and validation of tools/call arguments before they are sent to a
+// browser. The extension reports the tools it implements in browser/hello
+// (capabilities.tools), so an older or MV3 build only gets calls it can serve.
+
+import { INVALID_PARAMS, McpError } from "./protocol.ts";
+
+// The subset of JSON Schema the tool definitions use
+export interface JsonSchema {
+  type?: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  enum?: readonly unknown[];
+  properties?: Readonly<Record<string, JsonSchema>>;
+  required?: readonly string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: "object" };
+}
+
+// TypeScript type of the values a schema accepts
+export type FromSchema<S> = S extends { enum: readonly (infer E)[] } ? E
+  : S extends { type: "string" } ? string
+  : S extends { type: "number" | "integer" } ? number
+  : S extends { type: "boolean" } ? boolean
+  : S extends { type: "array"; items: infer I } ? FromSchema<I>[]
+  : S extends { type: "object"; properties: infer P }
+    ? ObjectFromSchema<P, S extends { required: readonly (infer R)[] } ? R : never>
+  : S extends { type: "object" } ? Record<string, unknown>
+  : unknown;
+
+type ObjectFromSchema<P, Required> =
+  & { -readonly [K in keyof P as K extends Required ? K : never]: FromSchema<P[K]> }
+  & { -readonly [K in keyof P as K extends Required ? never : K]?: FromSchema<P[K]> };
+
+// [x, y] in viewport CSS pixels
+function point<D extends string>(description: D) {
+  return { type: "array", items: { type: "number" }, minItems: 2, maxItems: 2, description } as const;
+}
+
+const RESOURCE_TYPES_SCHEMA = {
+  type: "array",
+  items: {
+    type: "string",
+    enum: [
+      "main_frame", "sub_frame", "stylesheet", "script", "image", "font", "object",
+      "xmlhttprequest", "ping", "media", "websocket", "csp_report", "other"
+    ]
+  },
+  description: "Resource types to include (webRequest types; xmlhttprequest covers fetch)"
+} as const;
+
+// Default timeout of wait_for and waitFor (extension/wait.js)
+export const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+
+const WAIT_CONDITIONS = {
+  selector: { type: "string", description: "CSS selector to wait for" },
+  state: {
+    type: "string",
+    enum: ["visible", "hidden", "attached", "detached"],
+    description: "State the selector must reach (default visible)"
+  },
+  text: { type: "string", description: "Wait until this text is on the page" },
+  url: { type: "string", description: "Wait until the URL matches this glob (* wildcards) or /regex/" },
+  networkIdle: { type: "number", description: "Wait until no requests were in flight for this many ms" },
+  domQuiet: { type: "number", description: "Wait until the DOM has not changed for this many ms" },
+  timeout: { type: "number", description: `Give up after this many ms (default ${DEFAULT_WAIT_TIMEOUT_MS})` }
+} as const;
+
+const WAIT_FOR_SCHEMA = {
+  type: "object",
+  properties: WAIT_CONDITIONS,
+  description: "Conditions to wait for after the action; a timeout is reported as an error naming the pending conditions"
+} as const;
+
+const PARTITION_KEY_SCHEMA = {
+  type: "object",
+  properties: { topLevelSite: { type: "string" } },
+  description: "Partition of a partitioned (CHIPS / first-party isolated) cookie, e.g. {\"topLevelSite\": \"https://example.com\"}"
+} as const;
+
+const STORAGE_TARGET = {
+  origin: { type: "string", description: "Origin whose storage to use (default: the tab's origin)" },
+  area: { type: "string", enum: ["local", "session"], description: "localStorage or sessionStorage (default local)" },
+  tabId: { type: "number" }
+} as const;
+
+const MODIFIERS_SCHEMA = {
+  type: "array",
+  items: { type: "string", enum: ["ctrl", "shift", "alt", "meta"] },
+  description: "Modifier keys held during the action"
+} as const;
+
+const FRAME_ID_SCHEMA = {
+  type: "number",
+  description: "Frame from frames_list or find (default: 0, the top frame)"
+} as const;
+
+// Stable element locator, as recordings use it: tried as role+name, then text, then css
+const LOCATOR_SCHEMA = {
+  type: "object",
+  properties: {
+    role: { type: "string", description: "Accessible role, as read_page shows it" },
+    name: { type: "string", description: "Accessible name (with role)" },
+    text: { type: "string", description: "The element's visible text" },
+    css: { type: "string", description: "CSS selector, tried last" }
+  },
+  description: "Element by locator instead of ref (survives reloads; used by recordings)"
+} as const;
+
+// Tools forwarded to the extension (some are wrapped by a host handler first)
+export const BROWSER_TOOLS = [
+  {
+    name: "screenshot",
+    description: "Take a screenshot of the current browser tab (viewport, full page, element or rectangle). " +
+      "The result maps image pixels back to click coordinates",
+    inputSchema: {
+      type: "object",
+      properties: {
+        fullPage: { type: "boolean", description: "Capture the whole page, not just the viewport" },
+        ref: { type: "string", description: "Crop to this element ref from read_page" },
+        selector: { type: "string", description: "Crop to the first element matching this CSS selector" },
+        rect: {
+          type: "array",
+          items: { type: "number" },
+          minItems: 4,
+          maxItems: 4,
+          description: "Crop to [x, y, width, height] in viewport coordinates (as used by click)"
+        },
+        format: { type: "string", enum: ["png", "jpeg", "webp"], description: "Image format (default png)" },
+        quality: { type: "number", description: "JPEG/WebP quality 0-100 (default 80)" },
+        maxWidth: { type: "number", description: "Downscale so the image is at most this many pixels wide" },
+        tabId: { type: "number", description: "Tab ID (optional, uses active tab)" }
+      }
+    }
+  },
+  {
+    name: "navigate",
+    description: "Navigate to a URL or go back/forward in history",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "URL to navigate to, or 'back'/'forward'" },
+        waitFor: WAIT_FOR_SCHEMA,
+        tabId: { type: "number", description: "Tab ID (optional)" }
+      },
+      required: ["url"]
+    }
+  },
+  {
+    name: "read_page",
+    description: "Get the accessibility tree representation of the page. Each node has a ref usable by click, type, form_input and scroll",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "number", description: "Tab ID (optional)" },
+        depth: { type: "number", description: "Max depth (default: 15)" },
+        filter: { type: "string", enum: ["all", "interactive"], description: "Filter elements" },
+        format: {
+          type: "string",
+          enum: ["json", "text"],
+          description: "json (default) or text: one compact line per node with role, name, ref and states"
+        }
+      }
+    }
+  },
+  {
+    name: "click",
+    description: "Click an element by ref or locator, or at coordinates",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ref: { type: "string", description: "Element ref from read_page (preferred over coordinate)" },
+        locator: LOCATOR_SCHEMA,
+        coordinate: point("[x, y] coordinates"),
+        button: { type: "string", enum: ["left", "right", "middle"], description: "Mouse button" },
+        modifiers: MODIFIERS_SCHEMA,
+        waitFor: WAIT_FOR_SCHEMA,
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      }
+    }
+  },
+  {
+    name: "double_click",
+    description: "Double-click an element by ref or locator, or at coordinates",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ref: { type: "string", description: "Element ref from read_page" },
+        locator: LOCATOR_SCHEMA,
+        coordinate: point("[x, y] coordinates"),
+        modifiers: MODIFIERS_SCHEMA,
+        waitFor: WAIT_FOR_SCHEMA,
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      }
+    }
+  },
+  {
+    name: "hover",
+    description: "Move the pointer over an element by ref or locator, or to coordinates",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ref: { type: "string", description: "Element ref from read_page" },
+        locator: LOCATOR_SCHEMA,
+        coordinate: point("[x, y] coordinates"),
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      }
+    }
+  },
+  {
+    name: "drag",
+    description: "Drag from one element or point to another (pointer events, plus HTML5 drag-and-drop for draggable sources)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ref: { type: "string", description: "Element ref to drag from" },
+        coordinate: point("[x, y] to drag from"),
+        targetRef: { type: "string", description: "Element ref to drop on" },
+        targetCoordinate: point("[x, y] to drop at"),
+        steps: { type: "number", description: "Intermediate pointer moves (default: 10)" },
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      }
+    }
+  },
+  {
+    name: "type",
+    description: "Type text one keystroke at a time into an element by ref or locator, or into the focused element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: { type: "string", description: "Text to type" },
+        ref: { type: "string", description: "Element ref from read_page to type into" },
+        locator: LOCATOR_SCHEMA,
+        coordinate: point("[x, y] to click first"),
+        clear: { type: "boolean", description: "Select and delete existing content first" },
+        delay: { type: "number", description: "Milliseconds between keystrokes (default: 0)" },
+        waitFor: WAIT_FOR_SCHEMA,
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      },
+      required: ["text"]
+    }
+  },
+  {
+    name: "key_press",
+    description: "Press keys: a combination like 'ctrl+shift+k' or 'Enter', or a chord sequence like 'ctrl+k ctrl+c'",
+    inputSchema: {
+      type: "object",
+      properties: {
+        keys: { type: "string", description: "Space-separated key combinations, modifiers joined with '+'" },
+        ref: { type: "string", description: "Element ref to focus first (optional, uses the focused element)" },
+        locator: LOCATOR_SCHEMA,
+        repeat: { type: "number", description: "Times to repeat the sequence (default: 1)" },
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      },
+      required: ["keys"]
+    }
+  },
+  {
+    name: "scroll",
+    description: "Scroll the page or an element, or scroll an element ref into view",
+    inputSchema: {
+      type: "object",
+      properties: {
+        direction: { type: "string", enum: ["up", "down", "left", "right"], description: "Omit with ref to scroll it into view" },
+        amount: { type: "number", description: "Pixels (default: 300)" },
+        ref: { type: "string", description: "Element ref from read_page to scroll" },
+        coordinate: point("[x, y] of the element to scroll (default: the page)"),
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      }
+    }
+  },
+  {
+    name: "execute_js",
+    description: "Execute JavaScript in the page (disabled unless the safety policy allows it)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        code: { type: "string", description: "JavaScript code" },
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      },
+      required: ["code"]
+    }
+  },
+  {
+    name: "find",
+    description: "Find elements in every frame of the tab, best matches first. Query forms: " +
+      "`role=button name=\"Save\"`, `text=Save` or `text=/regex/i`, `label=Email` (form fields by label, " +
+      "or by the nearest text), `xpath=//form//button`, `css=...`, or plain text or a CSS selector. " +
+      "Selectors match inside open shadow roots; `>>>` steps into a host's shadow root (`my-form >>> input`). " +
+      "Each match has a ref, role, name, unique selector, visibility, and the frameId to pass to follow-up calls",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Query, as described above" },
+        limit: { type: "number", description: "Most matches to return (default: 20)" },
+        frameId: { type: "number", description: "Only search this frame" },
+        tabId: { type: "number" }
+      },
+      required: ["query"]
+    }
+  },
+  {
+    name: "frames_list",
+    description: "List the frames of a tab (frameId, parentFrameId, url), including cross-origin iframes",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "number" }
+      }
+    }
+  },
+  {
+    name: "form_input",
+    description: "Set a form field value",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector (may pierce shadow roots, see find)" },
+        ref: { type: "string", description: "Element ref from read_page (instead of selector)" },
+        locator: LOCATOR_SCHEMA,
+        value: { description: "Value to set" },
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      },
+      required: ["value"]
+    }
+  },
+  {
+    name: "upload_file",
+    description: "Upload local files into a file input, or drop them on a drop zone. Without a target, uses the " +
+      "page's only file input. The default safety policy asks the user first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        paths: { type: "array", items: { type: "string" }, description: "Files to upload, on the server's machine" },
+        ref: { type: "string", description: "File input or drop zone ref from read_page or find" },
+        locator: LOCATOR_SCHEMA,
+        selector: { type: "string", description: "CSS selector of the file input or drop zone" },
+        coordinate: point("[x, y] of the drop zone"),
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      },
+      required: ["paths"]
+    }
+  },
+  {
+    name: "tabs_list",
+    description: "List open tabs of the current window (or the session window), with the dialog a tab is blocked on",
+    inputSchema: {
+      type: "object",
+      properties: {
+        windowId: { type: "number", description: "List this window's tabs instead (from windows_list)" },
+        allWindows: { type: "boolean", description: "List the tabs of every window, each with its windowId" }
+      }
+    }
+  },
+  {
+    name: "tabs_create",
+    description: "Create a new tab, in the session window if there is one",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string" },
+        active: { type: "boolean", description: "Switch to the new tab (default true); false opens it in the background" },
+        windowId: { type: "number", description: "Window to open it in (default: the current window)" }
+      }
+    }
+  },
+  {
+    name: "tabs_close",
+    description: "Close a tab",
+    inputSchema: {
+      type: "object",
+      properties: { tabId: { type: "number" } }
+    }
+  },
+  {
+    name: "tabs_activate",
+    description: "Make a tab the active tab of its window",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "number" },
+        focusWindow: { type: "boolean", description: "Also bring its window to the front (default false)" }
+      },
+      required: ["tabId"]
+    }
+  },
+  {
+    name: "tabs_move",
+    description: "Move a tab to another position or window",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "number" },
+        windowId: { type: "number", description: "Window to move it to (default: its own)" },
+        index: { type: "number", description: "Position in the window, from 0; -1 (default) is the end" }
+      },
+      required: ["tabId"]
+    }
+  },
+  {
+    name: "tabs_duplicate",
+    description: "Open a copy of a tab, with its history",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "number" },
+        active: { type: "boolean", description: "Switch to the copy (default true)" }
+      }
+    }
+  },
+  {
+    name: "tabs_reload",
+    description: "Reload a tab and wait for the page to load",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "number" },
+        bypassCache: { type: "boolean", description: "Fetch everything from the network again, like Ctrl+Shift+R" }
+      }
+    }
+  },
+  {
+    name: "windows_list",
+    description: "List browser windows with their state, position, size and tab count; only the session window if there is one",
+    inputSchema: { type: "object", properties: {} }
+  },
+  {
+    name: "windows_create",
+    description: "Open a browser window. With session: true it becomes the session window: tabs outside it are " +
+      "out of reach, and calls without a tabId use its active tab",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string" },
+        width: { type: "number" },
+        height: { type: "number" },
+        left: { type: "number" },
+        top: { type: "number" },
+        focused: { type: "boolean", description: "Bring it to the front (default true)" },
+        incognito: { type: "boolean", description: "Open a private window (the extension must be allowed in them)" },
+        session: { type: "boolean", description: "Keep this session to the new window" }
+      }
+    }
+  },
+  {
+    name: "windows_close",
+    description: "Close a window and its tabs",
+    inputSchema: {
+      type: "object",
+      properties: { windowId: { type: "number", description: "Default: the session window, or the current one" } }
+    }
+  },
+  {
+    name: "windows_resize",
+    description: "Resize, move, maximize or minimize a window. With viewport: true, width and height are the " +
+      "page's viewport, so screenshots come out the same size every run",
+    inputSchema: {
+      type: "object",
+      properties: {
+        windowId: { type: "number", description: "Default: the session window, or the current one" },
+        width: { type: "number" },
+        height: { type: "number" },
+        left: { type: "number" },
+        top: { type: "number" },
+        viewport: { type: "boolean", description: "width and height are the viewport's in CSS pixels, not the window's" },
+        state: { type: "string", enum: ["normal", "minimized", "maximized", "fullscreen"] }
+      }
+    }
+  },
+  {
+    name: "get_page_text",
+    description: "Get page text content",
+    inputSchema: {
+      type: "object",
+      properties: { tabId: { type: "number" } }
+    }
+  },
+  {
+    name: "get_page_content",
+    description: "Get the page as Markdown (headings, links and lists kept), its main article only (readability), " +
+      "or its tables as JSON rows keyed by header. Long pages come in chunks; the footer gives the offset " +
+      "of the next chunk and the sections to jump to",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: {
+          type: "string",
+          enum: ["markdown", "readability", "tables"],
+          description: "markdown (default), readability or tables"
+        },
+        offset: { type: "number", description: "Character offset to start from, as given by the previous chunk" },
+        section: { type: "string", description: "Start at this section instead: its number or heading" },
+        maxTokens: { type: "number", description: "Token budget for the chunk (default: 10000)" },
+        frameId: FRAME_ID_SCHEMA,
+        tabId: { type: "number" }
+      }
+    }
+  },  {
+    name: "downloads_list",
+    description: "List the browser's downloads, newest first, with their file paths and states",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: { type: "number", description: "Most downloads to list (default: 20)" },
+        state: { type: "string", enum: ["in_progress", "complete", "interrupted"] }
+      }
+    }
+  },
+  {
+    name: "downloads_wait",
+    description: "Wait for a download to finish: the given id, or else the newest download started since `since` " +
+      "(default: the last 30 seconds, so one started by the previous click counts)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "number", description: "Download id from downloads_list" },
+        since: { type: "string", description: "ISO time; only downloads started after it count" },
+        timeout: { type: "number", description: "Milliseconds to wait (default: 30000)" }
+      }
+    }
+  },
+  {
+    name: "downloads_get",
+    description: "Get a download's path and state, and optionally its contents (text, image, or base64)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "number", description: "Download id from downloads_list or downloads_wait" },
+        contents: { type: "boolean", description: "Also return the file's contents" },
+        maxBytes: { type: "number", description: "Largest file to return contents for (default: 1MB)" }
+      },
+      required: ["id"]
+    }
+  },
+
+  {
+    name: "network_start",
+    description: "Start recording network requests for a tab (restarts and clears any previous capture)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        urlPattern: { type: "string", description: "Only record URLs matching this glob (* wildcards) or /regex/" },
+        types: RESOURCE_TYPES_SCHEMA,
+        includeBodies: { type: "boolean", description: "Also capture request and response bodies (up to 256KB each)" },
+        maxEntries: { type: "number", description: "Keep at most this many requests, dropping the oldest (default 1000)" },
+        tabId: { type: "number" }
+      }
+    }
+  },
+  {
+    name: "network_stop",
+    description: "Stop recording network requests for a tab; the captured log stays available to network_get",
+    inputSchema: {
+      type: "object",
+      properties: { tabId: { type: "number" } }
+    }
+  },
+  {
+    name: "network_get",
+    description: "Get captured network requests as a summary, JSON, or a HAR 1.2 log",
+    inputSchema: {
+      type: "object",
+      properties: {
+        urlPattern: { type: "string", description: "Only return URLs matching this glob (* wildcards) or /regex/" },
+        types: RESOURCE_TYPES_SCHEMA,
+        format: { type: "string", enum: ["summary", "json", "har"], description: "Output format (default summary)" },
+        includeBodies: { type: "boolean", description: "Include captured bodies (json and har formats)" },
+        path: { type: "string", description: "Write the result to this file on the host instead of returning it" },
+        offset: { type: "number", description: "Skip this many matching requests (default 0)" },
+        limit: { type: "number", description: "Maximum requests to return (default 100)" },
+        tabId: { type: "number" }
+      }
+    }
+  },
+  {
+    name: "console_read",
+    description: "Read console messages, uncaught errors and unhandled promise rejections from a tab and its frames",
+    inputSchema: {
+      type: "object",
+      properties: {
+        levels: {
+          type: "array",
+          items: { type: "string", enum: ["debug", "log", "info", "warn", "error"] },
+          description: "Only these levels (uncaught errors and rejections are \"error\")"
+        },
+        since: { type: "number", description: "Cursor from a previous console_read; only newer entries are returned" },
+        frameId: { type: "number", description: "Only entries from this frame (0 is the top frame)" },
+        limit: { type: "number", description: "Maximum entries to return (default 100)" },
+        clear: { type: "boolean", description: "Remove the entries up to the returned cursor from the buffer" },
+        tabId: { type: "number" }
+      }
+    }
+  },
+  {
+    name: "cookies_get",
+    description: "List cookies for a URL or domain (including partitioned cookies)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "Cookies that would be sent to this URL" },
+        domain: { type: "string", description: "Cookies of this domain and its subdomains" },
+        name: { type: "string" },
+        path: { type: "string" },
+        partitionKey: PARTITION_KEY_SCHEMA
+      }
+    }
+  },
+  {
+    name: "cookies_set",
+    description: "Set a cookie",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "URL the cookie belongs to (or give domain)" },
+        name: { type: "string" },
+        value: { type: "string" },
+        domain: { type: "string", description: "Cookie domain; omit for a host-only cookie" },
+        path: { type: "string" },
+        secure: { type: "boolean" },
+        httpOnly: { type: "boolean" },
+        sameSite: { type: "string", enum: ["no_restriction", "lax", "strict"] },
+        expirationDate: { type: "number", description: "Seconds since the epoch; omit for a session cookie" },
+        partitionKey: PARTITION_KEY_SCHEMA
+      },
+      required: ["name", "value"]
+    }
+  },
+  {
+    name: "cookies_delete",
+    description: "Delete a cookie by name, or every cookie matching url/domain/path",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string" },
+        domain: { type: "string" },
+        name: { type: "string", description: "Cookie to delete (default: all matching)" },
+        path: { type: "string" },
+        partitionKey: PARTITION_KEY_SCHEMA
+      }
+    }
+  },
+  {
+    name: "storage_get",
+    description: "Read localStorage or sessionStorage of an origin",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...STORAGE_TARGET,
+        keys: { type: "array", items: { type: "string" }, description: "Keys to read (default: all)" }
+      }
+    }
+  },
+  {
+    name: "storage_set",
+    description: "Write localStorage or sessionStorage items of an origin",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...STORAGE_TARGET,
+        items: { type: "object", description: "Key/value pairs; non-string values are stored as JSON" }
+      },
+      required: ["items"]
+    }
+  },
+  {
+    name: "storage_clear",
+    description: "Remove localStorage or sessionStorage items of an origin",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...STORAGE_TARGET,
+        keys: { type: "array", items: { type: "string" }, description: "Keys to remove (default: all)" }
+      }
+    }
+  },
+  {
+    name: "state_export",
+    description: "Save a site's cookies, localStorage and sessionStorage to a JSON file on the host",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File to write (contains credentials; created with mode 0600)" },
+        origin: { type: "string", description: "Site to export (default: the tab's origin)" },
+        tabId: { type: "number" }
+      },
+      required: ["path"]
+    }
+  },
+  {
+    name: "state_import",
+    description: "Restore cookies and storage saved by state_export",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File written by state_export" },
+        tabId: { type: "number", description: "Tab of the saved origin to restore sessionStorage into" }
+      },
+      required: ["path"]
+    }
+  },
+  {
+    name: "recording_get",
+    description: "Get the last recording of user interactions (made with the toolbar button) as a script of " +
+      "navigate/click/type/form_input/key_press calls",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: {
+          type: "string",
+          enum: ["json", "typescript"],
+          description: "json (default, replayable with `server.ts replay`) or a readable TypeScript script"
+        },
+        path: { type: "string", description: "Write it to this file instead of returning it" }
+      }
+    }
+  },
+  {
+    name: "dialog_handle",
+    description: "Answer the next alert/confirm/prompt dialog in a tab, or set how dialogs are answered by default " +
+      "for this session: accept, dismiss or ask (the default: Firefox shows them to the user; the tab stays " +
+      "blocked until the user answers). Results of calls during which a dialog was answered say so",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: { type: "string", enum: ["accept", "dismiss"], description: "Answer for the tab's next dialog" },
+        promptText: { type: "string", description: "Text to answer a prompt() with (default: its default value)" },
+        default: {
+          type: "string",
+          enum: ["accept", "dismiss", "ask"],
+          description: "Answer dialogs this way from now on, in every tab"
+        },
+        tabId: { type: "number" }
+      }
+    }
+  },
+  {
+    name: "wait_for",
+    description: "Wait until all given conditions hold: selector visible/hidden, text present, URL match, network idle, DOM quiet",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...WAIT_CONDITIONS,
+        tabId: { type: "number" }
+      }
+    }
+  }
+] as const satisfies readonly ToolDefinition[];
+
+// Tools answered by the server itself rather than forwarded to a browser
+export const HOST_TOOLS = [
+  {
+    name: "browsers_list",
+    description: "List connected browser instances (Firefox profiles) that tools can target with browserId",
+    inputSchema: { type: "object", properties: {} }
+  },
+  {
+    name: "events_poll",
+    description: "Browser events since a cursor: tabs created/closed/activated/updated (popups carry openerTabId), " +
+      "top-frame navigations committed (redirects in transitionQualifiers) and completed, downloads finished, " +
+      "dialogs and extension errors. Pass the returned cursor as since to get only newer events",
+    inputSchema: {
+      type: "object",
+      properties: {
+        since: { type: "number", description: "Cursor from the previous events_poll (default 0: all kept events)" },
+        types: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: [
+              "tab.created", "tab.closed", "tab.activated", "tab.updated", "navigation.committed",
+              "navigation.completed", "download.finished", "dialog.opened", "dialog.closed", "error"
+            ]
+          },
+          description: "Only these event types"
+        },
+        tabId: { type: "number", description: "Only events of this tab" },
+        browserId: { type: "string", description: "Only events of this browser (from browsers_list)" },
+        limit: { type: "number", description: "Most events to return (default 100)" },
+        timeout: { type: "number", description: "If there are none yet, wait up to this many ms (max 60000) for one" }
+      }
+    }
+  },
+  {
+    name: "batch",
+    description: "Run several tool calls in order in one request and return every step's result. A string " +
+      "argument \"$prev\", \"$prev.field\" or \"$prev[0].field\" is replaced by the previous step's (JSON) " +
+      "result; on an array result \"$prev.ref\" takes the first item's, e.g. find's best match for a click",
+    inputSchema: {
+      type: "object",
+      properties: {
+        steps: {
+          type: "array",
+          minItems: 1,
+          items: {
+            type: "object",
+            properties: {
+              tool: { type: "string", description: "Tool to call (any tool except batch)" },
+              arguments: { type: "object", description: "Its arguments, which may use $prev references" },
+              waitFor: WAIT_FOR_SCHEMA,
+              screenshot: { type: "boolean", description: "Take a screenshot of the tab after this step" }
+            },
+            required: ["tool"]
+          }
+        },
+        onError: {
+          type: "string",
+          enum: ["stop", "continue"],
+          description: "After a failed step: stop (default), or go on with the next one"
+        }
+      },
+      required: ["steps"]
+    }
+  }
+] as const satisfies readonly ToolDefinition[];
+
+const BROWSER_ID_SCHEMA = {
+  type: "string",
+  description: "Browser instance from browsers_list (optional, uses the default browser)"
+} as const;
+
+export type BrowserToolName = typeof BROWSER_TOOLS[number]["name"];
+export type ToolName = BrowserToolName | typeof HOST_TOOLS[number]["name"];
+
+// Arguments of a tools/call, as validated by validateToolArgs
+export type ToolArgs<N extends ToolName> =
+  & FromSchema<Extract<typeof BROWSER_TOOLS[number] | typeof HOST_TOOLS[number], { name: N }>["inputSchema"]>
+  & { browserId?: string };
+
+// Host-side implementations, for tools that are not plain extension calls
+export type ToolHandlers<Context> = {
+  [N in ToolName]?: (args: ToolArgs<N>, context: Context) => Promise<unknown>;
+};
+
+const ALL_TOOLS: readonly ToolDefinition[] = [...HOST_TOOLS, ...BROWSER_TOOLS];
+const TOOLS_BY_NAME = new Map(ALL_TOOLS.map((tool) => [tool.name, tool]));
+
+export function isToolName(name: unknown): name is ToolName {
+  return typeof name === "string" && TOOLS_BY_NAME.has(name);
+}
+
+export function isBrowserTool(name: ToolName): name is BrowserToolName {
+  return !HOST_TOOLS.some((tool) => tool.name === name);
+}
+
+// tools/list entries. browserTools limits the browser tools to what the
+// connected extensions implement (undefined: all of them).
+export function listTools(browserTools?: ReadonlySet<string>): ToolDefinition[] {
+  const browser = BROWSER_TOOLS
+    .filter((tool) => !browserTools || browserTools.has(tool.name))
+    .map((tool) => ({
+      ...tool,
+      // Every browser tool can be routed to a specific instance
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: { ...tool.inputSchema.properties, browserId: BROWSER_ID_SCHEMA }
+      }
+    }));
+  return [...HOST_TOOLS, ...browser];
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "object" ? "an object" : `a ${typeof value}`;
+}
+
+// Problem with a value at path, or null when it matches the schema
+function checkValue(value: unknown, schema: JsonSchema, path: string): { field: string; message: string } | null {
+  const fail = (message: string) => ({ field: path, message: `${path} ${message}` });
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return fail(`must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return fail(`must be a string, got ${typeName(value)}`);
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") return fail(`must be a boolean, got ${typeName(value)}`);
+      break;
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) return fail(`must be a number, got ${typeName(value)}`);
+      if (schema.type === "integer" && !Number.isInteger(value)) return fail("must be an integer");
+      break;
+    case "array": {
+      if (!Array.isArray(value)) return fail(`must be an array, got ${typeName(value)}`);
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return fail(`must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return fail(`must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        for (let i = 0; i < value.length; i++) {
+          const problem = checkValue(value[i], schema.items, `${path}[${i}]`);
+          if (problem) return problem;
+        }
+      }
+      break;
+    }
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(`must be an object, got ${typeName(value)}`);
+      }
+      const object = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (object[key] === undefined) return { field: `${path}.${key}`, message: `${path}.${key} is required` };
+      }
+      // An object with declared properties takes no others
+      if (schema.properties) {
+        const unknown = Object.keys(object).find((key) => object[key] !== undefined && !(key in schema.properties!));
+        if (unknown !== undefined) {
+          return { field: `${path}.${unknown}`, message: `${path}.${unknown} is not a known property` };
+        }
+      }
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        if (object[key] === undefined) continue;
+        const problem = checkValue(object[key], property, `${path}.${key}`);
+        if (problem) return problem;
+      }
+      break;
+    }
+  }
+  return null;
+}
+
+// Problem with a value as a message, or null when it matches the schema
+export function schemaProblem(value: unknown, schema: JsonSchema, path: string): string | null {
+  return checkValue(value, schema, path)?.message ?? null;
+}
+
+// Whether a tool's schema declares an argument
+export function takesArgument(name: ToolName, argument: string): boolean {
+  return argument in (TOOLS_BY_NAME.get(name)!.inputSchema.properties ?? {});
+}
+
+// Whether a tool acts on a tab (and takes tabId to pick it)
+export function targetsTab(name: ToolName): boolean {
+  return takesArgument(name, "tabId");
+}
+
+// Check tools/call arguments against the tool's schema. Throws InvalidParams
+// naming the first bad field (e.g. "arguments.waitFor.timeout").
+export function validateToolArgs<N extends ToolName>(name: N, args: unknown): ToolArgs<N> {
+  const tool = TOOLS_BY_NAME.get(name)!;
+  const schema = isBrowserTool(name)
+    ? { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, browserId: BROWSER_ID_SCHEMA } }
+    : tool.inputSchema;
+
+  const problem = checkValue(args ?? {}, schema, "arguments");
+  if (problem) {
+    throw new McpError(INVALID_PARAMS, `Invalid arguments for ${name}: ${problem.message}`, {
+      tool: name,
+      field: problem.field
+    });
+  }
+  return (args ?? {}) as ToolArgs<N>;
+}
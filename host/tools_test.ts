@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Tool argument validation tests
+
+import assert from "node:assert/strict";
+import { McpError } from "./protocol.ts";
+import { isBrowserTool, listTools, targetsTab, validateToolArgs } from "./tools.ts";
+
+// The field an InvalidParams error names, or null if the arguments pass
+function badField(name: Parameters<typeof validateToolArgs>[0], args: unknown): unknown {
+  try {
+    validateToolArgs(name, args);
+    return null;
+  } catch (e) {
+    assert.ok(e instanceof McpError);
+    return e.data?.field;
+  }
+}
+
+Deno.test("valid arguments pass unchanged, missing arguments count as {}", () => {
+  const args = { ref: "ref_3", modifiers: ["shift"], waitFor: { text: "Saved", timeout: 5000 }, browserId: "a" };
+  assert.equal(validateToolArgs("click", args), args);
+  assert.deepEqual(validateToolArgs("tabs_list", undefined), {});
+});
+
+Deno.test("the first bad field is named, at any depth", () => {
+  assert.equal(badField("navigate", {}), "arguments.url");
+  assert.equal(badField("navigate", { url: 1 }), "arguments.url");
+  assert.equal(badField("click", { coordinate: [1] }), "arguments.coordinate");
+  assert.equal(badField("click", { coordinate: [1, "2"] }), "arguments.coordinate[1]");
+  assert.equal(badField("click", { modifiers: ["hyper"] }), "arguments.modifiers[0]");
+  assert.equal(badField("click", { waitFor: { timeout: "soon" } }), "arguments.waitFor.timeout");
+  assert.equal(badField("batch", { steps: [] }), "arguments.steps");
+  assert.equal(badField("navigate", { url: "https://example.com", browserId: 7 }), "arguments.browserId");
+  assert.equal(badField("navigate", []), "arguments");
+});
+
+Deno.test("arguments a tool does not declare are rejected", () => {
+  assert.equal(badField("navigate", { url: "https://example.com", frameId: 2 }), "arguments.frameId");
+  assert.equal(badField("click", { ref: "ref_1", waitFor: { txt: "Saved" } }), "arguments.waitFor.txt");
+  assert.equal(badField("batch", { steps: [{ tool: "navigate", arguments: { url: "x", extra: 1 } }] }), null);
+});
+
+Deno.test("the error message says what is wrong", () => {
+  assert.throws(
+    () => validateToolArgs("click", { modifiers: "shift" }),
+    { message: "Invalid arguments for click: arguments.modifiers must be an array, got a string" }
+  );
+});
+
+Deno.test("browser tools take browserId, host tools do not", () => {
+  const tools = new Map(listTools().map((tool) => [tool.name, tool]));
+  assert.ok("browserId" in tools.get("click")!.inputSchema.properties!);
+  assert.ok(!("browserId" in tools.get("browsers_list")!.inputSchema.properties!));
+  assert.ok(isBrowserTool("click") && !isBrowserTool("browsers_list"));
+  assert.ok(targetsTab("click") && !targetsTab("browsers_list"));
+});
+
+Deno.test("tools/list can be limited to what an extension implements", () => {
+  const names = listTools(new Set(["navigate"])).map((tool) => tool.name);
+  assert.ok(names.includes("navigate") && names.includes("browsers_list"));
+  assert.ok(!names.includes("click"));
+});
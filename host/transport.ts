@@ -0,0 +1,185 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Transports between the MCP server and the extension
+//
+// "websocket": the extension connects to ws://127.0.0.1:9876.
+// "native": Firefox starts host/native-host.ts through native messaging, which
+// relays to the server over a Unix domain socket. No TCP port is opened.
+//
+// Both carry the same JSON-RPC messages (handshake, browser/hello, tools/call).
+// The Unix socket and native messaging both frame them with a 4-byte
+// little-endian length prefix.
+
+import { configDir } from "./auth.ts";
+
+export const TRANSPORTS = ["websocket", "native"];
+
+// Native messaging name; host/native-host.ts writes the manifest for it
+export const NATIVE_HOST_NAME = "claude_firefox_mcp";
+export const EXTENSION_ID = "claude-mcp@hyperpolymath.org";
+
+// Firefox rejects messages over 1MB from the native host
+export const MAX_NATIVE_MESSAGE_BYTES = 1024 * 1024;
+// Frames from the extension (screenshots, HAR logs) may be large, but not unbounded
+export const MAX_FRAME_BYTES = 256 * 1024 * 1024;
+
+// One extension connection, whatever carries it
+export interface BrowserConnection {
+  label: string;
+  isOpen(): boolean;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+// What the server does with a connection's messages
+export interface ConnectionHandler {
+  message(data: string): void | Promise<void>;
+  closed(): void;
+}
+
+export type AcceptConnection = (connection: BrowserConnection) => ConnectionHandler;
+
+// Transports chosen with --transport=websocket|native|both or CLAUDE_FIREFOX_MCP_TRANSPORT
+export function selectTransports(args: string[] = Deno.args): string[] {
+  const flag = args.find((a) => a.startsWith("--transport="))?.split("=")[1];
+  const name = flag ?? Deno.env.get("CLAUDE_FIREFOX_MCP_TRANSPORT") ?? "both";
+  if (name === "both") return [...TRANSPORTS];
+  if (!TRANSPORTS.includes(name)) {
+    throw new Error(`Unknown transport "${name}". Available: ${TRANSPORTS.join(", ")}, both`);
+  }
+  return [name];
+}
+
+// Unix socket between the server and the native messaging relay
+// (override with CLAUDE_FIREFOX_MCP_SOCKET)
+export function socketPath(): string {
+  const override = Deno.env.get("CLAUDE_FIREFOX_MCP_SOCKET");
+  if (override) return override;
+  const runtimeDir = Deno.env.get("XDG_RUNTIME_DIR");
+  return runtimeDir ? `${runtimeDir}/claude-firefox-mcp.sock` : `${configDir()}/bridge.sock`;
+}
+
+export function encodeFrame(data: string | Uint8Array): Uint8Array {
+  const payload = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const frame = new Uint8Array(4 + payload.length);
+  new DataView(frame.buffer).setUint32(0, payload.length, true);
+  frame.set(payload, 4);
+  return frame;
+}
+
+// Length-prefixed frames from a byte stream. Reads may split a frame or carry
+// several; bytes are buffered until a whole frame is available.
+export async function* readFrames(
+  readable: ReadableStream<Uint8Array>,
+  maxLength = MAX_FRAME_BYTES
+): AsyncGenerator<Uint8Array> {
+  let buffer = new Uint8Array(0);
+
+  for await (const chunk of readable) {
+    const joined = new Uint8Array(buffer.length + chunk.length);
+    joined.set(buffer);
+    joined.set(chunk, buffer.length);
+    buffer = joined;
+
+    while (buffer.length >= 4) {
+      const length = new DataView(buffer.buffer, buffer.byteOffset, 4).getUint32(0, true);
+      if (length > maxLength) {
+        throw new Error(`Frame of ${length} bytes exceeds the ${maxLength} byte limit`);
+      }
+      if (buffer.length < 4 + length) break;
+      yield buffer.slice(4, 4 + length);
+      buffer = buffer.subarray(4 + length);
+    }
+  }
+}
+
+// Messages over Firefox's native messaging limit are sent as transport/chunk
+// pieces that the extension reassembles. Pieces are counted in characters; even
+// if every character needed 6 bytes of JSON escaping a piece stays under 1MB.
+const NATIVE_CHUNK_CHARS = 128 * 1024;
+let nextChunkedId = 0;
+
+export function nativeMessages(json: string): string[] {
+  if (new TextEncoder().encode(json).length <= MAX_NATIVE_MESSAGE_BYTES) return [json];
+
+  const id = ++nextChunkedId;
+  const count = Math.ceil(json.length / NATIVE_CHUNK_CHARS);
+  return Array.from({ length: count }, (_, index) =>
+    JSON.stringify({
+      jsonrpc: "2.0",
+      method: "transport/chunk",
+      params: { id, index, count, data: json.slice(index * NATIVE_CHUNK_CHARS, (index + 1) * NATIVE_CHUNK_CHARS) }
+    }));
+}
+
+// Accept relay connections on the Unix socket
+export async function listenUnix(path: string, accept: AcceptConnection, log: (...args: unknown[]) => void) {
+  // A socket file left by a crashed server blocks listen; one that answers is in use
+  try {
+    const existing = await Deno.connect({ transport: "unix", path });
+    existing.close();
+    throw new Error(`Another MCP server is already listening on ${path}`);
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) {
+      // Nothing there
+    } else if (e instanceof Deno.errors.ConnectionRefused) {
+      await Deno.remove(path);
+    } else {
+      throw e;
+    }
+  }
+
+  await Deno.mkdir(path.slice(0, path.lastIndexOf("/")), { recursive: true });
+  const listener = Deno.listen({ transport: "unix", path });
+  await Deno.chmod(path, 0o600);
+  log(`Native messaging relay socket listening on ${path}`);
+
+  for await (const conn of listener) {
+    serveUnixConnection(conn, accept, log);
+  }
+}
+
+function serveUnixConnection(conn: Deno.UnixConn, accept: AcceptConnection, log: (...args: unknown[]) => void) {
+  const writer = conn.writable.getWriter();
+  let open = true;
+  // Writes are queued so frames never interleave
+  let writes = Promise.resolve();
+
+  const close = () => {
+    if (!open) return;
+    open = false;
+    writes.finally(() => conn.close()).catch(() => {});
+  };
+
+  const connection: BrowserConnection = {
+    label: "native messaging",
+    isOpen: () => open,
+    send(data) {
+      if (!open) return;
+      writes = writes.then(() => writer.write(encodeFrame(data))).catch((e) => {
+        log("Relay socket write failed:", e);
+        close();
+      });
+    },
+    close(code, reason) {
+      // No close codes on a plain socket; tell the extension why before closing
+      if (code !== undefined) {
+        connection.send(JSON.stringify({ jsonrpc: "2.0", method: "transport/close", params: { code, reason } }));
+      }
+      close();
+    }
+  };
+
+  const handler = accept(connection);
+  (async () => {
+    try {
+      for await (const frame of readFrames(conn.readable)) {
+        await handler.message(new TextDecoder().decode(frame));
+      }
+    } catch (e) {
+      if (open) log("Relay socket error:", e instanceof Error ? e.message : e);
+    } finally {
+      close();
+      handler.closed();
+    }
+  })();
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Claude Firefox MCP - Session window
+//
+// By default a session works in the browser's current window, next to the
+// user's own tabs. With the dedicated scope the server has every browser that
+// connects open a window of its own for the session (windows_create with
+// session: true, extension/windows.js), and the extension keeps all calls to it.
+
+export const WINDOW_SCOPES = ["shared", "dedicated"] as const;
+export type WindowScope = typeof WINDOW_SCOPES[number];
+
+// The scope chosen with --window=<scope> or CLAUDE_FIREFOX_MCP_WINDOW
+export function selectWindowScope(args: string[] = Deno.args): WindowScope {
+  const flag = args.find((a) => a.startsWith("--window="))?.split("=")[1];
+  const name = flag ?? Deno.env.get("CLAUDE_FIREFOX_MCP_WINDOW") ?? "shared";
+  if (!(WINDOW_SCOPES as readonly string[]).includes(name)) {
+    throw new Error(`Unknown window scope "${name}". Available: ${WINDOW_SCOPES.join(", ")}`);
+  }
+  return name as WindowScope;
+}
@@ -23,16 +23,28 @@ mkdir -p ~/.local/bin
 cat > ~/.local/bin/claude-firefox-mcp << 'EOF'
 #!/bin/bash
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
-exec deno run --allow-net --allow-read --allow-env "$HOME/claude-firefox-mcp/host/server.ts" "$@"
+exec deno run --allow-net --allow-read --allow-write --allow-env --allow-run=xdotool "$HOME/claude-firefox-mcp/host/server.ts" "$@"
 EOF
 
 chmod +x ~/.local/bin/claude-firefox-mcp
 
+# Native messaging relay, started by Firefox for the "native" transport
+cat > ~/.local/bin/claude-firefox-mcp-native << 'EOF'
+#!/bin/bash
+exec deno run --allow-read --allow-write --allow-env "$HOME/claude-firefox-mcp/host/native-host.ts" "$@"
+EOF
+
+chmod +x ~/.local/bin/claude-firefox-mcp-native
+
 # Symlink project if not already there
 if [ ! -d "$HOME/claude-firefox-mcp" ]; then
     ln -sf "$PROJECT_DIR" "$HOME/claude-firefox-mcp"
 fi
 
+# Register the relay with Firefox
+deno run --allow-read --allow-write --allow-env "$PROJECT_DIR/host/native-host.ts" manifest \
+    --wrapper="$HOME/.local/bin/claude-firefox-mcp-native"
+
 # Add to Claude Code settings
 CLAUDE_SETTINGS="$HOME/.claude/settings.json"
 if [ -f "$CLAUDE_SETTINGS" ]; then
@@ -79,7 +91,14 @@ echo "   - Click 'This Firefox'"
 echo "   - Click 'Load Temporary Add-on'"
 echo "   - Select: $PROJECT_DIR/extension/manifest.json"
 echo ""
-echo "2. Start using Claude Code - the Firefox MCP will be available"
+echo "2. Pair the extension with this host:"
+echo "   - Run: ~/.local/bin/claude-firefox-mcp pair"
+echo "   - Paste the secret into the extension preferences (about:addons)"
+echo ""
+echo "3. Optional: to avoid the localhost TCP port, choose 'Native messaging'"
+echo "   under Connection in the extension preferences"
+echo ""
+echo "4. Start using Claude Code - the Firefox MCP will be available"
 echo ""
 echo "To test manually:"
 echo "  ~/.local/bin/claude-firefox-mcp"